@@ -0,0 +1,31 @@
+// p-limit is ESM-only; Jest runs the tests as CommonJS. Same behaviour, without the package's
+// extras (clearQueue, concurrency setter).
+module.exports = function pLimit(concurrency) {
+  const queue = [];
+  let activeCount = 0;
+
+  const next = () => {
+    activeCount--;
+    if (queue.length > 0) queue.shift()();
+  };
+
+  const run = (fn, resolve, args) => {
+    activeCount++;
+    const result = (async () => fn(...args))();
+    resolve(result);
+    result.then(next, next);
+  };
+
+  const limit = (fn, ...args) =>
+    new Promise((resolve) => {
+      const start = () => run(fn, resolve, args);
+      if (activeCount < concurrency) start();
+      else queue.push(start);
+    });
+
+  Object.defineProperties(limit, {
+    activeCount: { get: () => activeCount },
+    pendingCount: { get: () => queue.length },
+  });
+  return limit;
+};
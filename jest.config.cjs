@@ -6,5 +6,6 @@ module.exports = {
   moduleNameMapper: {
     "^@/(.*)$": "<rootDir>/src/$1",
     "axios-cookiejar-support": "<rootDir>/__mocks__/axios-cookiejar-support.js",
+    "^p-limit$": "<rootDir>/__mocks__/p-limit.js",
   },
 };
@@ -0,0 +1,46 @@
+// scripts/import-har.ts
+//
+// Converts browser HAR captures into INPI fixtures for the replay transport.
+// Usage: npm run fixtures:import-har -- [file.har ...]
+// Without arguments, imports every capture in `docs/Api documentation/debug`. Fixtures are
+// written to `INPI_FIXTURES_DIR` (default `fixtures/inpi`).
+
+import fs from "fs/promises";
+import path from "path";
+import { getFixturesDir, importHarFile } from "../src/lib/inpi-transport";
+
+const DEFAULT_HAR_DIR = path.join("docs", "Api documentation", "debug");
+
+async function defaultHarFiles(): Promise<string[]> {
+  const files = await fs.readdir(DEFAULT_HAR_DIR);
+  return files
+    .filter((file) => file.endsWith(".har"))
+    .sort()
+    .map((file) => path.join(DEFAULT_HAR_DIR, file));
+}
+
+async function main() {
+  const harFiles =
+    process.argv.length > 2 ? process.argv.slice(2) : await defaultHarFiles();
+  const fixturesDir = getFixturesDir();
+  let total = 0;
+  let failed = 0;
+  for (const harFile of harFiles) {
+    try {
+      const written = await importHarFile(harFile, fixturesDir);
+      total += written.length;
+      console.log(`${harFile}: ${written.length} fixture(s)`);
+    } catch (error) {
+      // Some captures are truncated; the others are still worth importing.
+      failed++;
+      console.warn(`${harFile}: skipped, ${(error as Error).message}`);
+    }
+  }
+  console.log(`Wrote ${total} fixture(s) to ${fixturesDir}.`);
+  if (failed > 0) process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin-auth";
+import { getCacheService } from "@/lib/cache-service";
+import { logError } from "@/lib/inpi-client";
+
+// Drops every cache entry, like the weekly flush but on demand.
+export async function POST(request: Request) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    await getCacheService().flushAll();
+    return NextResponse.json({
+      flushed: true,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: unknown) {
+    logError("adminCacheFlush", error);
+    return NextResponse.json(
+      {
+        error: "Failed to flush the cache.",
+        code: "INTERNAL_ERROR",
+        details: String(error),
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin-auth";
+import { invalidateApplication, invalidateByPrefix } from "@/lib/cache-admin";
+import { getCacheService } from "@/lib/cache-service";
+import { logError } from "@/lib/inpi-client";
+
+// Invalidates entries by key prefix ({ "prefix": "search:" }) or by trademark
+// ({ "applicationNumber": "FR1324250" }).
+export async function POST(request: Request) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { prefix, applicationNumber } = body as {
+      prefix?: unknown;
+      applicationNumber?: unknown;
+    };
+
+    const cache = getCacheService();
+    let deleted: string[];
+    if (typeof applicationNumber === "string" && applicationNumber.trim()) {
+      deleted = await invalidateApplication(cache, applicationNumber);
+    } else if (typeof prefix === "string" && prefix) {
+      deleted = await invalidateByPrefix(cache, prefix);
+    } else {
+      return NextResponse.json(
+        {
+          error: "Either a non-empty prefix or an applicationNumber is required.",
+          code: "INVALID_REQUEST",
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ deleted: deleted.length, keys: deleted });
+  } catch (error: unknown) {
+    logError("adminCacheInvalidate", error);
+    return NextResponse.json(
+      {
+        error: "Failed to invalidate cache entries.",
+        code: "INTERNAL_ERROR",
+        details: String(error),
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin-auth";
+import { getCacheService } from "@/lib/cache-service";
+import { logError } from "@/lib/inpi-client";
+
+const DEFAULT_LIMIT = 100;
+
+// Lists cache keys, e.g. GET /api/admin/cache/keys?prefix=search:&limit=50
+export async function GET(request: Request) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const prefix = searchParams.get("prefix") ?? "";
+    const limit = parseInt(searchParams.get("limit") || "", 10) || DEFAULT_LIMIT;
+
+    const keys = (await getCacheService().keys(prefix)).sort();
+    return NextResponse.json({
+      prefix,
+      total: keys.length,
+      keys: keys.slice(0, limit),
+    });
+  } catch (error: unknown) {
+    logError("adminCacheKeys", error);
+    return NextResponse.json(
+      {
+        error: "Failed to list cache keys.",
+        code: "INTERNAL_ERROR",
+        details: String(error),
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { GET } from "./route";
+
+const requestWith = (authorization?: string) =>
+  new Request("http://localhost/api/admin/cache", {
+    headers: authorization ? { authorization } : {},
+  });
+
+describe("/api/admin/cache", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, ADMIN_API_TOKEN: "s3cret" };
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it("is disabled when no admin token is configured", async () => {
+    delete process.env.ADMIN_API_TOKEN;
+
+    const response = await GET(requestWith("Bearer s3cret"));
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).code).toBe("ADMIN_DISABLED");
+  });
+
+  it("rejects missing and wrong tokens", async () => {
+    expect((await GET(requestWith())).status).toBe(401);
+    expect((await GET(requestWith("Bearer wrong"))).status).toBe(401);
+  });
+
+  it("returns cache statistics and the weekly flush schedule", async () => {
+    const response = await GET(requestWith("Bearer s3cret"));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.stats).toMatchObject({ backend: "memory" });
+    expect(data.weeklyFlush).toMatchObject({
+      dayOfWeek: 5,
+      timeZone: "Europe/Paris",
+    });
+    expect(data.inpi.state).toBe("closed");
+  });
+});
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin-auth";
+import {
+  getCacheConfig,
+  getCacheService,
+  getLastWeeklyFlush,
+} from "@/lib/cache-service";
+import { getInpiHealth, logError } from "@/lib/inpi-client";
+
+// Cache statistics, the weekly flush schedule and the INPI circuit state.
+export async function GET(request: Request) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const cache = getCacheService();
+    const { flushSchedule } = getCacheConfig();
+    return NextResponse.json({
+      stats: await cache.getStats(),
+      weeklyFlush: {
+        ...flushSchedule,
+        timeZone: "Europe/Paris",
+        lastFlush: (await getLastWeeklyFlush(cache)) ?? null,
+      },
+      inpi: getInpiHealth(),
+    });
+  } catch (error: unknown) {
+    logError("adminCacheStats", error);
+    return NextResponse.json(
+      {
+        error: "Failed to read cache statistics.",
+        code: "INTERNAL_ERROR",
+        details: String(error),
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { logError } from "@/lib/inpi-client";
+import {
+  loadNotificationChannels,
+  toChannelSummary,
+} from "@/lib/notifications";
+
+// Lists the configured notification channels watches can be routed to, without their URLs,
+// secrets or addresses.
+export async function GET() {
+  try {
+    const channels = await loadNotificationChannels();
+    return NextResponse.json({ channels: channels.map(toChannelSummary) });
+  } catch (error: unknown) {
+    logError("notificationChannelsList", error);
+    return NextResponse.json(
+      {
+        error: "Failed to load the notification channels.",
+        code: "INTERNAL_ERROR",
+        details: String(error),
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
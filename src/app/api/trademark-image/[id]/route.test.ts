@@ -0,0 +1,108 @@
+jest.mock("@/lib/inpi-client", () => ({
+  __esModule: true,
+  ...jest.requireActual("@/lib/inpi-client"),
+  inpiRequest: jest.fn(),
+  logError: jest.fn(),
+}));
+
+import { NextRequest } from "next/server";
+import { AxiosError, AxiosHeaders } from "axios";
+import { GET } from "./route";
+import { inpiRequest } from "@/lib/inpi-client";
+import { getCacheService } from "@/lib/cache-service";
+import { matchesEtag, PLACEHOLDER_HEADER } from "@/lib/trademark-image";
+
+const mockedInpiRequest = inpiRequest as jest.Mock;
+
+const PNG = Buffer.from("\x89PNG fake logo", "latin1");
+
+const callRoute = (id: string, query = "", headers: Record<string, string> = {}) =>
+  GET(new NextRequest(`http://localhost/api/trademark-image/${id}${query}`, { headers }), {
+    params: Promise.resolve({ id }),
+  });
+
+const upstreamError = (status: number) =>
+  new AxiosError("Request failed", "ERR_BAD_RESPONSE", undefined, undefined, {
+    status,
+    statusText: "",
+    data: Buffer.alloc(0),
+    headers: {},
+    config: { headers: new AxiosHeaders() },
+  });
+
+describe("/api/trademark-image/[id]", () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    await getCacheService().flushAll();
+    mockedInpiRequest.mockResolvedValue({
+      status: 200,
+      data: PNG,
+      headers: { "content-type": "image/png" },
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("serves thumbnails from the cache with an ETag and answers revalidations with 304", async () => {
+    const first = await callRoute("FR1324250", "?format=thu");
+    const etag = first.headers.get("etag")!;
+
+    expect(first.status).toBe(200);
+    expect(first.headers.get("content-type")).toBe("image/png");
+    expect(etag).toMatch(/^".+"$/);
+    expect(Buffer.from(await first.arrayBuffer())).toEqual(PNG);
+    expect(mockedInpiRequest).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: "https://api-gateway.inpi.fr/services/apidiffusion/api/marques/image/FR1324250/thu",
+      })
+    );
+
+    const revalidated = await callRoute("FR1324250", "?format=thu", {
+      "if-none-match": `W/${etag}`,
+    });
+    expect(revalidated.status).toBe(304);
+    expect(revalidated.headers.get("etag")).toBe(etag);
+    expect(mockedInpiRequest).toHaveBeenCalledTimes(1);
+
+    await callRoute("FR1324250");
+    expect(mockedInpiRequest).toHaveBeenLastCalledWith(
+      expect.objectContaining({ url: expect.stringMatching(/\/FR1324250\/std$/) })
+    );
+    expect((await callRoute("FR1324250", "?format=big")).status).toBe(400);
+  });
+
+  it("returns a cached placeholder for marks without a logo", async () => {
+    mockedInpiRequest.mockRejectedValue(upstreamError(404));
+
+    const response = await callRoute("FR8631", "?format=thu");
+    await callRoute("FR8631", "?format=thu");
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("image/svg+xml");
+    expect(response.headers.get(PLACEHOLDER_HEADER)).toBe("true");
+    expect(await response.text()).toContain("Aucun logo");
+    expect(mockedInpiRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports INPI failures as gateway errors rather than missing images", async () => {
+    mockedInpiRequest.mockRejectedValue(upstreamError(500));
+
+    const response = await callRoute("FR1324250");
+
+    expect(response.status).toBe(502);
+    expect((await response.json()).code).toBe("UPSTREAM_ERROR");
+  });
+});
+
+describe("matchesEtag", () => {
+  it("compares weakly and accepts lists and wildcards", () => {
+    expect(matchesEtag('"a", "b"', '"b"')).toBe(true);
+    expect(matchesEtag('W/"a"', '"a"')).toBe(true);
+    expect(matchesEtag("*", '"a"')).toBe(true);
+    expect(matchesEtag('"a"', '"b"')).toBe(false);
+    expect(matchesEtag(null, '"a"')).toBe(false);
+  });
+});
@@ -1,67 +1,73 @@
 import { NextRequest, NextResponse } from "next/server"; // Added NextRequest back
+import { logError, APIError, errorCodeFor } from "@/lib/inpi-client";
+import { staleHeaders } from "@/lib/stale-cache";
 import {
-  client,
-  getAccessToken,
-  getXsrfTokenValue,
-  logError,
-  APIError,
-} from "@/lib/inpi-client";
+  createEtag,
+  getTrademarkImage,
+  IMAGE_FORMATS,
+  matchesEtag,
+  parseImageFormat,
+  PLACEHOLDER_HEADER,
+  placeholderSvg,
+} from "@/lib/trademark-image";
+import { isApplicationNumber } from "@/lib/trademark-record";
 import axios from "axios";
 
-const INPI_IMAGE_BASE_URL =
-  "https://api-gateway.inpi.fr/services/apidiffusion/api/marques/image";
-
+/**
+ * Serves a mark's logo: `?format=std` (default) or `?format=thu` for the thumbnail. Images are
+ * kept in the cache layer and served with an ETag, so revalidations cost neither bandwidth nor
+ * INPI calls. Marks without a logo get a generated SVG placeholder.
+ */
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> } // Destructured params promise
 ) {
   const { id } = await params; // Await the destructured params
+  const format = parseImageFormat(request.nextUrl.searchParams.get("format"));
 
-  if (!id) {
+  if (!id || !isApplicationNumber(id) || !format) {
     return NextResponse.json(
-      { error: "Trademark ID is required for image." },
+      {
+        error: `A valid trademark ID and format (${IMAGE_FORMATS.join(", ")}) are required for image.`,
+        code: "INVALID_ID",
+        timestamp: new Date().toISOString(),
+      },
       { status: 400 }
     );
   }
 
-  console.log(`Fetching image for trademark ID: ${id}`);
-
   try {
-    const token = await getAccessToken();
-    const imageUrl = `${INPI_IMAGE_BASE_URL}/${id}/std`;
-    const currentXsrf = getXsrfTokenValue();
+    const { data: image, stale } = await getTrademarkImage(id, format);
 
-    console.log(`Proxying image request to: ${imageUrl}`);
-    console.log(
-      `Using X-XSRF-TOKEN for image GET: ${currentXsrf || "None (if not set)"}`
-    );
-
-    const response = await client.get(imageUrl, {
-      headers: {
-        Authorization: `Bearer ${token}`,
-        "X-XSRF-TOKEN": currentXsrf || "",
-        "User-Agent": "Next.js Trademark App/1.0 (Image Proxy)",
-        // Important: Ensure the INPI API knows we can handle the image type
-        Accept: "image/jpeg, image/png, image/*,*/*;q=0.8",
-      },
-      responseType: "arraybuffer", // Crucial for getting the image data as a buffer
-    });
-
-    console.log(
-      `Successfully fetched image for ${id} from INPI, status: ${response.status}`
-    );
-
-    // Determine content type from INPI's response if available, otherwise default or try to infer
-    const contentType = response.headers["content-type"] || "image/jpeg"; // Defaulting to jpeg
+    let body: Buffer;
+    let contentType: string;
+    let etag: string;
+    const headers: Record<string, string> = {
+      ...staleHeaders({ stale }),
+      "Cache-Control": "public, max-age=86400, stale-while-revalidate=604800",
+    };
+    if (image.missing) {
+      const svg = placeholderSvg(format);
+      body = Buffer.from(svg);
+      contentType = "image/svg+xml";
+      etag = createEtag(svg);
+      headers[PLACEHOLDER_HEADER] = "true";
+    } else {
+      body = Buffer.from(image.body, "base64");
+      contentType = image.contentType;
+      etag = image.etag;
+    }
+    headers.ETag = etag;
 
-    // Return the image data with the correct content type
-    // NextResponse cannot directly stream. We send the buffer.
-    // For true streaming, one would use ReadableStream directly with new Response.
-    return new NextResponse(response.data, {
+    if (matchesEtag(request.headers.get("if-none-match"), etag)) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+    return new NextResponse(new Uint8Array(body), {
       status: 200,
       headers: {
+        ...headers,
         "Content-Type": contentType,
-        "Cache-Control": "public, max-age=86400", // Cache for a day
+        "Content-Length": String(body.length),
       },
     });
   } catch (error: unknown) {
@@ -70,37 +76,33 @@ export async function GET(
       return NextResponse.json(
         {
           error: error.message,
-          code: error.statusCode,
+          code: errorCodeFor(error),
           details: error.details,
+          timestamp: new Date().toISOString(),
         },
         { status: error.statusCode }
       );
     }
     if (axios.isAxiosError(error)) {
-      if (error.response?.status === 500) {
+      const status = error.response?.status;
+      // INPI failing is not the same as the mark having no image: report it as a gateway error.
+      if (!status || status >= 500) {
         return NextResponse.json(
           {
-            error: "Image not available for the given trademark ID.",
-            code: 500,
-            details: `The trademark ID "${id}" does not seem to correspond to a valid image.`,
+            error: `INPI failed to return the image: ${error.message}`,
+            code: "UPSTREAM_ERROR",
             timestamp: new Date().toISOString(),
           },
-          { status: 500 }
+          { status: 502 }
         );
       }
-      // Log the actual error response from INPI if available
-      console.error(
-        "Axios error details:",
-        error.response?.data
-          ? Buffer.from(error.response.data).toString()
-          : error.message
-      );
       return NextResponse.json(
         {
           error: `Failed to fetch image: ${error.message}`,
-          code: error.response?.status || 500,
+          code: status,
+          timestamp: new Date().toISOString(),
         },
-        { status: error.response?.status || 500 }
+        { status }
       );
     }
     return NextResponse.json(
@@ -108,6 +110,7 @@ export async function GET(
         error:
           "An unexpected error occurred while fetching the trademark image.",
         code: "INTERNAL_ERROR",
+        timestamp: new Date().toISOString(),
       },
       { status: 500 }
     );
@@ -0,0 +1,80 @@
+jest.mock("@/lib/inpi-client", () => ({
+  __esModule: true,
+  ...jest.requireActual("@/lib/inpi-client"),
+  inpiRequest: jest.fn(),
+  logError: jest.fn(),
+}));
+
+import { NextRequest } from "next/server";
+import { Readable } from "stream";
+import { AxiosError, AxiosHeaders } from "axios";
+import { GET } from "./route";
+import { inpiRequest } from "@/lib/inpi-client";
+
+const mockedInpiRequest = inpiRequest as jest.Mock;
+
+const callRoute = (id: string) =>
+  GET(new NextRequest(`http://localhost/api/trademarks/bopi/${id}`), {
+    params: Promise.resolve({ id }),
+  });
+
+describe("/api/trademarks/bopi/[id]", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("streams the publication as a PDF download", async () => {
+    const pdf = Buffer.from("%PDF-1.4\n%%EOF");
+    mockedInpiRequest.mockResolvedValue({
+      status: 200,
+      data: Readable.from([pdf]),
+      headers: { "content-type": "application/pdf", "content-length": String(pdf.length) },
+    });
+
+    const response = await callRoute("FR1324250");
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("application/pdf");
+    expect(response.headers.get("content-disposition")).toBe(
+      `attachment; filename="BOPI_FR1324250.pdf"; filename*=UTF-8''BOPI_FR1324250.pdf`
+    );
+    expect(response.headers.get("content-length")).toBe(String(pdf.length));
+    expect(Buffer.from(await response.arrayBuffer())).toEqual(pdf);
+    expect(mockedInpiRequest).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: "https://api-gateway.inpi.fr/services/apidiffusion/api/marques/bopi/FR1324250",
+        responseType: "stream",
+      })
+    );
+  });
+
+  it("rejects IDs that are not application numbers", async () => {
+    const response = await callRoute("FR1324250%2F..");
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).code).toBe("INVALID_ID");
+    expect(mockedInpiRequest).not.toHaveBeenCalled();
+  });
+
+  it("reports marks without a BOPI publication as not found", async () => {
+    mockedInpiRequest.mockRejectedValue(
+      new AxiosError("Not Found", "ERR_BAD_REQUEST", undefined, undefined, {
+        status: 404,
+        statusText: "Not Found",
+        data: Readable.from([]),
+        headers: {},
+        config: { headers: new AxiosHeaders() },
+      })
+    );
+
+    const response = await callRoute("FR8631");
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error).toMatch(/No BOPI publication/);
+  });
+});
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Readable } from "stream";
+import {
+  inpiRequest,
+  getXsrfTokenValue,
+  logError,
+  APIError,
+  errorCodeFor,
+} from "@/lib/inpi-client";
+import { isApplicationNumber } from "@/lib/trademark-record";
+import axios from "axios";
+
+const INPI_BOPI_BASE_URL =
+  "https://api-gateway.inpi.fr/services/apidiffusion/api/marques/bopi";
+
+/**
+ * Streams the PDF of the mark's BOPI publication (Bulletin officiel de la propriété
+ * industrielle) as a download named after the application number.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!id || !isApplicationNumber(id)) {
+    return NextResponse.json(
+      {
+        error: "A valid trademark ID is required for the BOPI publication.",
+        code: "INVALID_ID",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  console.log(`Fetching BOPI publication for trademark ID: ${id}`);
+
+  try {
+    const currentXsrf = getXsrfTokenValue();
+
+    // inpiRequest adds the bearer token and re-authenticates if the session was revoked.
+    const response = await inpiRequest<Readable>({
+      method: "GET",
+      url: `${INPI_BOPI_BASE_URL}/${id}`,
+      headers: {
+        "X-XSRF-TOKEN": currentXsrf || "",
+        "User-Agent": "Next.js Trademark App/1.0 (BOPI Proxy)",
+        Accept: "application/pdf",
+      },
+      responseType: "stream",
+    });
+
+    const filename = `BOPI_${id.toUpperCase()}.pdf`;
+    const headers: Record<string, string> = {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${filename}"; filename*=UTF-8''${filename}`,
+      "Cache-Control": "private, max-age=86400",
+    };
+    const contentLength = response.headers["content-length"];
+    if (contentLength) headers["Content-Length"] = String(contentLength);
+
+    return new NextResponse(
+      Readable.toWeb(response.data) as ReadableStream<Uint8Array>,
+      { status: 200, headers }
+    );
+  } catch (error: unknown) {
+    logError(`bopiRoute-${id}`, error);
+    if (error instanceof APIError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: errorCodeFor(error),
+          details: error.details,
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.statusCode }
+      );
+    }
+    if (axios.isAxiosError(error)) {
+      if (error.response?.status === 404) {
+        return NextResponse.json(
+          {
+            error: "No BOPI publication found for the given trademark ID.",
+            code: 404,
+            details: `The trademark ID "${id}" has no published BOPI entry.`,
+            timestamp: new Date().toISOString(),
+          },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json(
+        {
+          error: `Failed to fetch BOPI publication: ${error.message}`,
+          code: error.response?.status || 500,
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.response?.status || 500 }
+      );
+    }
+    return NextResponse.json(
+      {
+        error:
+          "An unexpected error occurred while fetching the BOPI publication.",
+        code: "INTERNAL_ERROR",
+        details: String(error),
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+jest.mock("@/lib/inpi-client", () => ({
+  __esModule: true,
+  ...jest.requireActual("@/lib/inpi-client"),
+  inpiRequest: jest.fn(),
+  logError: jest.fn(),
+}));
+
+import { NextRequest } from "next/server";
+import { Readable } from "stream";
+import { GET } from "./route";
+import { inpiRequest } from "@/lib/inpi-client";
+import { mediaTypeForFeature, parseMediaType } from "@/lib/trademark-media";
+
+const mockedInpiRequest = inpiRequest as jest.Mock;
+
+const SOUND = Buffer.from("ID3 0123456789abcdef");
+
+const callRoute = (type: string, id: string, range?: string) =>
+  GET(
+    new NextRequest(`http://localhost/api/trademarks/media/${type}/${id}`, {
+      headers: range ? { range } : {},
+    }),
+    { params: Promise.resolve({ type, id }) }
+  );
+
+describe("/api/trademarks/media/[type]/[id]", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    mockedInpiRequest.mockImplementation(async () => ({
+      status: 200,
+      data: Readable.from([SOUND]),
+      headers: {
+        "content-type": "audio/mpeg",
+        "content-length": String(SOUND.length),
+        "accept-ranges": "bytes",
+      },
+    }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("streams the file from INPI", async () => {
+    const response = await callRoute("sound", "FR4567890");
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("audio/mpeg");
+    expect(response.headers.get("content-length")).toBe(String(SOUND.length));
+    expect(response.headers.get("accept-ranges")).toBe("bytes");
+    expect(response.headers.get("content-disposition")).toBe('inline; filename="FR4567890.mp3"');
+    expect(Buffer.from(await response.arrayBuffer())).toEqual(SOUND);
+    expect(mockedInpiRequest).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: "https://api-gateway.inpi.fr/services/apidiffusion/api/marques/media/MEDIA_TYPE_SOUND/FR4567890",
+        responseType: "stream",
+        headers: expect.not.objectContaining({ Range: expect.anything() }),
+      })
+    );
+  });
+
+  it("passes byte ranges through to INPI and relays its partial content", async () => {
+    mockedInpiRequest.mockResolvedValue({
+      status: 206,
+      data: Readable.from([SOUND.subarray(4, 8)]),
+      headers: {
+        "content-type": "audio/mpeg",
+        "content-length": "4",
+        "content-range": `bytes 4-7/${SOUND.length}`,
+      },
+    });
+
+    const response = await callRoute("MEDIA_TYPE_SOUND", "FR4567890", "bytes=4-7");
+
+    expect(response.status).toBe(206);
+    expect(response.headers.get("content-range")).toBe(`bytes 4-7/${SOUND.length}`);
+    expect(Buffer.from(await response.arrayBuffer()).toString()).toBe("0123");
+    expect(mockedInpiRequest).toHaveBeenCalledWith(
+      expect.objectContaining({
+        headers: expect.objectContaining({ Range: "bytes=4-7" }),
+      })
+    );
+  });
+
+  it("relays ranges INPI cannot satisfy as 416", async () => {
+    mockedInpiRequest.mockResolvedValue({
+      status: 416,
+      data: Readable.from([]),
+      headers: { "content-range": `bytes */${SOUND.length}` },
+    });
+
+    const response = await callRoute("sound", "FR4567890", "bytes=500-");
+
+    expect(response.status).toBe(416);
+    expect(response.headers.get("content-range")).toBe(`bytes */${SOUND.length}`);
+  });
+
+  it("offers 3D models as downloads and rejects unknown media types", async () => {
+    mockedInpiRequest.mockResolvedValue({
+      status: 200,
+      data: Readable.from([Buffer.from("solid mark")]),
+      headers: { "content-type": "application/octet-stream" },
+    });
+
+    const model = await callRoute("3d", "FR5000001");
+    expect(model.headers.get("content-type")).toBe("model/stl");
+    expect(model.headers.get("content-disposition")).toBe(
+      'attachment; filename="FR5000001.stl"'
+    );
+
+    expect((await callRoute("hologram", "FR5000001")).status).toBe(400);
+  });
+
+  it("rejects object prototype keys as media types", async () => {
+    expect(parseMediaType("constructor")).toBeNull();
+    expect(parseMediaType("MEDIA_TYPE___proto__")).toBeNull();
+
+    expect((await callRoute("constructor", "FR5000001")).status).toBe(400);
+    expect(mockedInpiRequest).not.toHaveBeenCalled();
+  });
+
+  it("maps mark features to media types", () => {
+    expect(mediaTypeForFeature("Sound")).toBe("sound");
+    expect(mediaTypeForFeature("Motion")).toBe("video");
+    expect(mediaTypeForFeature("3-D")).toBe("3d");
+    expect(mediaTypeForFeature("Word")).toBeNull();
+    expect(mediaTypeForFeature(null)).toBeNull();
+  });
+});
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Readable } from "stream";
+import {
+  inpiRequest,
+  getXsrfTokenValue,
+  logError,
+  APIError,
+  errorCodeFor,
+} from "@/lib/inpi-client";
+import {
+  MEDIA_TYPES,
+  mediaContentType,
+  mediaFilename,
+  parseMediaType,
+} from "@/lib/trademark-media";
+import { isApplicationNumber } from "@/lib/trademark-record";
+import axios from "axios";
+
+const INPI_MEDIA_BASE_URL =
+  "https://api-gateway.inpi.fr/services/apidiffusion/api/marques/media";
+
+// Headers of INPI's answer that describe the bytes sent, relayed as they are.
+const RELAYED_HEADERS = ["content-length", "content-range", "accept-ranges"];
+
+/**
+ * Streams the sound, video or 3D model of a non-traditional mark. The `Range` header is passed
+ * through to INPI, so a player seeking through a video gets INPI's partial content directly.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ type: string; id: string }> }
+) {
+  const { type: rawType, id } = await params;
+  const type = parseMediaType(rawType ?? "");
+
+  if (!type || !id || !isApplicationNumber(id)) {
+    return NextResponse.json(
+      {
+        error: `A media type (${Object.keys(MEDIA_TYPES).join(", ")}) and a valid trademark ID are required.`,
+        code: "INVALID_ID",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    console.log(`Fetching ${MEDIA_TYPES[type]} media for trademark ID: ${id}`);
+    const range = request.headers.get("range");
+    // inpiRequest adds the bearer token and re-authenticates if the session was revoked.
+    const response = await inpiRequest<Readable>({
+      method: "GET",
+      url: `${INPI_MEDIA_BASE_URL}/${MEDIA_TYPES[type]}/${id}`,
+      headers: {
+        "X-XSRF-TOKEN": getXsrfTokenValue() || "",
+        "User-Agent": "Next.js Trademark App/1.0 (Media Proxy)",
+        Accept: "audio/*, video/*, model/*, */*;q=0.8",
+        ...(range && { Range: range }),
+      },
+      responseType: "stream",
+      // An unsatisfiable range is relayed to the player rather than treated as a failure.
+      validateStatus: (status) =>
+        (status >= 200 && status < 300) || status === 416,
+    });
+
+    const contentType = mediaContentType(type, response.headers["content-type"]);
+    // Sound and video play inline; 3D models are downloaded.
+    const disposition = type === "3d" ? "attachment" : "inline";
+    const headers: Record<string, string> = {
+      "Content-Type": contentType,
+      "Content-Disposition": `${disposition}; filename="${mediaFilename(id, contentType)}"`,
+      "Cache-Control": "public, max-age=86400",
+    };
+    for (const name of RELAYED_HEADERS) {
+      const value = response.headers[name];
+      if (value) headers[name] = String(value);
+    }
+
+    if (response.status === 416) {
+      response.data.destroy();
+      return new NextResponse(null, { status: 416, headers });
+    }
+    return new NextResponse(
+      Readable.toWeb(response.data) as ReadableStream<Uint8Array>,
+      { status: response.status, headers }
+    );
+  } catch (error: unknown) {
+    logError(`mediaRoute-${type}-${id}`, error);
+    if (error instanceof APIError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: errorCodeFor(error),
+          details: error.details,
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.statusCode }
+      );
+    }
+    if (axios.isAxiosError(error)) {
+      if (error.response?.status === 404) {
+        return NextResponse.json(
+          {
+            error: "No media of this type for the given trademark ID.",
+            code: 404,
+            details: `The trademark ID "${id}" has no ${MEDIA_TYPES[type]} media.`,
+            timestamp: new Date().toISOString(),
+          },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json(
+        {
+          error: `Failed to fetch media: ${error.message}`,
+          code: error.response?.status || 500,
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.response?.status || 500 }
+      );
+    }
+    return NextResponse.json(
+      {
+        error: "An unexpected error occurred while fetching the trademark media.",
+        code: "INTERNAL_ERROR",
+        details: String(error),
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,18 @@
 import { NextRequest, NextResponse } from "next/server"; // Import NextRequest
 import {
-  client,
-  getAccessToken,
+  inpiRequest,
   APIError,
+  errorCodeFor,
   logError,
   getXsrfTokenValue, // To send XSRF if available/needed
   // We might need a way to refresh the search-specific XSRF token if this route is hit independently
   // For now, assume getAccessToken followed by a call to metadata (if needed) would be handled
   // by the client-side logic before calling this, or that the login XSRF is sufficient for GETs.
 } from "@/lib/inpi-client"; // Adjust path if your lib folder is elsewhere
-import { parseStringPromise } from "xml2js";
+import { getCacheTtl } from "@/lib/cache-service";
+import { getOrFetch, staleHeaders } from "@/lib/stale-cache";
+import { parseSt66Notice, St66ParseError } from "@/lib/st66-parser";
+import { NoticeResponse } from "@/lib/trademark-record";
 import axios from "axios"; // For AxiosError type checking
 
 const INPI_API_BASE_URL = "https://api-gateway.inpi.fr";
@@ -32,7 +35,6 @@ export async function GET(
   console.log(`Fetching notice for trademark ID: ${id}`);
 
   try {
-    const token = await getAccessToken(); // Ensure authenticated session
     const noticeUrl = `${INPI_API_BASE_URL}/services/apidiffusion/api/marques/notice/${id}`;
 
     // It's good practice to try and get a fresh XSRF token for the service if possible,
@@ -49,45 +51,59 @@ export async function GET(
       `Using X-XSRF-TOKEN for notice GET: ${currentXsrf || "None (if not set)"}`
     );
 
-    const response = await client.get(noticeUrl, {
-      headers: {
-        Authorization: `Bearer ${token}`,
-        Accept: "application/xml", // This endpoint returns XML
-        "X-XSRF-TOKEN": currentXsrf || "", // Send if available
-        "User-Agent": "Next.js Trademark App/1.0 (Notice Fetcher)",
+    // The raw XML is cached, so INPI outages can be bridged with the last known notice.
+    const { data: noticeXml, stale, cachedAt } = await getOrFetch(
+      `notice:${id}`,
+      async () => {
+        // inpiRequest adds the bearer token and re-authenticates if the session was revoked.
+        const response = await inpiRequest<string>({
+          method: "GET",
+          url: noticeUrl,
+          headers: {
+            Accept: "application/xml", // This endpoint returns XML
+            "X-XSRF-TOKEN": currentXsrf || "", // Send if available
+            "User-Agent": "Next.js Trademark App/1.0 (Notice Fetcher)",
+          },
+          responseType: "text", // Get response as text to parse XML
+        });
+        console.log(
+          `Successfully fetched XML notice for ${id}, status: ${response.status}`
+        );
+        return response.data;
       },
-      responseType: "text", // Get response as text to parse XML
-    });
-
-    console.log(
-      `Successfully fetched XML notice for ${id}, status: ${response.status}`
+      getCacheTtl("notice")
     );
 
-    // Parse XML to JSON
-    // Options: explicitArray: false to avoid single-element arrays for simple tags.
-    // mergeAttrs: true to merge attributes into properties.
-    const parsedJson = await parseStringPromise(response.data, {
-      explicitArray: false,
-      mergeAttrs: true,
-      charkey: "_text", // Use _text for text content to avoid conflict with child nodes of same name
-      attrkey: "_attrs", // Store attributes in _attrs
-      tagNameProcessors: [(name) => name.replace(/-/g, "_")], // Replace hyphens in tag names
-    });
+    // Every consumer gets the same validated TrademarkRecord rather than raw xml2js output.
+    const record = await parseSt66Notice(noticeXml, id);
 
-    // The root element in INPI's ST66 XML is often <TradeMarkType>
-    // xml2js will parse this into an object like { TradeMarkType: { ...details... } }
-    // We can return the inner object for cleaner frontend access.
-    const noticeData =
-      parsedJson.TradeMarkType || parsedJson.FrPatentDocument || parsedJson; // Adjust if root element varies
-
-    return NextResponse.json(noticeData);
+    if (stale) {
+      const body: NoticeResponse = {
+        ...record,
+        stale,
+        staleSince: new Date(cachedAt).toISOString(),
+      };
+      return NextResponse.json(body, { headers: staleHeaders({ stale }) });
+    }
+    return NextResponse.json(record);
   } catch (error: unknown) {
     logError(`noticeRoute-${id}`, error);
+    if (error instanceof St66ParseError) {
+      return NextResponse.json(
+        {
+          error: `INPI returned a notice that could not be read: ${error.message}`,
+          code: "INVALID_NOTICE",
+          details: error.details,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 502 }
+      );
+    }
     if (error instanceof APIError) {
       return NextResponse.json(
         {
           error: error.message,
-          code: error.statusCode,
+          code: errorCodeFor(error),
           details: error.details,
           timestamp: new Date().toISOString(),
         },
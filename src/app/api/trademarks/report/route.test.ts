@@ -0,0 +1,130 @@
+jest.mock("@/lib/inpi-client", () => ({
+  __esModule: true,
+  ...jest.requireActual("@/lib/inpi-client"),
+  inpiRequest: jest.fn(),
+  logError: jest.fn(),
+}));
+
+import { PDFDocument } from "pdf-lib";
+import { POST } from "./route";
+import { inpiRequest } from "@/lib/inpi-client";
+import { getCacheService } from "@/lib/cache-service";
+
+const mockedInpiRequest = inpiRequest as jest.Mock;
+
+// 1x1 red PNG.
+const PNG = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR4nGP4z8AAAAMBAQDJ/pLvAAAAAElFTkSuQmCC",
+  "base64"
+);
+
+const hit = (id: string, hasImage: boolean) => ({
+  id,
+  applicationNumber: id.slice(2),
+  markName: "BILA",
+  applicationDate: "1985-09-23",
+  registrationDate: null,
+  expiryDate: "1995-09-23",
+  registrationOfficeCode: "FR",
+  origin: "FR",
+  status: "Marque expirée",
+  feature: "Word",
+  niceClasses: [9],
+  goodsAndServices: [{ niceClass: 9, description: "Appareils de pesage." }],
+  applicants: ["TERRAILLON S.A."],
+  hasImage,
+});
+
+const callRoute = (body: unknown) =>
+  POST(
+    new Request("http://localhost/api/trademarks/report", {
+      method: "POST",
+      body: JSON.stringify(body),
+    })
+  );
+
+describe("/api/trademarks/report", () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    await getCacheService().flushAll();
+    mockedInpiRequest.mockResolvedValue({
+      status: 200,
+      data: PNG,
+      headers: { "content-type": "image/png" },
+    });
+  });
+
+  it("returns an HTML report with the search criteria and the logos", async () => {
+    const response = await callRoute({
+      format: "html",
+      query: { q: "bila", niceClasses: "9" },
+      mode: "clearance",
+      hits: [hit("FR1324250", true), hit("FR1500000", false)],
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe(
+      "text/html; charset=utf-8"
+    );
+    expect(response.headers.get("Content-Disposition")).toMatch(
+      /^attachment; filename="rapport-anteriorites-\d{4}-\d{2}-\d{2}\.html"$/
+    );
+    const html = await response.text();
+    expect(html).toContain("<th>Classes de Nice</th><td>9</td>");
+    expect(html).toContain("<h2>2. BILA (FR1500000)</h2>");
+    expect(html.match(/data:image\/png;base64/g)).toHaveLength(1);
+    // Only the mark with a logo costs an INPI call.
+    expect(mockedInpiRequest).toHaveBeenCalledTimes(1);
+    expect(mockedInpiRequest.mock.calls[0][0].url).toMatch(
+      /\/marques\/image\/FR1324250\/std$/
+    );
+  });
+
+  it("returns a PDF report, leaving out logos that fail to load", async () => {
+    mockedInpiRequest.mockRejectedValue(new Error("INPI unavailable"));
+
+    const response = await callRoute({
+      format: "pdf",
+      query: { q: "bila" },
+      hits: [hit("FR1324250", true)],
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("application/pdf");
+    const document = await PDFDocument.load(await response.arrayBuffer());
+    expect(document.getPageCount()).toBe(1);
+  });
+
+  it("rejects an unknown format, an empty selection or a bad id", async () => {
+    const badFormat = await callRoute({
+      format: "docx",
+      hits: [hit("FR1324250", false)],
+    });
+    expect(badFormat.status).toBe(400);
+    expect((await badFormat.json()).code).toBe("INVALID_REQUEST");
+
+    const noHits = await callRoute({ format: "pdf", hits: [] });
+    expect(noHits.status).toBe(400);
+
+    const badId = await callRoute({
+      format: "pdf",
+      hits: [hit("../../auth/login", true)],
+    });
+    expect(badId.status).toBe(400);
+    expect(mockedInpiRequest).not.toHaveBeenCalled();
+  });
+
+  it("rejects a body that is not a report request object", async () => {
+    for (const body of [
+      null,
+      [],
+      "pdf",
+      { format: "pdf", hits: [], query: "bila" },
+    ]) {
+      const response = await callRoute(body);
+      expect(response.status).toBe(400);
+      expect((await response.json()).code).toBe("INVALID_REQUEST");
+    }
+  });
+});
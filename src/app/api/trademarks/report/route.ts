@@ -0,0 +1,122 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  createClearanceReport,
+  describeSearchCriteria,
+  MAX_REPORT_HITS,
+  parseReportFormat,
+  renderReportHtml,
+  renderReportPdf,
+  ReportHitSchema,
+} from "@/lib/clearance-report";
+import { parseGoodsSpecification } from "@/lib/goods-overlap";
+import { logError } from "@/lib/inpi-client";
+import {
+  normalizeSearchRequest,
+  parseSearchMode,
+  RawSearchRequest,
+} from "@/lib/search-request";
+
+// The fields themselves are checked below, each with its own message.
+const ReportRequestSchema = z.object({
+  format: z.unknown(),
+  query: z.record(z.unknown()).nullish(),
+  mode: z.unknown(),
+  goods: z.object({ niceClasses: z.unknown(), terms: z.unknown() }).nullish(),
+  hits: z.unknown(),
+});
+
+/**
+ * Generates a clearance report for hits selected on the search page. The body carries the
+ * search as sent to searchV2 (`query`, `mode`, `goods`), for the report's criteria, and the
+ * selected `hits` as returned by it; `format` is "html" or "pdf". The report is returned as a
+ * download.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = ReportRequestSchema.safeParse(
+      await request.json().catch(() => null)
+    );
+    if (!body.success) {
+      return NextResponse.json(
+        {
+          error: "The report request must be a JSON object.",
+          code: "INVALID_REQUEST",
+          details: body.error.issues,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+    const { format: rawFormat, query, mode, goods, hits: rawHits } = body.data;
+
+    const format = parseReportFormat(rawFormat);
+    if (!format) {
+      return NextResponse.json(
+        {
+          error: 'The report format must be "html" or "pdf".',
+          code: "INVALID_REQUEST",
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+    const hits = z
+      .array(ReportHitSchema)
+      .min(1)
+      .max(MAX_REPORT_HITS)
+      .safeParse(rawHits);
+    if (!hits.success) {
+      return NextResponse.json(
+        {
+          error: `Select between 1 and ${MAX_REPORT_HITS} valid search results for the report.`,
+          code: "INVALID_REQUEST",
+          details: hits.error.issues,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const criteria = describeSearchCriteria(
+      normalizeSearchRequest((query ?? {}) as RawSearchRequest),
+      {
+        mode: parseSearchMode(mode),
+        goods: parseGoodsSpecification(goods?.niceClasses, goods?.terms),
+      }
+    );
+    const report = await createClearanceReport(hits.data, criteria);
+    const filename = `rapport-anteriorites-${report.generatedAt
+      .toISOString()
+      .slice(0, 10)}.${format}`;
+    const headers = {
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    };
+
+    if (format === "html") {
+      return new NextResponse(renderReportHtml(report), {
+        headers: { ...headers, "Content-Type": "text/html; charset=utf-8" },
+      });
+    }
+    const pdf = await renderReportPdf(report);
+    return new NextResponse(pdf, {
+      headers: {
+        ...headers,
+        "Content-Type": "application/pdf",
+        "Content-Length": String(pdf.length),
+      },
+    });
+  } catch (error: unknown) {
+    logError("reportRoute", error);
+    return NextResponse.json(
+      {
+        error: "An unexpected error occurred while generating the report.",
+        code: "INTERNAL_ERROR",
+        details: String(error),
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
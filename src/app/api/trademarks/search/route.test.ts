@@ -0,0 +1,70 @@
+jest.mock("@/lib/inpi-search", () => ({
+  __esModule: true,
+  ...jest.requireActual("@/lib/inpi-search"),
+  performSearchRequest: jest.fn(),
+}));
+jest.mock("@/lib/inpi-client", () => ({
+  __esModule: true,
+  ...jest.requireActual("@/lib/inpi-client"),
+  logError: jest.fn(),
+}));
+
+import { GET } from "./route";
+import { APIError } from "@/lib/inpi-client";
+import { performSearchRequest } from "@/lib/inpi-search";
+import { STALE_DATA_HEADER } from "@/lib/stale-cache";
+
+const mockedPerformSearchRequest = performSearchRequest as jest.Mock;
+
+describe("GET /api/trademarks/search", () => {
+  beforeEach(() => {
+    mockedPerformSearchRequest.mockReset();
+  });
+
+  it("answers with the same result shape as searchV2", async () => {
+    mockedPerformSearchRequest.mockResolvedValue({
+      result: { hits: { hits: [], total: { value: 0 } } },
+      stale: true,
+      staleSince: "2026-01-01T00:00:00.000Z",
+    });
+
+    const response = await GET(
+      new Request(
+        "http://localhost/api/trademarks/search?q=Bila&niceClasses=29,16"
+      )
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get(STALE_DATA_HEADER)).toBe("true");
+    expect(mockedPerformSearchRequest).toHaveBeenCalledWith(
+      expect.objectContaining({ query: "bila", niceClasses: [16, 29] })
+    );
+    expect(await response.json()).toMatchObject({
+      total: { value: 0, relation: "eq" },
+      stale: true,
+    });
+  });
+
+  it("rejects a search without terms with MISSING_QUERY", async () => {
+    const response = await GET(
+      new Request("http://localhost/api/trademarks/search")
+    );
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).code).toBe("MISSING_QUERY");
+    expect(mockedPerformSearchRequest).not.toHaveBeenCalled();
+  });
+
+  it("maps upstream errors to their error code", async () => {
+    mockedPerformSearchRequest.mockRejectedValue(
+      new APIError("INPI is unavailable.", 503)
+    );
+
+    const response = await GET(
+      new Request("http://localhost/api/trademarks/search?q=bila")
+    );
+
+    expect(response.status).toBe(503);
+    expect((await response.json()).code).toBe("UPSTREAM_UNAVAILABLE");
+  });
+});
@@ -1,50 +1,36 @@
-import { NextResponse } from "next/server";
-import { performSearch } from "@/lib/inpi-search";
-import { APIError, logError } from "@/lib/inpi-client";
+import { handleSearchRequest } from "@/lib/search-handler";
 
 export async function GET(request: Request) {
-  try {
-    const { searchParams } = new URL(request.url);
-    const query = searchParams.get("q");
-    const page = searchParams.get("page") || "1";
-    const nbResultsPerPage = searchParams.get("nbResultsPerPage") || "20";
-
-    if (!query) {
-      return NextResponse.json(
-        { error: "Search query is required" },
-        { status: 400 }
-      );
-    }
-
-    const searchResults = await performSearch(
-      query,
-      parseInt(page),
-      parseInt(nbResultsPerPage)
-    );
-
-    return NextResponse.json(searchResults);
-  } catch (error) {
-    logError("GET_handler_main_catch", error);
-    if (error instanceof APIError) {
-      return NextResponse.json(
-        {
-          error: error.message,
-          code: error.statusCode === 401 ? "UNAUTHORIZED" : "INTERNAL_ERROR",
-          details: error.details,
-          timestamp: new Date().toISOString(),
-        },
-        { status: error.statusCode }
-      );
-    }
-
-    return NextResponse.json(
-      {
-        error: "An unexpected internal error occurred.",
-        code: "INTERNAL_ERROR",
-        details: String(error),
-        timestamp: new Date().toISOString(),
-      },
-      { status: 500 }
-    );
-  }
+  const { searchParams } = new URL(request.url);
+  // Same defaults as the search page, so scripts get exactly what the UI gets from searchV2.
+  return handleSearchRequest(
+    {
+      q: searchParams.get("q"),
+      page: searchParams.get("page"),
+      nbResultsPerPage: searchParams.get("nbResultsPerPage"),
+      sort: searchParams.get("sort"),
+      order: searchParams.get("order"),
+      niceClasses: searchParams.get("niceClasses"),
+      niceLogic: searchParams.get("niceLogic"),
+      origin: searchParams.get("origin"),
+      statuses: searchParams.get("statuses"),
+      markFeatures: searchParams.get("markFeatures"),
+      applicationDateFrom: searchParams.get("applicationDateFrom"),
+      applicationDateTo: searchParams.get("applicationDateTo"),
+      registrationDateFrom: searchParams.get("registrationDateFrom"),
+      registrationDateTo: searchParams.get("registrationDateTo"),
+      expiryDateFrom: searchParams.get("expiryDateFrom"),
+      expiryDateTo: searchParams.get("expiryDateTo"),
+      advancedQuery: searchParams.getAll("advancedQuery"),
+      aggregations: searchParams.get("aggregations"),
+    },
+    {
+      mode: searchParams.get("mode"),
+      maxVariants: searchParams.get("maxVariants"),
+      includeRaw: searchParams.get("includeRaw"),
+      goodsClasses: searchParams.get("goodsClasses"),
+      goodsTerms: searchParams.get("goodsTerms"),
+    },
+    "GET_handler_main_catch"
+  );
 }
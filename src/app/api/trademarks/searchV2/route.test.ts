@@ -3,6 +3,16 @@ jest.mock("@/lib/inpi-client", () => ({
   __esModule: true,
   ...jest.requireActual("@/lib/inpi-client"),
   getAccessToken: jest.fn().mockResolvedValue("dummy_token"),
+  // Skip the real auth/retry logic and send straight through the (mocked) axios instance.
+  inpiRequest: jest.fn(
+    (
+      config: { url: string; data: unknown; headers: Record<string, string> },
+      httpClient: { post: (...args: unknown[]) => unknown }
+    ) =>
+      httpClient.post(config.url, config.data, {
+        headers: { ...config.headers, Authorization: "Bearer dummy_token" },
+      })
+  ),
   logError: jest.fn(),
   client: {
     defaults: {
@@ -43,6 +53,10 @@ describe("/api/trademarks/searchV2", () => {
     (mockedAxios.create as jest.Mock).mockReturnValue({ post: mockPost });
   });
 
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
   it("should call performSearchV2 with the correct payload for OR logic", async () => {
     const requestBody = {
       query: {
@@ -55,7 +69,7 @@ describe("/api/trademarks/searchV2", () => {
     };
     const request = {
       json: async () => requestBody,
-    } as any;
+    } as unknown as Request;
 
     await POST(request);
 
@@ -78,7 +92,7 @@ describe("/api/trademarks/searchV2", () => {
     };
     const request = {
       json: async () => requestBody,
-    } as any;
+    } as unknown as Request;
 
     await POST(request);
     expect(mockPost).toHaveBeenCalledWith(
@@ -94,7 +108,7 @@ describe("/api/trademarks/searchV2", () => {
     };
     const request = {
       json: async () => requestBody,
-    } as any;
+    } as unknown as Request;
 
     await POST(request);
     expect(mockPost).toHaveBeenCalledWith(
@@ -103,4 +117,432 @@ describe("/api/trademarks/searchV2", () => {
       expect.any(Object)
     );
   });
+
+  it("should push facet filters into the upstream payload", async () => {
+    const requestBody = {
+      query: {
+        q: "pushdown",
+        niceClasses: "29,5",
+        niceLogic: "OR",
+        origin: "EU",
+        statuses: ["Marque enregistrée"],
+        markFeatures: "Word,Figurative",
+        page: 2,
+        nbResultsPerPage: 20,
+      },
+    };
+    const request = {
+      json: async () => requestBody,
+    } as unknown as Request;
+
+    await POST(request);
+
+    expect(mockPost).toHaveBeenCalledTimes(1);
+    const payload = JSON.parse(mockPost.mock.calls[0][1]);
+    expect(payload.query.filter).toEqual({
+      "classDescriptionDetails.class": ["05", "5", "29"],
+      registrationOfficeCode: ["EM"],
+      markCurrentStatusCode: ["Marque enregistrée"],
+      markFeature: ["Figurative", "Word"],
+    });
+    expect(payload.query.page).toBe("2");
+    expect(payload.query.nbResultsPerPage).toBe("20");
+  });
+
+  it("should keep fetching upstream pages until an AND-filtered page is full", async () => {
+    const makeHit = (id: number, classes: string[]) => ({
+      _id: `FR${id}`,
+      _source: {
+        applicationNumberWithCountryCode: `FR${id}`,
+        classDescriptionDetails: classes.map((c) => ({ class: c })),
+      },
+    });
+    // Upstream returns 150 candidates having class 16 or 29; every third one has both.
+    const upstreamHits = Array.from({ length: 150 }, (_, i) =>
+      makeHit(i, i % 3 === 0 ? ["16", "29"] : ["16"])
+    );
+    mockPost.mockImplementation(async (_url: string, body: string) => {
+      const { query } = JSON.parse(body);
+      const size = parseInt(query.nbResultsPerPage, 10);
+      const start = (parseInt(query.page, 10) - 1) * size;
+      return {
+        status: 200,
+        data: {
+          result: {
+            hits: {
+              total: { value: upstreamHits.length, relation: "eq" },
+              hits: upstreamHits.slice(start, start + size),
+            },
+            // Counts over all the candidates, not over the AND matches.
+            aggregations: {
+              "classDescriptionDetails.class": {
+                buckets: [
+                  { key: "16", doc_count: 150 },
+                  { key: "29", doc_count: 50 },
+                ],
+              },
+            },
+          },
+        },
+      };
+    });
+
+    const request = {
+      json: async () => ({
+        query: {
+          q: "and-paging",
+          niceClasses: "16,29",
+          niceLogic: "AND",
+          page: 2,
+          nbResultsPerPage: 20,
+        },
+      }),
+    } as unknown as Request;
+
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(mockPost).toHaveBeenCalledTimes(2);
+    expect(data.total).toEqual({ value: 50, relation: "eq" });
+    expect(data.paging).toEqual({
+      page: 2,
+      pageSize: 20,
+      totalPages: 3,
+      hasPreviousPage: true,
+      hasNextPage: true,
+    });
+    expect(data.hits).toHaveLength(20);
+    expect(data.hits[0].id).toBe("FR60");
+    expect(data.raw).toBeUndefined();
+    expect(data.facets["classDescriptionDetails.class"]).toEqual([
+      { value: "16", count: 50 },
+      { value: "29", count: 50 },
+    ]);
+  });
+
+  it("should stop walking upstream pages when the daily budget runs low", async () => {
+    jest.spyOn(inpiClient.getInpiRateLimiter(), "getUsage").mockReturnValue({
+      day: "2026-10-19",
+      used: 9500,
+      dailyBudget: 10000,
+      pausedUntil: null,
+    });
+    // Every candidate has class 16 only, so none matches 16 AND 29.
+    mockPost.mockImplementation(async () => ({
+      status: 200,
+      data: {
+        result: {
+          hits: {
+            total: { value: 5000, relation: "eq" },
+            hits: Array.from({ length: 100 }, (_, i) => ({
+              _id: `FR${i}`,
+              _source: { classDescriptionDetails: [{ class: "16" }] },
+            })),
+          },
+        },
+      },
+    }));
+
+    const request = {
+      json: async () => ({
+        query: { q: "low-budget", niceClasses: "16,29", niceLogic: "AND" },
+      }),
+    } as unknown as Request;
+
+    const data = await (await POST(request)).json();
+
+    expect(mockPost).toHaveBeenCalledTimes(1);
+    expect(data.total).toEqual({ value: 0, relation: "gte" });
+  });
+
+  it("should send application and expiry date ranges in the upstream payload", async () => {
+    mockPost.mockResolvedValue({
+      status: 200,
+      data: {
+        result: {
+          hits: {
+            total: { value: 4321, relation: "eq" },
+            hits: [
+              {
+                _id: "FR1",
+                _source: {
+                  applicationNumberWithCountryCode: "FR1",
+                  // 2021-06-01 at midnight in Paris.
+                  applicationDate: Date.UTC(2021, 4, 31, 22),
+                  expiryDate: Date.UTC(2031, 4, 31, 22),
+                },
+              },
+            ],
+          },
+        },
+      },
+    });
+
+    const request = {
+      json: async () => ({
+        query: {
+          q: "dated",
+          applicationDateFrom: "2021-01-01",
+          applicationDateTo: "2021-12-31",
+          expiryDateFrom: "2030-01-01",
+        },
+      }),
+    } as unknown as Request;
+
+    const data = await (await POST(request)).json();
+
+    // INPI applies the ranges itself: one call, and its total is exact.
+    expect(mockPost).toHaveBeenCalledTimes(1);
+    const payload = JSON.parse(mockPost.mock.calls[0][1]);
+    expect(payload.query.advancedSearch).toEqual({
+      range: [
+        {
+          field: "applicationDate",
+          gte: "2021-01-01",
+          lte: "2021-12-31",
+          format: "yyyy-MM-dd",
+          time_zone: "Europe/Paris",
+        },
+        {
+          field: "expiryDate",
+          gte: "2030-01-01",
+          format: "yyyy-MM-dd",
+          time_zone: "Europe/Paris",
+        },
+      ],
+    });
+    expect(payload.query.nbResultsPerPage).toBe("20");
+    expect(data.total).toEqual({ value: 4321, relation: "eq" });
+  });
+
+  it("should apply date ranges to the upstream hits when INPI ignores them", async () => {
+    // One mark filed on June 1st of each year from 1996 to 2025, all in class 16 only.
+    const upstreamHits = Array.from({ length: 30 }, (_, i) => ({
+      _id: `FR${i}`,
+      _source: {
+        applicationNumberWithCountryCode: `FR${i}`,
+        applicationDate: Date.UTC(1996 + i, 5, 1),
+        classDescriptionDetails: [{ class: "16" }],
+      },
+    }));
+    mockPost.mockResolvedValue({
+      status: 200,
+      data: {
+        result: {
+          hits: {
+            total: { value: upstreamHits.length, relation: "eq" },
+            hits: upstreamHits,
+          },
+        },
+      },
+    });
+
+    const request = {
+      json: async () => ({
+        query: {
+          q: "filed-recently",
+          niceClasses: "16,29",
+          niceLogic: "OR",
+          applicationDateFrom: "2021-01-01",
+          applicationDateTo: "not a date",
+        },
+      }),
+    } as unknown as Request;
+
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    const data = await (await POST(request)).json();
+
+    // The first call gets hits outside the range, so the app walks the upstream pages.
+    expect(mockPost).toHaveBeenCalledTimes(2);
+    const payload = JSON.parse(mockPost.mock.calls[1][1]);
+    expect(payload.query.filter).toEqual({
+      "classDescriptionDetails.class": ["16", "29"],
+    });
+    expect(payload.query.advancedSearch.range).toEqual([
+      expect.objectContaining({ field: "applicationDate", gte: "2021-01-01" }),
+    ]);
+    expect(payload.query.nbResultsPerPage).toBe("100");
+    expect(data.total).toEqual({ value: 5, relation: "eq" });
+    expect(data.hits.map((hit: { applicationDate: string }) => hit.applicationDate)).toEqual([
+      "2021-06-01",
+      "2022-06-01",
+      "2023-06-01",
+      "2024-06-01",
+      "2025-06-01",
+    ]);
+  });
+
+  it("should accept an advanced query without free text and compile it into advancedSearch", async () => {
+    const request = {
+      json: async () => ({
+        query: {
+          q: "",
+          advancedQuery: [
+            "AND:mark:phrase:cafe bila",
+            { operator: "NOT", field: "applicant", match: "words", value: "terraillon" },
+          ],
+        },
+      }),
+    } as unknown as Request;
+
+    const response = await POST(request);
+
+    expect(response.status).toBe(200);
+    const payload = JSON.parse(mockPost.mock.calls[0][1]);
+    expect(payload.query.q).toBe("");
+    expect(payload.query.advancedSearch).toEqual({
+      must: [{ fields: ["markWordElement"], type: "phrase", value: "cafe bila" }],
+      mustNot: [
+        {
+          fields: ["applicantOrganizationName", "applicantLastName"],
+          type: "words",
+          value: "terraillon",
+        },
+      ],
+    });
+  });
+
+  it("should search the query variants and rank the marks in clearance mode", async () => {
+    mockPost.mockImplementation(async (_url: string, data: string) => {
+      const { query } = JSON.parse(data);
+      const hits =
+        query.q === "quick"
+          ? [{ _id: "FR2", _source: { applicationNumberWithCountryCode: "FR2", markWordElement: "QUICK" } }]
+          : query.q === "kwik"
+            ? [{ _id: "FR1", _source: { applicationNumberWithCountryCode: "FR1", markWordElement: "KWIK" } }]
+            : [];
+      return {
+        status: 200,
+        data: { result: { hits: { total: { value: hits.length, relation: "eq" }, hits } } },
+      };
+    });
+    const request = {
+      json: async () => ({ query: { q: "Kwik" }, mode: "clearance", maxVariants: 12 }),
+    } as unknown as Request;
+
+    const data = await (await POST(request)).json();
+
+    expect(mockPost).toHaveBeenCalledTimes(12);
+    expect(JSON.parse(mockPost.mock.calls[0][1]).query.nbResultsPerPage).toBe("100");
+    expect(data.hits.map((hit: { id: string }) => hit.id)).toEqual(["FR1", "FR2"]);
+    expect(data.hits[1].similarity.reasons[0].kind).toBe("phonetic");
+    expect(data.clearance.variants[0]).toEqual({ query: "kwik", reason: "query as entered" });
+  });
+
+  it("should reject a clearance search without free text", async () => {
+    const request = {
+      json: async () => ({
+        query: { q: "", advancedQuery: ["AND:mark:words:kwik"] },
+        mode: "clearance",
+      }),
+    } as unknown as Request;
+
+    const response = await POST(request);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).code).toBe("MISSING_QUERY");
+    expect(mockPost).not.toHaveBeenCalled();
+  });
+
+  it("should reject a body that is not a JSON object", async () => {
+    const request = { json: async () => null } as unknown as Request;
+
+    const response = await POST(request);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).code).toBe("INVALID_REQUEST");
+    expect(mockPost).not.toHaveBeenCalled();
+  });
+
+  it("should rate each hit against the goods specification", async () => {
+    mockPost.mockResolvedValue({
+      status: 200,
+      data: {
+        result: {
+          hits: {
+            total: { value: 1, relation: "eq" },
+            hits: [
+              {
+                _source: {
+                  applicationNumberWithCountryCode: "FR1",
+                  markWordElement: "BILA",
+                  classDescriptionDetails: [
+                    { class: "09", goodServiceDescription: [{ text: "Logiciels.", lang: "fr" }] },
+                  ],
+                },
+              },
+            ],
+          },
+        },
+      },
+    });
+    const request = {
+      json: async () => ({
+        query: { q: "bila-goods" },
+        goods: { niceClasses: [42], terms: "logiciels" },
+      }),
+    } as unknown as Request;
+
+    const data = await (await POST(request)).json();
+
+    expect(data.hits[0].goodsOverlap).toEqual({
+      score: 0.72,
+      identicalClasses: [],
+      relatedClasses: [{ niceClass: 9, relatedTo: 42 }],
+      sharedTerms: ["logiciel"],
+    });
+    expect(data.hits[0].risk.level).toBe("low");
+  });
+
+  it("should include the raw hits only when asked to", async () => {
+    mockPost.mockResolvedValue({
+      status: 200,
+      data: {
+        result: {
+          hits: {
+            total: { value: 1, relation: "eq" },
+            hits: [{ _id: "FR1", _source: { applicationNumberWithCountryCode: "FR1" } }],
+          },
+        },
+      },
+    });
+    const request = {
+      json: async () => ({
+        query: { q: "raw-hits", page: 1, nbResultsPerPage: 20 },
+        includeRaw: true,
+      }),
+    } as unknown as Request;
+
+    const data = await (await POST(request)).json();
+
+    expect(data.version).toBe(1);
+    expect(data.hits[0].id).toBe("FR1");
+    expect(data.raw).toEqual([
+      { _id: "FR1", _source: { applicationNumberWithCountryCode: "FR1" } },
+    ]);
+  });
+
+  it("should share one upstream call between concurrent identical searches", async () => {
+    let releaseUpstream: () => void = () => {};
+    mockPost.mockImplementation(
+      () =>
+        new Promise((resolve) => {
+          releaseUpstream = () =>
+            resolve({ status: 200, data: { result: { hits: { hits: [] } } } });
+        })
+    );
+    const makeRequest = () =>
+      ({
+        json: async () => ({
+          query: { q: "coalesced", page: 1, nbResultsPerPage: 20 },
+        }),
+      }) as unknown as Request;
+
+    const responses = Promise.all([POST(makeRequest()), POST(makeRequest())]);
+    await new Promise((resolve) => setImmediate(resolve));
+    releaseUpstream();
+
+    expect((await responses).map((response) => response.status)).toEqual([200, 200]);
+    expect(mockPost).toHaveBeenCalledTimes(1);
+  });
 });
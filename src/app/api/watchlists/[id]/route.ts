@@ -0,0 +1,116 @@
+import { NextResponse } from "next/server";
+import { logError } from "@/lib/inpi-client";
+import {
+  loadNotificationChannels,
+  resolveWatchChannels,
+} from "@/lib/notifications";
+import { markEventsSeen, toWatchView } from "@/lib/watchlist";
+import { getWatchlistStore } from "@/lib/watchlist-store";
+
+function watchNotFound(id: string) {
+  return NextResponse.json(
+    {
+      error: `No watch with id ${id}.`,
+      code: "NOT_FOUND",
+      timestamp: new Date().toISOString(),
+    },
+    { status: 404 }
+  );
+}
+
+function internalError(context: string, message: string, error: unknown) {
+  logError(context, error);
+  return NextResponse.json(
+    {
+      error: message,
+      code: "INTERNAL_ERROR",
+      details: String(error),
+      timestamp: new Date().toISOString(),
+    },
+    { status: 500 }
+  );
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const watch = await getWatchlistStore().get(id);
+    return watch ? NextResponse.json(toWatchView(watch)) : watchNotFound(id);
+  } catch (error: unknown) {
+    return internalError("watchlistGet", "Failed to load the watch.", error);
+  }
+}
+
+/**
+ * Marks events as seen, with { "seen": true } for all of them or { "seen": ["<event id>", ...] },
+ * and/or routes the watch to other notification channels with { "channels": ["<id>", ...] }.
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { seen, channels: rawChannels } = (body ?? {}) as {
+      seen?: unknown;
+      channels?: unknown;
+    };
+    const eventIds =
+      Array.isArray(seen) && seen.every((value) => typeof value === "string")
+        ? seen
+        : undefined;
+    const channels =
+      rawChannels === undefined
+        ? undefined
+        : resolveWatchChannels(rawChannels, await loadNotificationChannels());
+    if (
+      (seen !== undefined && seen !== true && !eventIds) ||
+      channels === null ||
+      (seen === undefined && channels === undefined)
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            'Expected { "seen": true }, { "seen": [event ids] } and/or { "channels": [channel ids] }.',
+          code: "INVALID_REQUEST",
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const watch = await getWatchlistStore().update(id, (current) => {
+      const updated =
+        seen === undefined ? current : markEventsSeen(current, eventIds);
+      return channels ? { ...updated, channels } : updated;
+    });
+    return watch ? NextResponse.json(toWatchView(watch)) : watchNotFound(id);
+  } catch (error: unknown) {
+    return internalError(
+      "watchlistUpdate",
+      "Failed to update the watch.",
+      error
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const deleted = await getWatchlistStore().delete(id);
+    return deleted ? NextResponse.json({ deleted: id }) : watchNotFound(id);
+  } catch (error: unknown) {
+    return internalError(
+      "watchlistDelete",
+      "Failed to delete the watch.",
+      error
+    );
+  }
+}
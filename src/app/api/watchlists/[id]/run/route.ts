@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { logError } from "@/lib/inpi-client";
+import { toWatchView } from "@/lib/watchlist";
+import { runWatch } from "@/lib/watchlist-scheduler";
+import { getWatchlistStore } from "@/lib/watchlist-store";
+
+// Runs a watch now instead of waiting for the scheduler. A failed search is not an error
+// here: it is recorded in the watch's lastError, as for scheduled runs.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  try {
+    const watch = await runWatch(getWatchlistStore(), id);
+    if (!watch) {
+      return NextResponse.json(
+        {
+          error: `No watch with id ${id}.`,
+          code: "NOT_FOUND",
+          timestamp: new Date().toISOString(),
+        },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(toWatchView(watch));
+  } catch (error: unknown) {
+    logError("watchlistRun", error);
+    return NextResponse.json(
+      {
+        error: "Failed to run the watch.",
+        code: "INTERNAL_ERROR",
+        details: String(error),
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,150 @@
+jest.mock("@/lib/inpi-search", () => ({
+  __esModule: true,
+  ...jest.requireActual("@/lib/inpi-search"),
+  performUncachedSearch: jest.fn(),
+}));
+
+import { GET, POST } from "./route";
+import { DELETE, PATCH } from "./[id]/route";
+import { POST as RUN } from "./[id]/run/route";
+import { performUncachedSearch } from "@/lib/inpi-search";
+import { getWatchlistStore } from "@/lib/watchlist-store";
+
+const mockedPerformUncachedSearch = performUncachedSearch as jest.Mock;
+
+const searchData = (ids: string[]) => ({
+  result: {
+    hits: {
+      total: { value: ids.length, relation: "eq" },
+      hits: ids.map((id) => ({
+        _id: id,
+        _source: {
+          applicationNumberWithCountryCode: id,
+          markWordElement: "BILA",
+          markCurrentStatusCode: "Marque déposée",
+        },
+      })),
+    },
+  },
+});
+
+const jsonRequest = (url: string, method: string, body: unknown) =>
+  new Request(`http://localhost${url}`, {
+    method,
+    body: JSON.stringify(body),
+  });
+
+const paramsFor = (id: string) => ({ params: Promise.resolve({ id }) });
+
+describe("/api/watchlists", () => {
+  const originalEnv = process.env;
+
+  beforeEach(async () => {
+    process.env = {
+      ...originalEnv,
+      NOTIFICATION_CHANNELS: JSON.stringify([
+        {
+          id: "ops",
+          type: "slack",
+          url: "http://127.0.0.1:9/hook",
+          default: true,
+        },
+        { id: "legal", type: "email", to: ["legal@example.com"] },
+      ]),
+    };
+    jest.clearAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    const store = getWatchlistStore();
+    for (const watch of await store.list()) await store.delete(watch.id);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it("saves a watch with its baseline, then reports and clears new hits", async () => {
+    mockedPerformUncachedSearch.mockResolvedValueOnce(searchData(["FR1"]));
+
+    const created = await POST(
+      jsonRequest("/api/watchlists", "POST", {
+        q: "Bila",
+        niceClasses: [9],
+        origin: "FR",
+      })
+    );
+    expect(created.status).toBe(201);
+    const watch = await created.json();
+    expect(watch).toMatchObject({
+      name: "bila",
+      query: { q: "bila", niceClasses: [9], niceLogic: "AND", origin: "FR" },
+      channels: ["ops"],
+      markCount: 1,
+      unseenCount: 0,
+    });
+    expect(watch.snapshot).toBeUndefined();
+
+    // Route the new hits to nobody: this test does not deliver notifications.
+    const routed = await PATCH(
+      jsonRequest(`/api/watchlists/${watch.id}`, "PATCH", { channels: [] }),
+      paramsFor(watch.id)
+    );
+    expect(await routed.json()).toMatchObject({ channels: [] });
+
+    mockedPerformUncachedSearch.mockResolvedValueOnce(
+      searchData(["FR1", "FR2"])
+    );
+    const run = await RUN(
+      jsonRequest(`/api/watchlists/${watch.id}/run`, "POST", {}),
+      paramsFor(watch.id)
+    );
+    expect(await run.json()).toMatchObject({ markCount: 2, unseenCount: 1 });
+
+    const listed = await (await GET()).json();
+    expect(listed.watches).toHaveLength(1);
+    expect(listed.watches[0].events[0]).toMatchObject({
+      kind: "newFiling",
+      hit: { id: "FR2" },
+      seen: false,
+    });
+
+    const seen = await PATCH(
+      jsonRequest(`/api/watchlists/${watch.id}`, "PATCH", { seen: true }),
+      paramsFor(watch.id)
+    );
+    expect(await seen.json()).toMatchObject({ unseenCount: 0 });
+
+    const deleted = await DELETE(
+      jsonRequest(`/api/watchlists/${watch.id}`, "DELETE", {}),
+      paramsFor(watch.id)
+    );
+    expect(deleted.status).toBe(200);
+    expect((await (await GET()).json()).watches).toEqual([]);
+  });
+
+  it("rejects a watch without a query and unknown watches", async () => {
+    const created = await POST(
+      jsonRequest("/api/watchlists", "POST", { niceClasses: [9] })
+    );
+    expect(created.status).toBe(400);
+    expect((await created.json()).code).toBe("MISSING_QUERY");
+
+    const unknownChannel = await POST(
+      jsonRequest("/api/watchlists", "POST", { q: "bila", channels: ["sms"] })
+    );
+    expect(unknownChannel.status).toBe(400);
+    expect((await unknownChannel.json()).code).toBe("INVALID_REQUEST");
+
+    const missing = await PATCH(
+      jsonRequest("/api/watchlists/unknown", "PATCH", { seen: true }),
+      paramsFor("unknown")
+    );
+    expect(missing.status).toBe(404);
+    const invalid = await PATCH(
+      jsonRequest("/api/watchlists/unknown", "PATCH", { seen: "yes" }),
+      paramsFor("unknown")
+    );
+    expect(invalid.status).toBe(400);
+    expect(mockedPerformUncachedSearch).not.toHaveBeenCalled();
+  });
+});
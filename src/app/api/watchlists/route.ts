@@ -0,0 +1,110 @@
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+import { logError } from "@/lib/inpi-client";
+import {
+  loadNotificationChannels,
+  resolveWatchChannels,
+} from "@/lib/notifications";
+import {
+  MAX_WATCHES,
+  parseWatchInput,
+  toWatchView,
+  Watch,
+} from "@/lib/watchlist";
+import { runWatch } from "@/lib/watchlist-scheduler";
+import { getWatchlistStore } from "@/lib/watchlist-store";
+
+// Lists the saved watches, with their events but without their snapshots.
+export async function GET() {
+  try {
+    const watches = await getWatchlistStore().list();
+    return NextResponse.json({ watches: watches.map(toWatchView) });
+  } catch (error: unknown) {
+    logError("watchlistsList", error);
+    return NextResponse.json(
+      {
+        error: "Failed to load the watchlists.",
+        code: "INTERNAL_ERROR",
+        details: String(error),
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Saves a watch ({ "name", "q", "niceClasses", "niceLogic", "origin", "channels" }) and runs
+ * it once, to record the marks that already exist; later runs report what changes from
+ * there. Without `channels`, the watch notifies the default notification channels.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const input = parseWatchInput(body ?? {});
+    if (!input) {
+      return NextResponse.json(
+        {
+          error: "A watch needs a free-text query.",
+          code: "MISSING_QUERY",
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const channels = resolveWatchChannels(
+      body?.channels,
+      await loadNotificationChannels()
+    );
+    if (!channels) {
+      return NextResponse.json(
+        {
+          error:
+            "The channels must be ids of configured notification channels.",
+          code: "INVALID_REQUEST",
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const store = getWatchlistStore();
+    if ((await store.list()).length >= MAX_WATCHES) {
+      return NextResponse.json(
+        {
+          error: `No more than ${MAX_WATCHES} watches can be saved.`,
+          code: "INVALID_REQUEST",
+          timestamp: new Date().toISOString(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const watch: Watch = {
+      id: crypto.randomUUID(),
+      ...input,
+      channels,
+      createdAt: new Date().toISOString(),
+      lastRunAt: null,
+      lastSuccessAt: null,
+      lastError: null,
+      snapshot: {},
+      events: [],
+    };
+    await store.save(watch);
+    const baseline = await runWatch(store, watch.id);
+    return NextResponse.json(toWatchView(baseline ?? watch), { status: 201 });
+  } catch (error: unknown) {
+    logError("watchlistsCreate", error);
+    return NextResponse.json(
+      {
+        error: "Failed to save the watch.",
+        code: "INTERNAL_ERROR",
+        details: String(error),
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
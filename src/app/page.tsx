@@ -8,11 +8,27 @@ import {
   ChangeEvent,
   useEffect,
   useCallback,
+  useMemo,
+  useRef,
   Suspense,
 } from "react";
-import { useDebounce } from "use-debounce";
+import { useDebouncedCallback } from "use-debounce";
 import { useRouter, useSearchParams } from "next/navigation";
-import { Search } from "lucide-react";
+import Image from "next/image";
+import Link from "next/link";
+import {
+  ArrowDown,
+  ArrowUp,
+  Bell,
+  ChevronLeft,
+  ChevronRight,
+  FileText,
+  LayoutGrid,
+  List,
+  Plus,
+  Search,
+  X,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
@@ -22,20 +38,77 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-// Removed debounce import
-import { z } from "zod";
-
-// Define interfaces for the raw data structure from the API (similar to page.tsx)
-interface InpiField {
-  name: string;
-  value?: string | Record<string, unknown> | Array<Record<string, unknown>>; // Changed any to unknown
-  values?: string[];
-}
+import {
+  ADVANCED_QUERY_FIELDS,
+  ADVANCED_QUERY_MATCHES,
+  ADVANCED_QUERY_OPERATORS,
+  AdvancedQueryClause,
+  AdvancedQueryField,
+  AdvancedQueryMatch,
+  AdvancedQueryOperator,
+  MAX_ADVANCED_QUERY_CLAUSES,
+  parseAdvancedQuery,
+} from "@/lib/advanced-query";
+import {
+  DATE_RANGE_FIELDS,
+  DateRange,
+  DateRangeField,
+  ORIGIN_OFFICE_CODES,
+  PAGE_SIZES,
+  parsePageSize,
+  parseSearchSort,
+  SearchSort,
+  SortOrder,
+} from "@/lib/search-request";
+import {
+  ConflictRisk,
+  ConflictRiskLevel,
+  GoodsOverlap,
+  parseGoodsSpecification,
+} from "@/lib/goods-overlap";
+import type { ReportFormat } from "@/lib/clearance-report";
+import type { SearchResult, TrademarkSummary } from "@/lib/search-result";
+import {
+  buildSearchUrl,
+  DisplayStyle,
+  isoDateInMonths,
+  mergeSearchState,
+  parseSearchUrl,
+  SearchPageState,
+  searchStateKey,
+} from "@/lib/search-url";
 
-interface RawInpiResultItem {
-  fields: InpiField[];
-  xml?: { href?: string };
-}
+const DATE_RANGE_LABELS: Record<DateRangeField, string> = {
+  applicationDate: "Date de dépôt",
+  registrationDate: "Date d'enregistrement",
+  expiryDate: "Date d'expiration",
+};
+
+const ADVANCED_QUERY_LABELS = {
+  operators: { AND: "ET", OR: "OU", NOT: "SAUF" },
+  fields: {
+    mark: "Marque",
+    applicant: "Déposant",
+    representative: "Mandataire",
+    goodsServices: "Produits et services",
+    applicationNumber: "N° de dépôt",
+  },
+  matches: {
+    words: "tous les mots",
+    phrase: "expression exacte",
+    wildcard: "joker (* ?)",
+  },
+} satisfies {
+  operators: Record<AdvancedQueryOperator, string>;
+  fields: Record<AdvancedQueryField, string>;
+  matches: Record<AdvancedQueryMatch, string>;
+};
+
+const SORT_LABELS: Record<SearchSort, string> = {
+  relevance: "Pertinence",
+  applicationDate: "Date de dépôt",
+  markWordElement: "Nom de la marque",
+};
 
 // Nice Classification Classes (Hardcoded)
 const niceClassesList = [
@@ -86,84 +159,136 @@ const niceClassesList = [
   { id: 45, title: "Class 45: Legal, security, personal services" },
 ];
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-const _trademarkSchema = z.object({
-  // Prefixed with underscore (ensuring this exact state)
-  marque: z.string(),
-  dateDepot: z.string(),
-  produitsServices: z.string(),
-  origine: z.string(),
-  statut: z.string(),
-  noticeUrl: z.string().optional(),
-  applicationNumber: z.string().optional(),
-});
-
-type Trademark = z.infer<typeof _trademarkSchema>; // Use underscored name
-
-function findFieldValue(
-  fields: InpiField[] | undefined, // Use InpiField type
-  fieldName: string
-): string | undefined {
-  if (!Array.isArray(fields)) return undefined;
-  const field = fields.find((f) => f.name === fieldName);
-  if (field) {
-    if (Array.isArray(field.values) && field.values.length > 0) {
-      if (fieldName === "PublicationDate") return field.values[0];
-      return field.values.join(", ");
-    }
-    if (typeof field.value === "string") {
-      return field.value;
-    }
-    // If field.value is not a string (e.g., for complex fields),
-    // this helper should return undefined as it's for simple string extraction.
-    return undefined;
-  }
-  return undefined;
+// Facet buckets as value -> count, for showing counts next to the filters.
+function facetCounts(
+  result: SearchResult | null | undefined,
+  field: string
+): Map<string, number> | null {
+  const buckets = result?.facets[field];
+  if (!buckets) return null;
+  return new Map(buckets.map((bucket) => [bucket.value, bucket.count]));
 }
 
-function formatDateDisplay(yyyymmddStr?: string): string {
-  if (!yyyymmddStr || yyyymmddStr.length !== 8) return "N/A";
-  const year = yyyymmddStr.substring(0, 4);
-  const month = yyyymmddStr.substring(4, 6);
-  const day = yyyymmddStr.substring(6, 8);
-  if (isNaN(parseInt(year)) || isNaN(parseInt(month)) || isNaN(parseInt(day)))
-    return "N/A";
+// The search API returns ISO dates (YYYY-MM-DD).
+function formatDateDisplay(isoDate: string | null): string {
+  if (!isoDate) return "N/A";
+  const [year, month, day] = isoDate.split("-");
   return `${day}/${month}/${year}`;
 }
 
-async function searchTrademarks(
-  query: string,
-  niceClasses: number[] = [],
-  origin: string | null = null,
-  niceLogic: "AND" | "OR" = "AND"
-): Promise<Trademark[]> {
-  if (!query.trim()) {
-    console.log("Frontend: Empty query, not fetching.");
-    return [];
+function describeGoodsOverlap(overlap: GoodsOverlap): string {
+  const parts = [
+    overlap.identicalClasses.length > 0 &&
+      `classes identiques : ${overlap.identicalClasses.join(", ")}`,
+    overlap.relatedClasses.length > 0 &&
+      `classes voisines : ${overlap.relatedClasses
+        .map(
+          (related) => `${related.niceClass} (proche de ${related.relatedTo})`
+        )
+        .join(", ")}`,
+    overlap.sharedTerms.length > 0 &&
+      `termes communs : ${overlap.sharedTerms.join(", ")}`,
+  ].filter(Boolean);
+  return parts.length > 0
+    ? parts.join(" ; ")
+    : "Aucun recoupement des produits et services";
+}
+
+/** The searchV2 body for a state, less the aggregations; the report route takes it too. */
+function searchPayloadFor(state: SearchPageState) {
+  return {
+    query: {
+      q: state.q,
+      origin: state.origin,
+      sort: state.sort,
+      order: state.order,
+      nbResultsPerPage: String(state.nbResultsPerPage),
+      page: String(state.page),
+      statuses: state.statuses,
+      markFeatures: state.markFeatures,
+      advancedQuery: state.advancedQuery,
+      ...Object.fromEntries(
+        Object.entries(state.dateRanges).flatMap(([field, range]) => [
+          [`${field}From`, range.from],
+          [`${field}To`, range.to],
+        ])
+      ),
+      ...(state.niceClasses.length > 0
+        ? {
+            niceClasses: state.niceClasses.join(","),
+            niceLogic: state.niceLogic,
+          }
+        : {}),
+    },
+    mode: state.mode,
+    ...(state.goodsClasses.length > 0 || state.goodsTerms
+      ? { goods: { niceClasses: state.goodsClasses, terms: state.goodsTerms } }
+      : {}),
+  };
+}
+
+/** Generates the clearance report for some hits and saves it through the browser. */
+async function downloadReport(
+  state: SearchPageState,
+  hits: TrademarkSummary[],
+  format: ReportFormat
+): Promise<void> {
+  const response = await fetch("/api/trademarks/report", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ ...searchPayloadFor(state), format, hits }),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || "Failed to generate the report");
+  }
+  const filename =
+    /filename="([^"]+)"/.exec(
+      response.headers.get("Content-Disposition") ?? ""
+    )?.[1] ?? `rapport.${format}`;
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Saves the search's text and filters as a watch, re-run by the server on a schedule.
+async function createWatch(state: SearchPageState): Promise<void> {
+  const response = await fetch("/api/watchlists", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      q: state.q,
+      niceClasses: state.niceClasses,
+      niceLogic: state.niceLogic,
+      origin: state.origin,
+    }),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || "Failed to save the watch");
   }
+}
 
-  // Construct the query parameters for the GET request
-  const params = new URLSearchParams();
-  params.set("q", query);
-  if (niceClasses.length > 0) {
-    params.set("niceClasses", niceClasses.join(","));
-    params.set("niceLogic", niceLogic);
+async function searchTrademarks(
+  state: SearchPageState
+): Promise<SearchResult | null> {
+  if (!state.q.trim() && state.advancedQuery.length === 0) {
+    console.log("Frontend: Empty query, not fetching.");
+    return null;
   }
-  if (origin) {
-    params.set("origin", origin);
+  if (state.mode === "clearance" && !state.q.trim()) {
+    throw new Error("La recherche de similarité nécessite un nom de marque.");
   }
 
-  // The search payload is now mostly managed by the backend,
-  // but we still need to send a POST request with the basic query info.
-  const searchPayload: any = {
-    query: {
-      q: query,
-      origin: origin,
-      sort: "relevance",
-      order: "asc",
-      nbResultsPerPage: "20",
-      page: "1",
-    },
+  const searchPayload = {
+    ...searchPayloadFor(state),
     aggregations: [
       "markCurrentStatusCode",
       "markFeature",
@@ -172,11 +297,6 @@ async function searchTrademarks(
     ],
   };
 
-  if (niceClasses.length > 0) {
-    searchPayload.query.niceClasses = niceClasses.join(",");
-    searchPayload.query.niceLogic = niceLogic;
-  }
-
   const apiUrl = `/api/trademarks/searchV2`;
   const response = await fetch(apiUrl, {
     method: "POST",
@@ -192,41 +312,85 @@ async function searchTrademarks(
       status: response.status,
       data: rawData,
     });
+    if (rawData.code === "QUOTA_EXCEEDED") {
+      // INPI quota errors carry a structured details object; show the readable message instead.
+      throw new Error(rawData.error);
+    }
     throw new Error(
       rawData.details ||
         rawData.error ||
         "Failed to fetch trademarks from backend V2 API"
     );
   }
-  if (rawData && rawData.result && Array.isArray(rawData.result.hits.hits)) {
-    return rawData.result.hits.hits.map((item: any) => {
-      const source = item._source;
-      let produitsServicesText = "N/A";
-      if (source.classDescriptionDetails) {
-        produitsServicesText = source.classDescriptionDetails
-          .map((c: any) => c.class)
-          .sort((a: number, b: number) => a - b)
-          .join(", ");
-      }
-      return {
-        marque: source.markWordElement || "N/A",
-        dateDepot: formatDateDisplay(source.applicationDate),
-        produitsServices: produitsServicesText,
-        origine: source.registrationOfficeCode || "N/A",
-        statut: source.markCurrentStatusCode || "N/A",
-        noticeUrl: source.markImageFileName
-          ? `/trademarkDetails/${source.applicationNumberWithCountryCode}`
-          : undefined,
-        applicationNumber: source.applicationNumberWithCountryCode || undefined,
-      };
-    });
-  } else {
-    console.warn(
-      "Frontend: API response format might be unexpected or empty.",
-      rawData
+  return rawData as SearchResult;
+}
+
+function TrademarkThumbnail({
+  trademark,
+  size,
+}: {
+  trademark: TrademarkSummary;
+  size: number;
+}) {
+  if (!trademark.hasImage) {
+    return (
+      <div
+        className="flex items-center justify-center border bg-gray-50 text-xs text-gray-400 shrink-0"
+        style={{ width: size, height: size }}
+      >
+        Aucun logo
+      </div>
     );
-    return [];
   }
+  return (
+    <Image
+      src={`/api/trademark-image/${trademark.id}?format=thu`}
+      alt={`Logo ${trademark.markName || trademark.id}`}
+      width={size}
+      height={size}
+      loading="lazy"
+      // The image proxy caches thumbnails and serves them with ETags.
+      unoptimized
+      className="border bg-white shrink-0"
+      style={{ objectFit: "contain", width: size, height: size }}
+    />
+  );
+}
+
+const RISK_BADGES: Record<
+  ConflictRiskLevel,
+  { label: string; className: string }
+> = {
+  high: { label: "Risque élevé", className: "bg-red-100 text-red-700" },
+  medium: { label: "Risque moyen", className: "bg-orange-100 text-orange-700" },
+  low: { label: "Risque faible", className: "bg-green-100 text-green-700" },
+};
+
+function RiskBadge({ risk }: { risk: ConflictRisk }) {
+  const badge = RISK_BADGES[risk.level];
+  return (
+    <span
+      className={`inline-block rounded px-2 py-0.5 text-xs font-semibold ${badge.className}`}
+      title={`Signe ${Math.round(risk.signScore * 100)} % × produits et services ${Math.round(risk.goodsScore * 100)} %`}
+    >
+      {badge.label} ({Math.round(risk.score * 100)} %)
+    </span>
+  );
+}
+
+function SimilarityBadge({
+  similarity,
+}: {
+  similarity: NonNullable<TrademarkSummary["similarity"]>;
+}) {
+  return (
+    <span
+      className="inline-block rounded bg-blue-50 px-2 py-0.5 text-xs font-semibold text-blue-700"
+      title={`Trouvée par : ${similarity.variants.join(", ")}`}
+    >
+      {Math.round(similarity.score * 100)} % similaire
+    </span>
+  );
 }
 
 // This new component will contain the actual page content and logic
@@ -235,184 +399,279 @@ function TrademarkSearchPageContent() {
   const searchParams = useSearchParams(); // searchParams hook is now inside the Suspense boundary
   const queryClient = useQueryClient();
 
-  // Initialize states to default values, will be set by useEffect
+  // The URL is the source of truth for the result page: searches run when it changes, so
+  // back/forward and shared links restore the exact page.
+  const urlState = useMemo(
+    () => parseSearchUrl(new URLSearchParams(searchParams.toString())),
+    [searchParams]
+  );
+  const urlSearchKey = searchStateKey(urlState);
+  // What is searched, without the display style; it only changes when the search does.
+  const searchState = useMemo(
+    () => parseSearchUrl(new URLSearchParams(urlSearchKey)),
+    [urlSearchKey]
+  );
+  // The search key of the last URL written by the page itself. Other URL changes, such as
+  // back/forward, are copied into the form.
+  const pushedSearchKey = useRef<string | null>(null);
+
+  // The form fields; they are written to the URL as the user edits them.
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedNiceClasses, setSelectedNiceClasses] = useState<number[]>([]);
   const [selectedOrigin, setSelectedOrigin] = useState<string | null>(null);
   const [niceClassLogic, setNiceClassLogic] = useState<"AND" | "OR">("AND");
-  const [submittedQuery, setSubmittedQuery] = useState("");
-  const [debouncedSearchQuery] = useDebounce(searchQuery, 500);
+  const [goodsClasses, setGoodsClasses] = useState("");
+  const [goodsTerms, setGoodsTerms] = useState("");
+  const [showAdvancedQuery, setShowAdvancedQuery] = useState(false);
+  // Rows being edited; incomplete ones are dropped when the search is applied.
+  const [advancedClauses, setAdvancedClauses] = useState<AdvancedQueryClause[]>(
+    []
+  );
   const [isMounted, setIsMounted] = useState(false); // Controls query execution
+  const submittedQuery = urlState.q;
+  const hasSubmittedSearch =
+    !!searchState.q || searchState.advancedQuery.length > 0;
+  const displayStyle = urlState.display;
 
   const searchMutation = useMutation<
-    Trademark[],
+    SearchResult | null,
     Error,
-    {
-      query: string;
-      niceClasses: number[];
-      origin: string | null;
-      niceLogic: "AND" | "OR";
-    }
+    SearchPageState
   >({
-    mutationFn: ({ query, niceClasses, origin, niceLogic }) =>
-      searchTrademarks(query, niceClasses, origin, niceLogic),
-    onSuccess: (data) => {
-      queryClient.setQueryData(
-        [
-          "trademarks",
-          submittedQuery,
-          selectedNiceClasses.join(","),
-          selectedOrigin,
-          niceClassLogic,
-        ],
-        data
-      );
+    mutationFn: (state) => searchTrademarks(state),
+    onSuccess: (data, state) => {
+      queryClient.setQueryData(["trademarks", searchStateKey(state)], data);
     },
   });
 
-  useEffect(() => {
-    const qParam = searchParams.get("q") || "";
-    const niceClassesParam = searchParams.get("niceClasses");
-    const originParam = searchParams.get("origin");
-    const niceLogicParam = searchParams.get("niceLogic");
-
-    setSearchQuery(qParam);
-    const initialNiceClasses = niceClassesParam
-      ? niceClassesParam
-          .split(",")
-          .map(Number)
-          .filter((n) => !isNaN(n) && n > 0)
-      : [];
-    setSelectedNiceClasses(initialNiceClasses);
-    const initialOrigin =
-      originParam && ["FR", "EU", "WO"].includes(originParam.toUpperCase())
-        ? originParam.toUpperCase()
-        : null;
-    setSelectedOrigin(initialOrigin);
-    const initialNiceLogic =
-      niceLogicParam === "OR" || niceLogicParam === "AND"
-        ? niceLogicParam
-        : "AND";
-    setNiceClassLogic(initialNiceLogic);
-
-    if (qParam) {
-      setSubmittedQuery(qParam);
-    }
-    setIsMounted(true);
-  }, []); // Run only once on mount
+  // Hits picked for the report, kept across result pages until cleared.
+  const [selectedHits, setSelectedHits] = useState<
+    Map<string, TrademarkSummary>
+  >(new Map());
+  const [reportFormat, setReportFormat] = useState<ReportFormat>("pdf");
+  const reportMutation = useMutation<
+    void,
+    Error,
+    { hits: TrademarkSummary[]; format: ReportFormat }
+  >({
+    mutationFn: ({ hits, format }) => downloadReport(urlState, hits, format),
+  });
+  const watchMutation = useMutation<void, Error, SearchPageState>({
+    mutationFn: createWatch,
+    onSuccess: () => router.push("/watchlists"),
+  });
 
+  // Fills the form from the URL on mount and whenever the URL changes from outside the page.
   useEffect(() => {
-    if (isMounted) {
-      const trimmedQuery = debouncedSearchQuery.trim();
-      if (trimmedQuery) {
-        setSubmittedQuery(trimmedQuery);
-        updateUrl({
-          q: trimmedQuery,
-          niceClasses: selectedNiceClasses,
-          origin: selectedOrigin,
-          niceLogic: niceClassLogic,
-        });
-        searchMutation.mutate({
-          query: trimmedQuery,
-          niceClasses: selectedNiceClasses,
-          origin: selectedOrigin,
-          niceLogic: niceClassLogic,
-        });
-      }
-    }
-  }, [
-    debouncedSearchQuery,
-    selectedNiceClasses,
-    selectedOrigin,
-    niceClassLogic,
-    isMounted,
-  ]);
+    if (pushedSearchKey.current === urlSearchKey) return;
+    pushedSearchKey.current = null;
+    setSearchQuery(searchState.q);
+    setSelectedNiceClasses(searchState.niceClasses);
+    setSelectedOrigin(searchState.origin);
+    setNiceClassLogic(searchState.niceLogic);
+    setGoodsClasses(searchState.goodsClasses.join(", "));
+    setGoodsTerms(searchState.goodsTerms);
+    setAdvancedClauses(searchState.advancedQuery);
+    setShowAdvancedQuery(searchState.advancedQuery.length > 0);
+    setIsMounted(true);
+  }, [searchState, urlSearchKey]);
 
   const updateUrl = useCallback(
-    (newStates: {
-      q?: string;
-      niceClasses?: number[];
-      origin?: string | null;
-      niceLogic?: "AND" | "OR";
-    }) => {
-      const currentParamsFromHook = new URLSearchParams(
-        searchParams.toString()
-      );
-      const finalQ =
-        newStates.q !== undefined
-          ? newStates.q
-          : currentParamsFromHook.get("q");
-      const finalNC =
-        newStates.niceClasses !== undefined
-          ? newStates.niceClasses
-          : currentParamsFromHook
-              .get("niceClasses")
-              ?.split(",")
-              .map(Number)
-              .filter((n) => !isNaN(n) && n > 0) || [];
-      const finalOrigin =
-        newStates.origin !== undefined
-          ? newStates.origin
-          : (currentParamsFromHook.get("origin") as string | null);
-      const finalNiceLogic =
-        newStates.niceLogic !== undefined
-          ? newStates.niceLogic
-          : (currentParamsFromHook.get("niceLogic") as "AND" | "OR") || "AND";
-
-      const paramsToSet = new URLSearchParams();
-      if (finalQ) paramsToSet.set("q", finalQ);
-      if (finalNC.length > 0) {
-        paramsToSet.set("niceClasses", finalNC.join(","));
-        paramsToSet.set("niceLogic", finalNiceLogic);
-      } else {
-        paramsToSet.delete("niceLogic");
-      }
-      if (finalOrigin) paramsToSet.set("origin", finalOrigin);
-
-      const newPath = `/${
-        paramsToSet.toString() ? `?${paramsToSet.toString()}` : ""
-      }`;
+    (changes: Partial<SearchPageState>): boolean => {
+      const next = mergeSearchState(urlState, changes);
+      const query = buildSearchUrl(next);
+      const newPath = `/${query ? `?${query}` : ""}`;
       if (
         typeof window !== "undefined" &&
         window.location.pathname + window.location.search !== newPath
       ) {
+        pushedSearchKey.current = searchStateKey(next);
         router.push(newPath, { scroll: false });
+        return true;
       }
+      return false;
     },
-    [router, searchParams]
+    [router, urlState]
   );
 
+  const { mutate: runSearch } = searchMutation;
+  useEffect(() => {
+    if (isMounted && hasSubmittedSearch) {
+      runSearch(searchState);
+    }
+  }, [searchState, isMounted, hasSubmittedSearch, runSearch]);
+
+  // The query and its filters are written to the URL as they are edited, which runs the search.
+  const writeFormToUrl = (
+    form: Pick<SearchPageState, "q" | "niceClasses" | "origin" | "niceLogic">
+  ) => {
+    const q = form.q.trim();
+    if (q) updateUrl({ ...form, q });
+  };
+  const writeQueryToUrl = useDebouncedCallback(writeFormToUrl, 500);
+
+  const writeFiltersToUrl = (
+    changes: Partial<
+      Pick<SearchPageState, "niceClasses" | "origin" | "niceLogic">
+    >
+  ) => {
+    writeQueryToUrl.cancel();
+    writeFormToUrl({
+      q: searchQuery,
+      niceClasses: selectedNiceClasses,
+      origin: selectedOrigin,
+      niceLogic: niceClassLogic,
+      ...changes,
+    });
+  };
+
   const handleNiceClassChange = (classId: number) => {
     const newSelectedClasses = selectedNiceClasses.includes(classId)
       ? selectedNiceClasses.filter((id) => id !== classId)
       : [...selectedNiceClasses, classId];
     setSelectedNiceClasses(newSelectedClasses);
+    writeFiltersToUrl({ niceClasses: newSelectedClasses });
   };
 
   const handleOriginChange = (value: string) => {
     const newOrigin = value === "ALL" ? null : value;
     setSelectedOrigin(newOrigin);
+    writeFiltersToUrl({ origin: newOrigin });
   };
 
   const handleNiceClassLogicChange = (value: "AND" | "OR") => {
     setNiceClassLogic(value);
+    writeFiltersToUrl({ niceLogic: value });
   };
 
-  const applySearchAndFilters = () => {
-    const trimmedQuery = searchQuery.trim();
-    setSubmittedQuery(trimmedQuery);
+  const handleDisplayStyleChange = (value: DisplayStyle) => {
+    updateUrl({ display: value });
+  };
+
+  const handleSortChange = (value: string) => {
+    updateUrl({ sort: parseSearchSort(value) });
+  };
+
+  const handleModeChange = (clearance: boolean) => {
+    updateUrl({ mode: clearance ? "clearance" : "standard" });
+  };
+
+  const handleOrderChange = (value: SortOrder) => {
+    updateUrl({ order: value });
+  };
+
+  const handlePageSizeChange = (value: string) => {
+    updateUrl({ nbResultsPerPage: parsePageSize(value) });
+  };
+
+  const handlePageChange = (page: number) => {
+    updateUrl({ page });
+  };
+
+  const toggleHitSelection = (trademark: TrademarkSummary) => {
+    setSelectedHits((selected) => {
+      const next = new Map(selected);
+      if (!next.delete(trademark.id)) next.set(trademark.id, trademark);
+      return next;
+    });
+  };
+
+  const handleGenerateReport = () => {
+    // Without a selection, the report covers the results on screen.
+    const hits =
+      selectedHits.size > 0
+        ? [...selectedHits.values()]
+        : (searchMutation.data?.hits ?? []);
+    reportMutation.mutate({ hits, format: reportFormat });
+  };
+
+  const toggleFacetValue = (
+    field: "statuses" | "markFeatures",
+    value: string
+  ) => {
+    const values = urlState[field];
     updateUrl({
-      q: trimmedQuery,
-      niceClasses: selectedNiceClasses,
-      origin: selectedOrigin,
-      niceLogic: niceClassLogic,
+      [field]: values.includes(value)
+        ? values.filter((v) => v !== value)
+        : [...values, value].sort(),
     });
-    searchMutation.mutate({
-      query: trimmedQuery,
+  };
+
+  // Counts from the last results' aggregations; null until a search has returned.
+  const niceClassCounts = facetCounts(
+    searchMutation.data,
+    "classDescriptionDetails.class"
+  );
+  const officeCounts = facetCounts(
+    searchMutation.data,
+    "registrationOfficeCode"
+  );
+  const statusCounts = facetCounts(
+    searchMutation.data,
+    "markCurrentStatusCode"
+  );
+  const markFeatureCounts = facetCounts(searchMutation.data, "markFeature");
+
+  const handleDateRangeChange = (
+    field: DateRangeField,
+    bound: keyof DateRange,
+    value: string
+  ) => {
+    const range: DateRange = {
+      from: null,
+      to: null,
+      ...urlState.dateRanges[field],
+      [bound]: value || null,
+    };
+    const dateRanges = { ...urlState.dateRanges };
+    if (range.from || range.to) {
+      dateRanges[field] = range;
+    } else {
+      delete dateRanges[field];
+    }
+    updateUrl({ dateRanges });
+  };
+
+  const handleAdvancedClauseChange = (
+    index: number,
+    changes: Partial<AdvancedQueryClause>
+  ) => {
+    setAdvancedClauses((clauses) =>
+      clauses.map((clause, i) =>
+        i === index ? { ...clause, ...changes } : clause
+      )
+    );
+  };
+
+  const addAdvancedClause = () => {
+    setAdvancedClauses((clauses) => [
+      ...clauses,
+      { operator: "AND", field: "mark", match: "words", value: "" },
+    ]);
+  };
+
+  const removeAdvancedClause = (index: number) => {
+    setAdvancedClauses((clauses) => clauses.filter((_, i) => i !== index));
+  };
+
+  const applySearchAndFilters = () => {
+    writeQueryToUrl.cancel();
+    const goods = parseGoodsSpecification(goodsClasses, goodsTerms);
+    const changes = {
+      q: searchQuery.trim(),
       niceClasses: selectedNiceClasses,
       origin: selectedOrigin,
       niceLogic: niceClassLogic,
-    });
+      advancedQuery: showAdvancedQuery
+        ? parseAdvancedQuery(advancedClauses)
+        : [],
+      goodsClasses: goods?.niceClasses ?? [],
+      goodsTerms: goods?.terms ?? "",
+    };
+    // An unchanged URL does not trigger a search, so searching again runs it directly.
+    if (!updateUrl(changes)) {
+      searchMutation.mutate(mergeSearchState(urlState, changes));
+    }
   };
 
   const handleSearch = () => {
@@ -421,6 +680,12 @@ function TrademarkSearchPageContent() {
 
   const handleInputChange = (e: ChangeEvent<HTMLInputElement>) => {
     setSearchQuery(e.target.value);
+    writeQueryToUrl({
+      q: e.target.value,
+      niceClasses: selectedNiceClasses,
+      origin: selectedOrigin,
+      niceLogic: niceClassLogic,
+    });
   };
 
   const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
@@ -430,16 +695,8 @@ function TrademarkSearchPageContent() {
     }
   };
 
-  const handleViewNotice = (noticeUrl?: string) => {
-    if (noticeUrl) {
-      const parts = noticeUrl.split("/");
-      const noticeId = parts[parts.length - 1];
-      if (noticeId) {
-        router.push(`/trademarkDetails/${noticeId}`);
-      } else {
-        console.error("Could not extract noticeId from URL:", noticeUrl);
-      }
-    }
+  const handleViewNotice = (id: string) => {
+    router.push(`/trademarkDetails/${id}`);
   };
 
   if (!isMounted) {
@@ -464,7 +721,12 @@ function TrademarkSearchPageContent() {
 
   return (
     <main className="container mx-auto p-4 max-w-4xl">
-      <h1 className="text-3xl font-bold mb-8 text-center">Trademark Search</h1>
+      <h1 className="text-3xl font-bold mb-2 text-center">Trademark Search</h1>
+      <p className="text-sm text-center mb-8">
+        <Link href="/watchlists" className="text-blue-600 hover:underline">
+          Watchlists
+        </Link>
+      </p>
 
       <div className="mb-6">
         <h2 className="text-xl font-semibold mb-3">
@@ -484,6 +746,11 @@ function TrademarkSearchPageContent() {
                   className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
                 >
                   {niceClass.title}
+                  {niceClassCounts && (
+                    <span className="ml-1 text-muted-foreground">
+                      ({niceClassCounts.get(String(niceClass.id)) ?? 0})
+                    </span>
+                  )}
                 </Label>
               </div>
             ))}
@@ -530,12 +797,142 @@ function TrademarkSearchPageContent() {
                 value={originValue}
                 id={`origin-${originValue}`}
               />
-              <Label htmlFor={`origin-${originValue}`}>{originValue}</Label>
+              <Label htmlFor={`origin-${originValue}`}>
+                {originValue}
+                {officeCounts && (
+                  <span className="ml-1 text-muted-foreground">
+                    (
+                    {originValue === "ALL"
+                      ? searchMutation.data?.total.value
+                      : (officeCounts.get(ORIGIN_OFFICE_CODES[originValue]) ??
+                        0)}
+                    )
+                  </span>
+                )}
+              </Label>
             </div>
           ))}
         </RadioGroup>
       </div>
 
+      <div className="mb-6">
+        <h2 className="text-xl font-semibold mb-3">Filter by Date</h2>
+        <div className="space-y-2">
+          {DATE_RANGE_FIELDS.map((field) => (
+            <div
+              key={field}
+              className="flex flex-wrap items-center gap-2 text-sm"
+            >
+              <span className="w-44">{DATE_RANGE_LABELS[field]}</span>
+              <Label htmlFor={`${field}-from`}>Du</Label>
+              <Input
+                id={`${field}-from`}
+                type="date"
+                value={urlState.dateRanges[field]?.from ?? ""}
+                onChange={(e) =>
+                  handleDateRangeChange(field, "from", e.target.value)
+                }
+                className="w-40"
+              />
+              <Label htmlFor={`${field}-to`}>au</Label>
+              <Input
+                id={`${field}-to`}
+                type="date"
+                value={urlState.dateRanges[field]?.to ?? ""}
+                onChange={(e) =>
+                  handleDateRangeChange(field, "to", e.target.value)
+                }
+                className="w-40"
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2 mt-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              updateUrl({
+                dateRanges: {
+                  ...urlState.dateRanges,
+                  applicationDate: { from: isoDateInMonths(-60), to: null },
+                },
+              })
+            }
+          >
+            Déposées ces 5 dernières années
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              updateUrl({
+                dateRanges: {
+                  ...urlState.dateRanges,
+                  expiryDate: {
+                    from: isoDateInMonths(0),
+                    to: isoDateInMonths(6),
+                  },
+                },
+              })
+            }
+          >
+            Expirant dans les 6 prochains mois
+          </Button>
+          {Object.keys(urlState.dateRanges).length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => updateUrl({ dateRanges: {} })}
+            >
+              Effacer les dates
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {[
+        {
+          field: "statuses" as const,
+          title: "Filter by Status",
+          counts: statusCounts,
+        },
+        {
+          field: "markFeatures" as const,
+          title: "Filter by Mark Type",
+          counts: markFeatureCounts,
+        },
+      ].map(({ field, title, counts }) => {
+        // Selected values stay listed even when the current results have none of them.
+        const values = [
+          ...(counts ? counts.keys() : []),
+          ...urlState[field].filter((value) => !counts?.has(value)),
+        ];
+        if (values.length === 0) return null;
+        return (
+          <div key={field} className="mb-6">
+            <h2 className="text-xl font-semibold mb-3">{title}</h2>
+            <div className="flex flex-wrap gap-x-6 gap-y-2">
+              {values.map((value) => (
+                <div key={value} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`${field}-${value}`}
+                    checked={urlState[field].includes(value)}
+                    onCheckedChange={() => toggleFacetValue(field, value)}
+                  />
+                  <Label htmlFor={`${field}-${value}`}>
+                    {value}
+                    <span className="ml-1 text-muted-foreground">
+                      ({counts?.get(value) ?? 0})
+                    </span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
       <div className="flex flex-col sm:flex-row gap-2 mb-6 items-center">
         <Input
           type="text"
@@ -562,9 +959,281 @@ function TrademarkSearchPageContent() {
           >
             Apply Filters
           </Button>
+          <Button
+            onClick={() => watchMutation.mutate(urlState)}
+            disabled={!urlState.q || watchMutation.isPending || !isMounted}
+            variant="outline"
+            className="w-full sm:w-auto"
+            title="Be told about new filings and status changes for this search"
+          >
+            <Bell className="w-4 h-4 mr-2" />
+            {watchMutation.isPending ? "Saving..." : "Watch this search"}
+          </Button>
+        </div>
+      </div>
+      {watchMutation.isError && (
+        <p className="text-sm text-red-500 -mt-4 mb-6">
+          {watchMutation.error.message}
+        </p>
+      )}
+
+      <div className="flex items-center space-x-2 mb-6">
+        <Checkbox
+          id="clearance-mode"
+          checked={urlState.mode === "clearance"}
+          onCheckedChange={(checked) => handleModeChange(checked === true)}
+        />
+        <Label htmlFor="clearance-mode">
+          Recherche de similarité (marques proches par le son ou
+          l&apos;orthographe)
+        </Label>
+      </div>
+
+      <div className="mb-6">
+        <h2 className="text-xl font-semibold mb-3">
+          Produits et services visés
+        </h2>
+        <p className="text-sm text-gray-500 mb-2">
+          Pour évaluer le risque de conflit avec chaque marque trouvée.
+        </p>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input
+            type="text"
+            placeholder="Classes (ex. 9, 42)"
+            aria-label="Classes visées"
+            value={goodsClasses}
+            onChange={(e) => setGoodsClasses(e.target.value)}
+            className="sm:w-48"
+          />
+          <Input
+            type="text"
+            placeholder="Libellé (ex. logiciels de gestion)"
+            aria-label="Libellé des produits et services"
+            value={goodsTerms}
+            onChange={(e) => setGoodsTerms(e.target.value)}
+            className="flex-1"
+          />
         </div>
       </div>
 
+      <div className="mb-6">
+        <Button
+          variant="link"
+          className="p-0 h-auto"
+          onClick={() => {
+            if (!showAdvancedQuery && advancedClauses.length === 0) {
+              addAdvancedClause();
+            }
+            setShowAdvancedQuery(!showAdvancedQuery);
+          }}
+          aria-expanded={showAdvancedQuery}
+        >
+          {showAdvancedQuery
+            ? "Masquer la recherche avancée"
+            : "Recherche avancée"}
+        </Button>
+        {showAdvancedQuery && (
+          <div className="mt-2 space-y-2 rounded-md border p-4">
+            {advancedClauses.map((clause, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2">
+                <select
+                  aria-label="Opérateur"
+                  value={clause.operator}
+                  onChange={(e) =>
+                    handleAdvancedClauseChange(index, {
+                      operator: e.target.value as AdvancedQueryOperator,
+                    })
+                  }
+                  className="h-9 rounded-md border px-2 text-sm"
+                >
+                  {ADVANCED_QUERY_OPERATORS.map((operator) => (
+                    <option key={operator} value={operator}>
+                      {ADVANCED_QUERY_LABELS.operators[operator]}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  aria-label="Champ"
+                  value={clause.field}
+                  onChange={(e) =>
+                    handleAdvancedClauseChange(index, {
+                      field: e.target.value as AdvancedQueryField,
+                    })
+                  }
+                  className="h-9 rounded-md border px-2 text-sm"
+                >
+                  {(
+                    Object.keys(ADVANCED_QUERY_FIELDS) as AdvancedQueryField[]
+                  ).map((field) => (
+                    <option key={field} value={field}>
+                      {ADVANCED_QUERY_LABELS.fields[field]}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  aria-label="Correspondance"
+                  value={clause.match}
+                  onChange={(e) =>
+                    handleAdvancedClauseChange(index, {
+                      match: e.target.value as AdvancedQueryMatch,
+                    })
+                  }
+                  className="h-9 rounded-md border px-2 text-sm"
+                >
+                  {ADVANCED_QUERY_MATCHES.map((match) => (
+                    <option key={match} value={match}>
+                      {ADVANCED_QUERY_LABELS.matches[match]}
+                    </option>
+                  ))}
+                </select>
+                <Input
+                  aria-label="Valeur"
+                  value={clause.value}
+                  onChange={(e) =>
+                    handleAdvancedClauseChange(index, { value: e.target.value })
+                  }
+                  onKeyDown={handleKeyDown}
+                  className="flex-1 min-w-40"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeAdvancedClause(index)}
+                  aria-label="Supprimer la condition"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={addAdvancedClause}
+                disabled={advancedClauses.length >= MAX_ADVANCED_QUERY_CLAUSES}
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Ajouter une condition
+              </Button>
+              <Button size="sm" onClick={handleSearch}>
+                Rechercher
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-end gap-2 mb-2">
+        <label className="flex items-center gap-2 text-sm">
+          Trier par
+          <select
+            value={urlState.sort}
+            onChange={(e) => handleSortChange(e.target.value)}
+            // Similarity searches are always ranked by similarity.
+            disabled={urlState.mode === "clearance"}
+            className="h-9 rounded-md border px-2 text-sm"
+          >
+            {(Object.keys(SORT_LABELS) as SearchSort[]).map((sort) => (
+              <option key={sort} value={sort}>
+                {SORT_LABELS[sort]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            handleOrderChange(urlState.order === "asc" ? "desc" : "asc")
+          }
+          disabled={urlState.mode === "clearance"}
+          aria-label={
+            urlState.order === "asc" ? "Ordre croissant" : "Ordre décroissant"
+          }
+        >
+          {urlState.order === "asc" ? (
+            <ArrowUp className="w-4 h-4" />
+          ) : (
+            <ArrowDown className="w-4 h-4" />
+          )}
+        </Button>
+        <label className="flex items-center gap-2 text-sm">
+          Par page
+          <select
+            value={urlState.nbResultsPerPage}
+            onChange={(e) => handlePageSizeChange(e.target.value)}
+            className="h-9 rounded-md border px-2 text-sm"
+          >
+            {PAGE_SIZES.map((size) => (
+              <option key={size} value={size}>
+                {size}
+              </option>
+            ))}
+          </select>
+        </label>
+        <Button
+          variant={displayStyle === "List" ? "default" : "outline"}
+          size="sm"
+          onClick={() => handleDisplayStyleChange("List")}
+          aria-pressed={displayStyle === "List"}
+        >
+          <List className="w-4 h-4 mr-2" />
+          List
+        </Button>
+        <Button
+          variant={displayStyle === "Grid" ? "default" : "outline"}
+          size="sm"
+          onClick={() => handleDisplayStyleChange("Grid")}
+          aria-pressed={displayStyle === "Grid"}
+        >
+          <LayoutGrid className="w-4 h-4 mr-2" />
+          Grid
+        </Button>
+      </div>
+
+      {searchMutation.isSuccess &&
+        searchMutation.data &&
+        searchMutation.data.hits.length > 0 && (
+          <div className="flex flex-wrap items-center justify-end gap-2 mb-2">
+            <span className="text-sm text-gray-600">
+              {selectedHits.size > 0
+                ? `${selectedHits.size} marque${selectedHits.size > 1 ? "s" : ""} sélectionnée${selectedHits.size > 1 ? "s" : ""}`
+                : "Aucune sélection : le rapport reprend les résultats affichés"}
+            </span>
+            {selectedHits.size > 0 && (
+              <Button
+                variant="link"
+                size="sm"
+                onClick={() => setSelectedHits(new Map())}
+              >
+                Effacer la sélection
+              </Button>
+            )}
+            <select
+              aria-label="Format du rapport"
+              value={reportFormat}
+              onChange={(e) => setReportFormat(e.target.value as ReportFormat)}
+              className="h-9 rounded-md border px-2 text-sm"
+            >
+              <option value="pdf">PDF</option>
+              <option value="html">HTML</option>
+            </select>
+            <Button
+              size="sm"
+              onClick={handleGenerateReport}
+              disabled={reportMutation.isPending}
+            >
+              <FileText className="w-4 h-4 mr-2" />
+              {reportMutation.isPending ? "Generating..." : "Generate report"}
+            </Button>
+          </div>
+        )}
+      {reportMutation.isError && (
+        <p className="text-sm text-red-500 text-right mb-2">
+          {reportMutation.error.message}
+        </p>
+      )}
+
       <ScrollArea className="h-[600px] rounded-md border p-4">
         {searchMutation.isPending ? (
           <div className="space-y-4">
@@ -579,78 +1248,132 @@ function TrademarkSearchPageContent() {
             <Button
               variant="outline"
               className="mt-4"
-              onClick={() =>
-                searchMutation.mutate({
-                  query: submittedQuery,
-                  niceClasses: selectedNiceClasses,
-                  origin: selectedOrigin,
-                  niceLogic: niceClassLogic,
-                })
-              }
+              onClick={() => searchMutation.mutate(urlState)}
               disabled={searchMutation.isPending}
             >
               Try Again
             </Button>
           </div>
-        ) : searchMutation.isSuccess && searchMutation.data.length > 0 ? (
-          <div className="space-y-4">
-            {searchMutation.data.map((trademark: Trademark, index: number) => (
-              <Card
-                key={`${trademark.applicationNumber}-${index}-${trademark.marque}-v2test`}
-                className="p-4"
-              >
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div>
-                    <h3 className="font-semibold">Marque</h3>
-                    <p>{trademark.marque}</p>
-                  </div>
-                  <div>
-                    <h3 className="font-semibold">
-                      Date de dépôt / Publication
-                    </h3>
-                    <p>{trademark.dateDepot}</p>
-                  </div>
-                  <div className="md:col-span-2">
-                    <h3 className="font-semibold">
-                      Produits et services / Classification de Nice
-                    </h3>
-                    <p className="text-sm whitespace-pre-wrap">
-                      {trademark.produitsServices}
-                    </p>
-                  </div>
-                  <div>
-                    <h3 className="font-semibold">Origine</h3>
-                    <p>{trademark.origine}</p>
-                  </div>
-                  <div>
-                    <h3 className="font-semibold">Statut</h3>
-                    <p>{trademark.statut}</p>
-                  </div>
-                  {trademark.applicationNumber && (
+        ) : searchMutation.isSuccess &&
+          searchMutation.data &&
+          searchMutation.data.hits.length > 0 ? (
+          displayStyle === "Grid" ? (
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+              {searchMutation.data.hits.map((trademark, index) => (
+                <div key={`${trademark.id}-${index}`} className="relative">
+                  <Checkbox
+                    aria-label={`Sélectionner ${trademark.markName || trademark.id} pour le rapport`}
+                    checked={selectedHits.has(trademark.id)}
+                    onCheckedChange={() => toggleHitSelection(trademark)}
+                    className="absolute top-2 left-2 z-10 bg-white"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleViewNotice(trademark.id)}
+                    className="flex w-full flex-col items-center gap-1 rounded-md border p-2 text-center hover:bg-gray-50"
+                  >
+                    <TrademarkThumbnail trademark={trademark} size={120} />
+                    <span className="text-sm font-semibold line-clamp-2">
+                      {trademark.markName || "N/A"}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {trademark.id}
+                    </span>
+                    {trademark.similarity && (
+                      <SimilarityBadge similarity={trademark.similarity} />
+                    )}
+                    {trademark.risk && <RiskBadge risk={trademark.risk} />}
+                  </button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {searchMutation.data.hits.map((trademark, index) => (
+                <Card
+                  key={`${trademark.id}-${index}`}
+                  className="p-4 flex flex-row gap-4"
+                >
+                  <Checkbox
+                    aria-label={`Sélectionner ${trademark.markName || trademark.id} pour le rapport`}
+                    checked={selectedHits.has(trademark.id)}
+                    onCheckedChange={() => toggleHitSelection(trademark)}
+                  />
+                  <TrademarkThumbnail trademark={trademark} size={96} />
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 flex-1">
                     <div>
-                      <h3 className="font-semibold">N° Demande</h3>
-                      <p>{trademark.applicationNumber}</p>
+                      <h3 className="font-semibold">Marque</h3>
+                      <p>{trademark.markName || "N/A"}</p>
+                    </div>
+                    {trademark.goodsOverlap && (
+                      <div>
+                        <h3 className="font-semibold">Risque de conflit</h3>
+                        {trademark.risk && <RiskBadge risk={trademark.risk} />}
+                        <p className="text-sm text-gray-600">
+                          {describeGoodsOverlap(trademark.goodsOverlap)}
+                        </p>
+                      </div>
+                    )}
+                    {trademark.similarity && (
+                      <div className="md:col-span-2">
+                        <h3 className="font-semibold">Similarité</h3>
+                        <SimilarityBadge similarity={trademark.similarity} />
+                        <ul className="text-sm text-gray-600 list-disc ml-5">
+                          {trademark.similarity.reasons.map((reason) => (
+                            <li key={reason.kind}>{reason.detail}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    <div>
+                      <h3 className="font-semibold">
+                        Date de dépôt / Publication
+                      </h3>
+                      <p>{formatDateDisplay(trademark.applicationDate)}</p>
                     </div>
-                  )}
-                  {trademark.noticeUrl && (
                     <div className="md:col-span-2">
-                      <Button
-                        variant="link"
-                        className="p-0 h-auto text-blue-600 hover:underline"
-                        onClick={() => handleViewNotice(trademark.noticeUrl)}
-                      >
-                        Voir la notice complète (INPI)
-                      </Button>
+                      <h3 className="font-semibold">
+                        Produits et services / Classification de Nice
+                      </h3>
+                      <p className="text-sm whitespace-pre-wrap">
+                        {trademark.niceClasses.join(", ") || "N/A"}
+                      </p>
                     </div>
-                  )}
-                </div>
-              </Card>
-            ))}
-          </div>
-        ) : submittedQuery && !searchMutation.isPending ? (
+                    <div>
+                      <h3 className="font-semibold">Origine</h3>
+                      <p>{trademark.registrationOfficeCode || "N/A"}</p>
+                    </div>
+                    <div>
+                      <h3 className="font-semibold">Statut</h3>
+                      <p>{trademark.status || "N/A"}</p>
+                    </div>
+                    {trademark.id && (
+                      <div>
+                        <h3 className="font-semibold">N° Demande</h3>
+                        <p>{trademark.id}</p>
+                      </div>
+                    )}
+                    {trademark.id && (
+                      <div className="md:col-span-2">
+                        <Button
+                          variant="link"
+                          className="p-0 h-auto text-blue-600 hover:underline"
+                          onClick={() => handleViewNotice(trademark.id)}
+                        >
+                          Voir la notice complète (INPI)
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                </Card>
+              ))}
+            </div>
+          )
+        ) : hasSubmittedSearch && !searchMutation.isPending ? (
           <div className="text-center p-4 text-gray-500">
-            No results found for &quot;{submittedQuery}&quot;. Try a different
-            search term.
+            No results found
+            {submittedQuery ? <> for &quot;{submittedQuery}&quot;</> : null}.
+            Try a different search term.
           </div>
         ) : (
           <div className="text-center p-4 text-gray-400">
@@ -658,6 +1381,48 @@ function TrademarkSearchPageContent() {
           </div>
         )}
       </ScrollArea>
+
+      {searchMutation.isSuccess && searchMutation.data?.clearance && (
+        <p className="text-xs text-gray-500 mt-2">
+          Variantes recherchées :{" "}
+          {searchMutation.data.clearance.variants
+            .map((variant) => variant.query)
+            .join(", ")}
+          {searchMutation.data.clearance.failedVariants.length > 0 &&
+            ` (en échec : ${searchMutation.data.clearance.failedVariants.join(", ")})`}
+        </p>
+      )}
+
+      {searchMutation.isSuccess &&
+        searchMutation.data &&
+        searchMutation.data.paging.totalPages > 1 && (
+          <div className="flex items-center justify-between gap-2 mt-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handlePageChange(urlState.page - 1)}
+              disabled={!searchMutation.data.paging.hasPreviousPage}
+            >
+              <ChevronLeft className="w-4 h-4 mr-1" />
+              Précédente
+            </Button>
+            <span className="text-sm text-gray-600">
+              Page {searchMutation.data.paging.page} sur{" "}
+              {searchMutation.data.total.relation === "gte" ? "au moins " : ""}
+              {searchMutation.data.paging.totalPages} (
+              {searchMutation.data.total.value} résultats)
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handlePageChange(urlState.page + 1)}
+              disabled={!searchMutation.data.paging.hasNextPage}
+            >
+              Suivante
+              <ChevronRight className="w-4 h-4 ml-1" />
+            </Button>
+          </div>
+        )}
     </main>
   );
 }
@@ -5,140 +5,19 @@ import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
-import { ArrowLeft } from "lucide-react";
+import { ArrowLeft, FileDown } from "lucide-react";
 import Image from "next/image"; // Import next/image
+import type { NiceClass, NoticeResponse, Party } from "@/lib/trademark-record";
+import { MediaType, mediaTypeForFeature, mediaUrl } from "@/lib/trademark-media";
 
-// Detailed interfaces for the API response structure
-interface TextValue {
-  _text?: string;
-}
-
-interface FormattedName {
-  FirstName?: string | TextValue;
-  LastName?: string | TextValue;
-  OrganizationName?: string | TextValue;
-  FormattedName?: string | TextValue | FormattedName; // Can be recursive or simple
-}
-
-interface FormattedAddress {
-  AddressLine?: string | TextValue | Array<string | TextValue>;
-  AddressCity?: string | TextValue;
-  AddressPostcode?: string | TextValue;
-  AddressCountryCode?: string | TextValue;
-  FormattedAddressCountryCode?: string | TextValue; // fallback
-}
-
-interface FreeFormatAddress {
-  FreeFormatAddressLine?: string | TextValue | Array<string | TextValue>;
-}
-
-interface AddressDetails {
-  FormattedAddress?: FormattedAddress;
-  FreeFormatAddress?: FreeFormatAddress;
-}
-
-interface NameAddress {
-  Name?: FormattedName;
-  Address?: AddressDetails;
-}
-
-interface AddressBook {
-  FormattedNameAddress?: NameAddress;
-  PostalAddress?: string; // Seems to be a newline-separated string
-}
-
-interface Party {
-  ApplicantAddressBook?: AddressBook;
-  RepresentativeAddressBook?: AddressBook;
-  ApplicantIdentifier?: string; // Fallback identifier
-  // Other party-specific fields if any
-}
-
-interface GoodsServicesDescriptionEntry {
-  _text?: string;
-  // It can also be a plain string
-}
-
-interface ClassDescription {
-  ClassNumber?: string | TextValue;
-  GoodsServicesDescription?:
-    | string
-    | TextValue
-    | GoodsServicesDescriptionEntry
-    | Array<string | TextValue | GoodsServicesDescriptionEntry>;
-}
-
-interface TrademarkNoticeWrapper {
-  TradeMark?: TrademarkDetailData;
-}
-
-interface TrademarkDetailData {
-  ApplicationNumber?: string;
-  RegistrationNumber?: string;
-  MarkCurrentStatusCode?: string;
-  ApplicationDate?: string;
-  RegistrationDate?: string;
-  ExpiryDate?: string;
-  WordMarkSpecification?: {
-    MarkVerbalElementText?: string;
-  };
-  ApplicantDetails?: {
-    Applicant?: Party | Party[];
-  };
-  RepresentativeDetails?: {
-    Representative?: Party | Party[];
-  };
-  GoodsServicesDetails?: {
-    GoodsServices?: {
-      ClassDescriptionDetails?: {
-        ClassDescription?: ClassDescription | ClassDescription[];
-      };
-    };
-  };
-  MarkImageDetails?: {
-    MarkImage?: {
-      MarkImageFilename?: string;
-    };
-  };
-  // Removed [key: string]: any; to be more specific.
-  // Add other known top-level properties of TradeMark object if they exist.
-}
-
-// Specific type for the GoodsServices node, to be used in renderNiceClasses
-interface GoodsServicesDataForRender {
-  ClassDescriptionDetails?: {
-    ClassDescription?: ClassDescription | ClassDescription[];
-  };
-}
-
-function formatDateDisplay(dateStr?: string): string {
-  if (!dateStr) return "N/A";
-  let year, month, day;
-  if (dateStr.includes("-")) {
-    [year, month, day] = dateStr.split("-");
-  } else if (dateStr.length === 8 && /^\d+$/.test(dateStr)) {
-    year = dateStr.substring(0, 4);
-    month = dateStr.substring(4, 6);
-    day = dateStr.substring(6, 8);
-  } else {
-    return "N/A (Unknown Format)";
-  }
-  if (
-    !year ||
-    !month ||
-    !day ||
-    isNaN(parseInt(year)) ||
-    isNaN(parseInt(month)) ||
-    isNaN(parseInt(day))
-  ) {
-    return "N/A (Invalid Date Parts)";
-  }
+// Dates in the notice model are ISO (YYYY-MM-DD); display them the French way.
+function formatDateDisplay(isoDate: string | null): string {
+  if (!isoDate) return "N/A";
+  const [year, month, day] = isoDate.split("-");
   return `${day}/${month}/${year}`;
 }
 
-async function fetchTrademarkNoticeDetails(
-  id: string
-): Promise<TrademarkNoticeWrapper> {
+async function fetchTrademarkNoticeDetails(id: string): Promise<NoticeResponse> {
   if (!id)
     throw new Error("Application ID is required to fetch notice details.");
   console.log(`Frontend Detail Page: Fetching /api/trademarks/notice/${id}`);
@@ -151,174 +30,91 @@ async function fetchTrademarkNoticeDetails(
       status: response.status,
       data: errorData,
     });
+    if (errorData.code === "QUOTA_EXCEEDED") {
+      throw new Error(errorData.error);
+    }
     throw new Error(
-      errorData.details ||
+      (typeof errorData.details === "string" && errorData.details) ||
         errorData.error ||
         `Failed to fetch trademark notice (status: ${response.status})`
     );
   }
-  const data = await response.json();
-  console.log(
-    "Frontend Detail Page: Raw notice data received from backend API (will be wrapped in {TradeMark: ...}):",
-    data
-  );
-  return data; // Data is { TradeMark: { ...details... } }
+  return response.json();
 }
 
-const renderPartyDetails = (
-  party: Party, // Use Party type
-  partyType: "Applicant" | "Representative"
-) => {
-  if (!party) return <p>N/A</p>;
-
-  const addressBook =
-    partyType === "Applicant"
-      ? party.ApplicantAddressBook
-      : party.RepresentativeAddressBook;
-  let displayName = "";
-  let displayAddress = "";
-
-  if (addressBook) {
-    const nameAddr = addressBook.FormattedNameAddress;
-
-    // Name Extraction
-    if (nameAddr && nameAddr.Name) {
-      if (nameAddr.Name.OrganizationName) {
-        displayName =
-          typeof nameAddr.Name.OrganizationName === "string"
-            ? nameAddr.Name.OrganizationName
-            : nameAddr.Name.OrganizationName._text || "";
-      } else if (nameAddr.Name.FormattedName) {
-        const fn = nameAddr.Name.FormattedName;
-        if (typeof fn === "string") {
-          displayName = fn;
-        } else if (typeof fn === "object" && fn !== null) {
-          // fn could be TextValue or FormattedName (object form)
-          if ("_text" in fn && typeof fn._text === "string") {
-            // Check if it's TextValue
-            displayName = fn._text;
-          } else {
-            // Assume it's FormattedName structure
-            const formattedName = fn as FormattedName; // Cast to FormattedName for easier access
-            const firstNamePart = formattedName.FirstName;
-            const lastNamePart = formattedName.LastName;
-
-            const fName =
-              typeof firstNamePart === "string"
-                ? firstNamePart
-                : (firstNamePart as TextValue)?._text;
-            const lName =
-              typeof lastNamePart === "string"
-                ? lastNamePart
-                : (lastNamePart as TextValue)?._text;
-
-            displayName = [fName, lName].filter(Boolean).join(" ").trim();
-          }
-        }
-      }
-    }
-
-    // Fallback to PostalAddress for name if structured name wasn't found or is empty
-    // For Applicant, PostalAddress seems to be the primary source for name if FormattedNameAddress is empty
-    if (!displayName && typeof addressBook.PostalAddress === "string") {
-      const postalLines = addressBook.PostalAddress.split("\n");
-      if (postalLines.length > 0) displayName = postalLines[0].trim();
-    }
-    displayName =
-      displayName ||
-      (partyType === "Applicant" && party.ApplicantIdentifier
-        ? `Applicant ID: ${party.ApplicantIdentifier}`
-        : "Name N/A");
-
-    // Address Extraction
-    if (nameAddr && nameAddr.Address && nameAddr.Address.FormattedAddress) {
-      const addr = nameAddr.Address.FormattedAddress;
-      const addressParts = [
-        Array.isArray(addr.AddressLine)
-          ? addr.AddressLine.map(
-              (
-                line: string | TextValue // Use string | TextValue
-              ) => (typeof line === "string" ? line : line._text)
-            ).join(", ")
-          : typeof addr.AddressLine === "string"
-          ? addr.AddressLine
-          : (addr.AddressLine as TextValue)?._text, // Type assertion for TextValue
-        typeof addr.AddressCity === "string"
-          ? addr.AddressCity
-          : (addr.AddressCity as TextValue)?._text,
-        typeof addr.AddressPostcode === "string"
-          ? addr.AddressPostcode
-          : (addr.AddressPostcode as TextValue)?._text,
-        (typeof addr.AddressCountryCode === "string"
-          ? addr.AddressCountryCode
-          : (addr.AddressCountryCode as TextValue)?._text) ||
-          (typeof addr.FormattedAddressCountryCode === "string"
-            ? addr.FormattedAddressCountryCode
-            : (addr.FormattedAddressCountryCode as TextValue)?._text),
-      ].filter(Boolean);
-      if (addressParts.length > 0) displayAddress = addressParts.join(", ");
-    } else if (
-      nameAddr &&
-      nameAddr.Address &&
-      nameAddr.Address.FreeFormatAddress &&
-      nameAddr.Address.FreeFormatAddress.FreeFormatAddressLine
-    ) {
-      const ffLines = nameAddr.Address.FreeFormatAddress.FreeFormatAddressLine;
-      displayAddress = (
-        Array.isArray(ffLines)
-          ? ffLines.map(
-              (
-                line: string | TextValue // Use string | TextValue
-              ) => (typeof line === "string" ? line : line._text)
-            )
-          : [
-              typeof ffLines === "string"
-                ? ffLines
-                : (ffLines as TextValue)?._text,
-            ]
-      ) // Type assertion
+const renderPartyDetails = (party: Party) => {
+  const address = party.address
+    ? [
+        ...party.address.lines,
+        [party.address.postcode, party.address.city].filter(Boolean).join(" "),
+        party.address.countryCode,
+      ]
         .filter(Boolean)
-        .join(", ");
-    }
-
-    // Fallback to PostalAddress for address if other methods failed
-    if (!displayAddress && typeof addressBook.PostalAddress === "string") {
-      const postalLines = addressBook.PostalAddress.split("\n");
-      if (postalLines.length > 1 && displayName === postalLines[0].trim()) {
-        displayAddress = postalLines.slice(1).join("\n").trim(); // Keep multi-line for address part
-      } else if (postalLines.length > 0) {
-        displayAddress = postalLines.join("\n").trim(); // Use all lines if name was different
-      }
-    }
-    displayAddress = displayAddress || "Address N/A";
-  } else {
-    // Fallback if addressBook itself is missing
-    if (partyType === "Applicant" && party.ApplicantIdentifier) {
-      displayName = `Applicant ID: ${party.ApplicantIdentifier}`;
-    }
-  }
+        .join(", ")
+    : "";
 
   return (
     <p className="whitespace-pre-line">
-      {displayName}
+      {party.name ||
+        (party.identifier ? `ID: ${party.identifier}` : "Name N/A")}
+      {party.legalEntity && (
+        <span className="text-xs text-gray-500"> ({party.legalEntity})</span>
+      )}
       <br />
-      <span className="text-xs text-gray-500">{displayAddress}</span>
+      <span className="text-xs text-gray-500">{address || "Address N/A"}</span>
     </p>
   );
 };
 
+const renderMedia = (type: MediaType, id: string) => {
+  const src = mediaUrl(type, id);
+  if (type === "sound") {
+    return <audio controls preload="metadata" src={src} className="w-full" />;
+  }
+  if (type === "video") {
+    return (
+      <video controls preload="metadata" src={src} className="w-full max-h-96" />
+    );
+  }
+  return (
+    <Button variant="outline" asChild>
+      <a href={src} download>
+        <FileDown className="w-4 h-4 mr-2" />
+        Download 3D model
+      </a>
+    </Button>
+  );
+};
+
+const renderNiceClasses = (classes: NiceClass[]) => {
+  if (classes.length === 0) return <p>N/A</p>;
+
+  return (
+    <ul className="list-disc list-inside space-y-2">
+      {classes.map((niceClass) => (
+        <li key={niceClass.number}>
+          <strong>Classe {niceClass.number}:</strong>
+          <div className="pl-2 whitespace-pre-line">
+            {niceClass.terms.join("; ") || "No description"}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
 export default function TrademarkDetailPage() {
   const params = useParams();
   const router = useRouter();
   const id = typeof params.id === "string" ? params.id : undefined;
 
   const {
-    data: noticeWrapper,
+    data: noticeData,
     isLoading,
     error,
     refetch,
     isFetching,
-  } = useQuery<TrademarkNoticeWrapper, Error>({
+  } = useQuery<NoticeResponse, Error>({
     queryKey: ["trademarkNotice", id],
     queryFn: () => fetchTrademarkNoticeDetails(id as string),
     enabled: !!id,
@@ -333,71 +129,6 @@ export default function TrademarkDetailPage() {
     );
   }
 
-  const noticeData = noticeWrapper?.TradeMark;
-
-  const renderNiceClasses = (
-    goodsServicesContainer?: GoodsServicesDataForRender // Use the new specific type
-  ) => {
-    if (!goodsServicesContainer?.ClassDescriptionDetails?.ClassDescription) {
-      return <p>N/A</p>;
-    }
-
-    const classInput: ClassDescription | ClassDescription[] | undefined =
-      goodsServicesContainer.ClassDescriptionDetails.ClassDescription;
-
-    let classes: ClassDescription[];
-    if (Array.isArray(classInput)) {
-      classes = classInput;
-    } else if (classInput) {
-      classes = [classInput];
-    } else {
-      classes = [];
-    }
-
-    return (
-      <ul className="list-disc list-inside space-y-2">
-        {classes.map((cd: ClassDescription, index: number) => {
-          let descriptions: string[] = [];
-          if (cd.GoodsServicesDescription) {
-            const descArray = Array.isArray(cd.GoodsServicesDescription)
-              ? cd.GoodsServicesDescription
-              : [cd.GoodsServicesDescription];
-            descriptions = descArray
-              .map(
-                (
-                  descEntry: string | TextValue | GoodsServicesDescriptionEntry
-                ) => {
-                  // Use specific type
-                  // descEntry could be a string directly, or an object with _text
-                  if (typeof descEntry === "string") return descEntry;
-                  if (
-                    descEntry &&
-                    typeof (descEntry as TextValue)._text === "string"
-                  )
-                    // Check _text property
-                    return (descEntry as TextValue)._text!;
-                  return "";
-                }
-              )
-              .filter(Boolean);
-          }
-          const classNumberValue =
-            typeof cd.ClassNumber === "string"
-              ? cd.ClassNumber
-              : cd.ClassNumber?._text;
-          return (
-            <li key={index}>
-              <strong>Classe {classNumberValue || "N/A"}:</strong>
-              <div className="pl-2 whitespace-pre-line">
-                {descriptions.join("; ") || "No description"}
-              </div>
-            </li>
-          );
-        })}
-      </ul>
-    );
-  };
-
   // Conditional rendering logic
   let content;
   if (isLoading || (isFetching && !noticeData)) {
@@ -431,119 +162,106 @@ export default function TrademarkDetailPage() {
       </div>
     );
   } else if (noticeData) {
-    // Test explicit access for Mark Name
-    const markText = noticeData.WordMarkSpecification?.MarkVerbalElementText;
-    console.log(
-      "Debug Mark Text:",
-      markText,
-      "Notice Data WM Spec:",
-      noticeData.WordMarkSpecification
-    );
-
+    const mediaType = mediaTypeForFeature(noticeData.feature);
     content = (
       <Card>
-        <CardHeader>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
           <CardTitle>
-            Détails de la Marque :{" "}
-            {markText ? markText : "N/A (markText empty)"}
+            Détails de la Marque : {noticeData.verbalElement || "N/A"}
           </CardTitle>
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/trademarks/bopi/${id}`} download>
+              <FileDown className="w-4 h-4 mr-2" />
+              Download BOPI publication
+            </a>
+          </Button>
         </CardHeader>
         <CardContent className="space-y-6">
-          {noticeData.MarkImageDetails?.MarkImage?.MarkImageFilename && id && (
+          {noticeData.stale && (
+            <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded p-2">
+              INPI est momentanément indisponible : ces informations datent du{" "}
+              {noticeData.staleSince
+                ? new Date(noticeData.staleSince).toLocaleString("fr-FR")
+                : "dernier accès"}
+              .
+            </p>
+          )}
+          {noticeData.images.length > 0 && (
             <div className="my-4 text-center">
               <Image // Use next/image
                 src={`/api/trademark-image/${id}`}
-                alt={`Logo for ${
-                  noticeData.WordMarkSpecification?.MarkVerbalElementText ||
-                  "trademark"
-                }`}
+                alt={`Logo for ${noticeData.verbalElement || "trademark"}`}
                 className="inline-block border"
+                // The image route already caches and revalidates the logo.
+                unoptimized
                 width={160} // Example width, adjust as needed
                 height={40} // Example height, adjust as needed (max-h-40 was used)
                 style={{ objectFit: "contain", maxHeight: "10rem" }} // 10rem = 160px if 1rem=16px. max-h-40 = 10rem.
               />
             </div>
           )}
+          {mediaType && (
+            <div>
+              <h3 className="font-semibold mb-1">
+                Représentation de la marque ({noticeData.feature}):
+              </h3>
+              {renderMedia(mediaType, id)}
+            </div>
+          )}
           <div>
             <h3 className="font-semibold">N° Demande/Enregistrement:</h3>{" "}
             <p>
-              {noticeData.ApplicationNumber || "N/A"}{" "}
-              {noticeData.RegistrationNumber &&
-              noticeData.RegistrationNumber !== noticeData.ApplicationNumber
-                ? `(N° Enr.: ${noticeData.RegistrationNumber})`
+              {noticeData.applicationNumberWithCountryCode}{" "}
+              {noticeData.registrationNumber &&
+              noticeData.registrationNumber !== noticeData.applicationNumber
+                ? `(N° Enr.: ${noticeData.registrationNumber})`
                 : ""}
             </p>
           </div>
           <div>
             <h3 className="font-semibold">Statut Actuel:</h3>{" "}
-            <p>{noticeData.MarkCurrentStatusCode || "N/A"}</p>
+            <p>
+              {noticeData.status.label || "N/A"}
+              {noticeData.status.date &&
+                ` (depuis le ${formatDateDisplay(noticeData.status.date)})`}
+            </p>
           </div>
           <div>
             <h3 className="font-semibold">Date de Dépôt:</h3>{" "}
-            <p>{formatDateDisplay(noticeData.ApplicationDate)}</p>
+            <p>{formatDateDisplay(noticeData.applicationDate)}</p>
           </div>
           <div>
             <h3 className="font-semibold">Date d&apos;Enregistrement:</h3>{" "}
             {/* Escaped quote */}
-            <p>{formatDateDisplay(noticeData.RegistrationDate)}</p>
+            <p>{formatDateDisplay(noticeData.registrationDate)}</p>
           </div>
           <div>
             <h3 className="font-semibold">Date d&apos;Expiration:</h3>{" "}
             {/* Escaped quote */}
-            <p>{formatDateDisplay(noticeData.ExpiryDate)}</p>
+            <p>{formatDateDisplay(noticeData.expiryDate)}</p>
           </div>
 
           <div>
             <h3 className="font-semibold mb-1">Déposant(s):</h3>
-            {noticeData.ApplicantDetails?.Applicant ? (
-              Array.isArray(noticeData.ApplicantDetails.Applicant) ? (
-                noticeData.ApplicantDetails.Applicant.map(
-                  (
-                    app: Party,
-                    i: number // Use Party type
-                  ) => (
-                    <div key={`app-${i}`} className="ml-4 mb-2">
-                      {renderPartyDetails(app, "Applicant")}
-                    </div>
-                  )
-                )
-              ) : (
-                <div className="ml-4">
-                  {renderPartyDetails(
-                    noticeData.ApplicantDetails.Applicant as Party, // Type assertion
-                    "Applicant"
-                  )}
+            {noticeData.applicants.length > 0 ? (
+              noticeData.applicants.map((applicant, i) => (
+                <div key={`app-${i}`} className="ml-4 mb-2">
+                  {renderPartyDetails(applicant)}
                 </div>
-              )
+              ))
             ) : (
               <p className="ml-4">N/A</p>
             )}
           </div>
 
-          {noticeData.RepresentativeDetails?.Representative && (
+          {noticeData.representatives.length > 0 && (
             <div>
               <h3 className="font-semibold mb-1">Mandataire(s):</h3>
-              {Array.isArray(
-                noticeData.RepresentativeDetails.Representative
-              ) ? (
-                noticeData.RepresentativeDetails.Representative.map(
-                  (
-                    rep: Party,
-                    i: number // Use Party type
-                  ) => (
-                    <div key={`rep-${i}`} className="ml-4 mb-2">
-                      {renderPartyDetails(rep, "Representative")}
-                    </div>
-                  )
-                )
-              ) : (
-                <div className="ml-4">
-                  {renderPartyDetails(
-                    noticeData.RepresentativeDetails.Representative as Party, // Type assertion
-                    "Representative"
-                  )}
+              {noticeData.representatives.map((representative, i) => (
+                <div key={`rep-${i}`} className="ml-4 mb-2">
+                  {renderPartyDetails(representative)}
                 </div>
-              )}
+              ))}
             </div>
           )}
 
@@ -552,15 +270,22 @@ export default function TrademarkDetailPage() {
               Produits et services (Classification de Nice):
             </h3>
             <div className="text-sm ml-4">
-              {renderNiceClasses(
-                noticeData.GoodsServicesDetails?.GoodsServices
-              )}
+              {renderNiceClasses(noticeData.classes)}
             </div>
           </div>
 
-          <pre className="text-xs whitespace-pre-wrap bg-gray-100 p-2 rounded mt-4">
-            {JSON.stringify(noticeData, null, 2)}
-          </pre>
+          {noticeData.events.length > 0 && (
+            <div>
+              <h3 className="font-semibold mb-1">Historique:</h3>
+              <ul className="text-sm ml-4 space-y-1">
+                {noticeData.events.map((event, i) => (
+                  <li key={`event-${i}`}>
+                    {formatDateDisplay(event.date)} : {event.code}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </CardContent>
       </Card>
     );
@@ -0,0 +1,516 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Check, Play, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { NotificationChannelSummary } from "@/lib/notifications";
+import type { NiceLogic } from "@/lib/search-request";
+import type { WatchEvent, WatchQuery, WatchView } from "@/lib/watchlist";
+
+async function watchlistRequest<T>(
+  url: string,
+  init?: RequestInit
+): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json" },
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(
+      data.error || `Request failed (status: ${response.status})`
+    );
+  }
+  return data;
+}
+
+function formatDateTime(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleString("fr-FR") : "jamais";
+}
+
+function formatDateDisplay(isoDate: string | null): string {
+  if (!isoDate) return "N/A";
+  const [year, month, day] = isoDate.split("-");
+  return `${day}/${month}/${year}`;
+}
+
+function describeWatchQuery(query: WatchQuery): string {
+  const parts = [`« ${query.q} »`];
+  if (query.niceClasses.length > 0) {
+    parts.push(
+      `classes ${query.niceClasses.join(", ")}${
+        query.niceClasses.length > 1
+          ? query.niceLogic === "OR"
+            ? " (au moins une)"
+            : " (toutes)"
+          : ""
+      }`
+    );
+  }
+  if (query.origin) parts.push(`origine ${query.origin}`);
+  return parts.join(" · ");
+}
+
+const renderEvent = (event: WatchEvent, onSeen: () => void) => (
+  <li
+    key={event.id}
+    className={`flex items-start justify-between gap-4 border rounded-md p-3 ${
+      event.seen ? "opacity-60" : ""
+    }`}
+  >
+    <div className="text-sm space-y-1">
+      <p>
+        <span
+          className={`mr-2 rounded px-1.5 py-0.5 text-xs font-medium ${
+            event.kind === "newFiling"
+              ? "bg-blue-100 text-blue-800"
+              : "bg-amber-100 text-amber-800"
+          }`}
+        >
+          {event.kind === "newFiling"
+            ? "Nouvelle marque"
+            : "Changement de statut"}
+        </span>
+        <Link
+          href={`/trademarkDetails/${event.hit.id}`}
+          className="font-semibold hover:underline"
+        >
+          {event.hit.markName || "N/A"}
+        </Link>{" "}
+        <span className="text-gray-500">({event.hit.id})</span>
+      </p>
+      <p>
+        Statut :{" "}
+        {event.kind === "statusChange"
+          ? `${event.previousStatus || "N/A"} → ${event.hit.status || "N/A"}`
+          : event.hit.status || "N/A"}
+      </p>
+      <p className="text-gray-500">
+        Déposée le {formatDateDisplay(event.hit.applicationDate)}
+        {event.hit.applicants.length > 0 &&
+          ` par ${event.hit.applicants.join(", ")}`}
+        {event.hit.niceClasses.length > 0 &&
+          ` · classes ${event.hit.niceClasses.join(", ")}`}
+      </p>
+      <p className="text-xs text-gray-500">
+        Détectée le {formatDateTime(event.detectedAt)}
+      </p>
+    </div>
+    {!event.seen && (
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onSeen}
+        title="Marquer comme vu"
+      >
+        <Check className="w-4 h-4" />
+      </Button>
+    )}
+  </li>
+);
+
+const CHANNEL_TYPE_LABELS: Record<NotificationChannelSummary["type"], string> =
+  {
+    webhook: "webhook",
+    email: "e-mail",
+    slack: "Slack",
+  };
+
+function ChannelPicker({
+  idPrefix,
+  channels,
+  selected,
+  onToggle,
+  disabled,
+}: {
+  idPrefix: string;
+  channels: NotificationChannelSummary[];
+  selected: string[];
+  onToggle: (id: string) => void;
+  disabled?: boolean;
+}) {
+  if (channels.length === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+      <span>Notifier :</span>
+      {channels.map((channel) => (
+        <div key={channel.id} className="flex items-center space-x-2">
+          <Checkbox
+            id={`${idPrefix}-${channel.id}`}
+            checked={selected.includes(channel.id)}
+            onCheckedChange={() => onToggle(channel.id)}
+            disabled={disabled}
+          />
+          <Label htmlFor={`${idPrefix}-${channel.id}`}>
+            {channel.name}
+            <span className="ml-1 text-muted-foreground">
+              ({CHANNEL_TYPE_LABELS[channel.type]})
+            </span>
+          </Label>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const toggled = (ids: string[], id: string) =>
+  ids.includes(id) ? ids.filter((value) => value !== id) : [...ids, id];
+
+function WatchCard({
+  watch,
+  channels,
+}: {
+  watch: WatchView;
+  channels: NotificationChannelSummary[];
+}) {
+  const queryClient = useQueryClient();
+  const [showSeen, setShowSeen] = useState(false);
+  const onSuccess = () =>
+    queryClient.invalidateQueries({ queryKey: ["watchlists"] });
+
+  const runMutation = useMutation<WatchView, Error>({
+    mutationFn: () =>
+      watchlistRequest(`/api/watchlists/${watch.id}/run`, { method: "POST" }),
+    onSuccess,
+  });
+  const seenMutation = useMutation<WatchView, Error, true | string[]>({
+    mutationFn: (seen) =>
+      watchlistRequest(`/api/watchlists/${watch.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ seen }),
+      }),
+    onSuccess,
+  });
+  const channelsMutation = useMutation<WatchView, Error, string[]>({
+    mutationFn: (channelIds) =>
+      watchlistRequest(`/api/watchlists/${watch.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ channels: channelIds }),
+      }),
+    onSuccess,
+  });
+  const deleteMutation = useMutation<unknown, Error>({
+    mutationFn: () =>
+      watchlistRequest(`/api/watchlists/${watch.id}`, { method: "DELETE" }),
+    onSuccess,
+  });
+
+  const events = showSeen
+    ? watch.events
+    : watch.events.filter((event) => !event.seen);
+  const error =
+    runMutation.error ??
+    seenMutation.error ??
+    channelsMutation.error ??
+    deleteMutation.error ??
+    null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle>
+            {watch.name}
+            {watch.unseenCount > 0 && (
+              <span className="ml-2 rounded-full bg-red-500 px-2 py-0.5 text-xs text-white align-middle">
+                {watch.unseenCount}
+              </span>
+            )}
+          </CardTitle>
+          <p className="text-sm text-gray-500 mt-1">
+            {describeWatchQuery(watch.query)}
+          </p>
+          <p className="text-xs text-gray-500 mt-1">
+            Dernière exécution : {formatDateTime(watch.lastRunAt)} ·{" "}
+            {watch.markCount} marque(s) suivie(s)
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => runMutation.mutate()}
+            disabled={runMutation.isPending}
+            title="Relancer maintenant"
+          >
+            <Play className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => deleteMutation.mutate()}
+            disabled={deleteMutation.isPending}
+            title="Supprimer"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <ChannelPicker
+          idPrefix={`watch-${watch.id}-channel`}
+          channels={channels}
+          selected={watch.channels}
+          onToggle={(id) =>
+            channelsMutation.mutate(toggled(watch.channels, id))
+          }
+          disabled={channelsMutation.isPending}
+        />
+        {watch.lastError && (
+          <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded p-2">
+            La dernière exécution a échoué : {watch.lastError}
+          </p>
+        )}
+        {error && <p className="text-sm text-red-500">{error.message}</p>}
+        {watch.lastSuccessAt === null ? (
+          <p className="text-sm text-gray-500">
+            La première exécution enregistrera les marques existantes.
+          </p>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-gray-500">Aucune nouveauté.</p>
+        ) : (
+          <ul className="space-y-2">
+            {events.map((event) =>
+              renderEvent(event, () => seenMutation.mutate([event.id]))
+            )}
+          </ul>
+        )}
+        <div className="flex gap-2">
+          {watch.unseenCount > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => seenMutation.mutate(true)}
+              disabled={seenMutation.isPending}
+            >
+              <Check className="w-4 h-4 mr-2" />
+              Tout marquer comme vu
+            </Button>
+          )}
+          {watch.events.length > watch.unseenCount && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowSeen((value) => !value)}
+            >
+              {showSeen
+                ? "Masquer les éléments vus"
+                : "Afficher les éléments vus"}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function NewWatchForm({
+  channels,
+}: {
+  channels: NotificationChannelSummary[];
+}) {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [q, setQ] = useState("");
+  const [niceClasses, setNiceClasses] = useState("");
+  const [niceLogic, setNiceLogic] = useState<NiceLogic>("AND");
+  const [origin, setOrigin] = useState("");
+  // Null until changed: the default channels are preselected.
+  const [pickedChannels, setPickedChannels] = useState<string[] | null>(null);
+  const selectedChannels =
+    pickedChannels ??
+    channels.filter((channel) => channel.default).map(({ id }) => id);
+
+  const createMutation = useMutation<WatchView, Error>({
+    mutationFn: () =>
+      watchlistRequest("/api/watchlists", {
+        method: "POST",
+        body: JSON.stringify({
+          name,
+          q,
+          niceClasses,
+          niceLogic,
+          origin: origin || null,
+          channels: selectedChannels,
+        }),
+      }),
+    onSuccess: () => {
+      setName("");
+      setQ("");
+      setNiceClasses("");
+      queryClient.invalidateQueries({ queryKey: ["watchlists"] });
+    },
+  });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Nouvelle surveillance</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="watch-q">Recherche</Label>
+              <Input
+                id="watch-q"
+                value={q}
+                onChange={(e) => setQ(e.target.value)}
+                placeholder="Nom de marque"
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="watch-name">Nom (facultatif)</Label>
+              <Input
+                id="watch-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="watch-classes">Classes de Nice</Label>
+              <Input
+                id="watch-classes"
+                value={niceClasses}
+                onChange={(e) => setNiceClasses(e.target.value)}
+                placeholder="ex. 9, 42"
+              />
+            </div>
+            <div className="flex gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="watch-logic">Classes</Label>
+                <select
+                  id="watch-logic"
+                  value={niceLogic}
+                  onChange={(e) => setNiceLogic(e.target.value as NiceLogic)}
+                  className="h-9 rounded-md border px-2 text-sm"
+                >
+                  <option value="AND">Toutes</option>
+                  <option value="OR">Au moins une</option>
+                </select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="watch-origin">Origine</Label>
+                <select
+                  id="watch-origin"
+                  value={origin}
+                  onChange={(e) => setOrigin(e.target.value)}
+                  className="h-9 rounded-md border px-2 text-sm"
+                >
+                  <option value="">Toutes</option>
+                  {["FR", "EU", "WO"].map((value) => (
+                    <option key={value} value={value}>
+                      {value}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+          <ChannelPicker
+            idPrefix="watch-channel"
+            channels={channels}
+            selected={selectedChannels}
+            onToggle={(id) => setPickedChannels(toggled(selectedChannels, id))}
+          />
+          {createMutation.isError && (
+            <p className="text-sm text-red-500">
+              {createMutation.error.message}
+            </p>
+          )}
+          <Button
+            type="submit"
+            disabled={!q.trim() || createMutation.isPending}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            {createMutation.isPending ? "Enregistrement..." : "Surveiller"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function WatchlistsPage() {
+  const { data, isLoading, error, refetch, isFetching } = useQuery<
+    { watches: WatchView[] },
+    Error
+  >({
+    queryKey: ["watchlists"],
+    queryFn: () => watchlistRequest("/api/watchlists"),
+  });
+  const { data: channelData } = useQuery<
+    { channels: NotificationChannelSummary[] },
+    Error
+  >({
+    queryKey: ["notificationChannels"],
+    queryFn: () => watchlistRequest("/api/notification-channels"),
+  });
+  const channels = channelData?.channels ?? [];
+
+  // Watches with unseen events first, then the most recent.
+  const watches = [...(data?.watches ?? [])].sort(
+    (a, b) =>
+      Number(b.unseenCount > 0) - Number(a.unseenCount > 0) ||
+      b.createdAt.localeCompare(a.createdAt)
+  );
+
+  let content;
+  if (isLoading) {
+    content = [...Array(2)].map((_, i) => (
+      <Skeleton key={i} className="h-32 w-full" />
+    ));
+  } else if (error) {
+    content = (
+      <div className="text-red-500 text-center p-4 border rounded-md">
+        <p className="font-semibold">Error loading the watchlists</p>
+        <p className="text-sm mt-2">{error.message}</p>
+        <Button
+          variant="outline"
+          className="mt-4"
+          onClick={() => refetch()}
+          disabled={isFetching}
+        >
+          Try Again
+        </Button>
+      </div>
+    );
+  } else if (watches.length === 0) {
+    content = (
+      <p className="text-center p-4 text-gray-500">
+        Aucune surveillance enregistrée.
+      </p>
+    );
+  } else {
+    content = watches.map((watch) => (
+      <WatchCard key={watch.id} watch={watch} channels={channels} />
+    ));
+  }
+
+  return (
+    <main className="container mx-auto p-4 max-w-4xl space-y-6">
+      <Button variant="outline" asChild>
+        <Link href="/">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Search
+        </Link>
+      </Button>
+      <h1 className="text-3xl font-bold text-center">Watchlists</h1>
+      <NewWatchForm channels={channels} />
+      {content}
+    </main>
+  );
+}
@@ -0,0 +1,17 @@
+// src/instrumentation.ts
+
+/**
+ * Called once when the server starts. Starts the watchlist runs, unless
+ * `WATCHLIST_SCHEDULER=off`; they rely on Node APIs, so not in the edge runtime.
+ */
+export async function register() {
+  if (
+    process.env.NEXT_RUNTIME !== "nodejs" ||
+    process.env.WATCHLIST_SCHEDULER?.toLowerCase() === "off"
+  ) {
+    return;
+  }
+  const { getWatchlistStore } = await import("@/lib/watchlist-store");
+  const { scheduleWatchRuns } = await import("@/lib/watchlist-scheduler");
+  scheduleWatchRuns(getWatchlistStore());
+}
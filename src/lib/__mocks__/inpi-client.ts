@@ -1,5 +1,14 @@
 export const getAccessToken = jest.fn().mockResolvedValue("test_token");
+export const refreshAccessToken = jest.fn().mockResolvedValue("test_token");
+export const inpiRequest = jest.fn();
 export const logError = jest.fn();
+export const getInpiHealth = jest.fn().mockReturnValue({
+  state: "closed",
+  consecutiveFailures: 0,
+  openedAt: null,
+  retryAt: null,
+});
+export const errorCodeFor = jest.fn().mockReturnValue("INTERNAL_ERROR");
 export const client = {
   defaults: {
     jar: {},
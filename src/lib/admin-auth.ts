@@ -0,0 +1,43 @@
+// src/lib/admin-auth.ts
+
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+
+function tokenMatches(provided: string, expected: string): boolean {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Guards the admin routes with the `ADMIN_API_TOKEN` environment variable, sent as
+ * `Authorization: Bearer <token>`. Without a configured token the admin routes are disabled.
+ * @returns An error response to return as is, or null when the request is authorized.
+ */
+export function requireAdmin(request: Request): NextResponse | null {
+  const expected = process.env.ADMIN_API_TOKEN;
+  if (!expected) {
+    return NextResponse.json(
+      {
+        error: "The admin API is disabled. Set ADMIN_API_TOKEN to enable it.",
+        code: "ADMIN_DISABLED",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 403 }
+    );
+  }
+
+  const header = request.headers.get("authorization") ?? "";
+  const provided = header.replace(/^Bearer\s+/i, "");
+  if (!provided || !tokenMatches(provided, expected)) {
+    return NextResponse.json(
+      {
+        error: "A valid admin token is required.",
+        code: "UNAUTHORIZED",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 401, headers: { "WWW-Authenticate": "Bearer" } }
+    );
+  }
+  return null;
+}
@@ -0,0 +1,99 @@
+import {
+  AdvancedQueryClause,
+  formatAdvancedQueryClause,
+  MAX_ADVANCED_QUERY_CLAUSES,
+  parseAdvancedQuery,
+  toAdvancedSearch,
+} from "@/lib/advanced-query";
+
+describe("parseAdvancedQuery", () => {
+  it("reads the URL form and round-trips it, values included", () => {
+    const clauses = parseAdvancedQuery([
+      'and:mark:phrase:"cafe: la bila"',
+      "OR:goodsServices:wildcard: choco* ",
+    ]);
+
+    expect(clauses).toEqual([
+      {
+        operator: "AND",
+        field: "mark",
+        match: "phrase",
+        value: "cafe: la bila",
+      },
+      {
+        operator: "OR",
+        field: "goodsServices",
+        match: "wildcard",
+        value: "choco*",
+      },
+    ]);
+    expect(parseAdvancedQuery(clauses.map(formatAdvancedQueryClause))).toEqual(
+      clauses
+    );
+  });
+
+  it("drops invalid clauses and wildcards outside wildcard matches", () => {
+    expect(
+      parseAdvancedQuery([
+        "AND:owner:words:bila",
+        "XOR:mark:words:bila",
+        "AND:mark:fuzzy:bila",
+        "AND:mark:words:   ",
+        {
+          operator: "NOT",
+          field: "representative",
+          match: "words",
+          value: "cabinet*",
+        },
+        { operator: "AND", field: "mark", match: "words", value: 42 },
+      ])
+    ).toEqual([
+      {
+        operator: "NOT",
+        field: "representative",
+        match: "words",
+        value: "cabinet",
+      },
+    ]);
+  });
+
+  it("caps the number of clauses", () => {
+    const clauses = Array.from(
+      { length: 15 },
+      (_, i) => `OR:mark:words:bila${i}`
+    );
+    expect(parseAdvancedQuery(clauses)).toHaveLength(
+      MAX_ADVANCED_QUERY_CLAUSES
+    );
+  });
+});
+
+describe("toAdvancedSearch", () => {
+  it("groups clauses by operator and expands fields to index fields", () => {
+    const clauses: AdvancedQueryClause[] = [
+      {
+        operator: "AND",
+        field: "applicationNumber",
+        match: "words",
+        value: "FR1324250",
+      },
+      { operator: "OR", field: "mark", match: "wildcard", value: "bil?" },
+      { operator: "OR", field: "mark", match: "phrase", value: "la bila" },
+    ];
+
+    expect(toAdvancedSearch(clauses)).toEqual({
+      must: [
+        {
+          fields: ["applicationNumber", "applicationNumberWithCountryCode"],
+          type: "words",
+          value: "FR1324250",
+        },
+      ],
+      should: [
+        { fields: ["markWordElement"], type: "wildcard", value: "bil?" },
+        { fields: ["markWordElement"], type: "phrase", value: "la bila" },
+      ],
+    });
+    expect(toAdvancedSearch([])).toEqual({});
+  });
+});
@@ -0,0 +1,154 @@
+// src/lib/advanced-query.ts
+
+// Field-scoped boolean queries built on the search page's advanced mode. They travel as
+// clauses (in the URL, one `advancedQuery` parameter per clause) and are compiled into the
+// `advancedSearch` object of the data.inpi.fr payload. Safe to import from client code.
+
+/** Index fields searched for each field offered by the builder. */
+export const ADVANCED_QUERY_FIELDS = {
+  mark: ["markWordElement"],
+  applicant: ["applicantOrganizationName", "applicantLastName"],
+  representative: ["representativeOrganizationName", "representativeLastName"],
+  goodsServices: ["classDescriptionDetails.goodServiceDescription.text"],
+  applicationNumber: ["applicationNumber", "applicationNumberWithCountryCode"],
+} as const;
+
+export type AdvancedQueryField = keyof typeof ADVANCED_QUERY_FIELDS;
+
+/** AND: required. OR: at least one of the OR clauses is required. NOT: excluded. */
+export const ADVANCED_QUERY_OPERATORS = ["AND", "OR", "NOT"] as const;
+
+export type AdvancedQueryOperator = (typeof ADVANCED_QUERY_OPERATORS)[number];
+
+/** words: all the words, in any order. phrase: the exact phrase. wildcard: `*` and `?`. */
+export const ADVANCED_QUERY_MATCHES = ["words", "phrase", "wildcard"] as const;
+
+export type AdvancedQueryMatch = (typeof ADVANCED_QUERY_MATCHES)[number];
+
+export interface AdvancedQueryClause {
+  operator: AdvancedQueryOperator;
+  field: AdvancedQueryField;
+  match: AdvancedQueryMatch;
+  value: string;
+}
+
+/** Clauses beyond this are dropped, so that a URL cannot build an arbitrarily large query. */
+export const MAX_ADVANCED_QUERY_CLAUSES = 10;
+
+export interface InpiAdvancedSearchClause {
+  fields: readonly string[];
+  type: AdvancedQueryMatch;
+  value: string;
+}
+
+/** An inclusive date range on one index field, with day bounds in `time_zone`. */
+export interface InpiAdvancedSearchRange {
+  field: string;
+  gte?: string;
+  lte?: string;
+  format: "yyyy-MM-dd";
+  time_zone: string;
+}
+
+/** The `advancedSearch` payload field; `{}` when there is no advanced query. */
+export interface InpiAdvancedSearch {
+  must?: InpiAdvancedSearchClause[];
+  should?: InpiAdvancedSearchClause[];
+  mustNot?: InpiAdvancedSearchClause[];
+  /** Date ranges, added by the search service from the request's date filters. */
+  range?: InpiAdvancedSearchRange[];
+}
+
+function isOneOf<T extends string>(
+  values: readonly T[],
+  value: unknown
+): value is T {
+  return (
+    typeof value === "string" && (values as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * Trims and collapses spaces. Phrases lose their surrounding quotes, and only wildcard
+ * values keep `*` and `?`.
+ */
+function normalizeClauseValue(
+  match: AdvancedQueryMatch,
+  value: string
+): string {
+  let normalized = value.replace(/\s+/g, " ").trim();
+  if (match === "phrase") {
+    normalized = normalized.replace(/^"+|"+$/g, "").trim();
+  }
+  if (match !== "wildcard") {
+    normalized = normalized.replace(/[*?]/g, "").trim();
+  }
+  return normalized;
+}
+
+/** "AND:mark:phrase:cafe bila": operator, field and match, then the value. */
+export function formatAdvancedQueryClause(clause: AdvancedQueryClause): string {
+  return `${clause.operator}:${clause.field}:${clause.match}:${clause.value}`;
+}
+
+function parseClauseString(value: string): Partial<AdvancedQueryClause> {
+  const [operator, field, match, ...rest] = value.split(":");
+  return {
+    operator: operator?.trim().toUpperCase() as AdvancedQueryOperator,
+    field: field?.trim() as AdvancedQueryField,
+    match: match?.trim().toLowerCase() as AdvancedQueryMatch,
+    value: rest.join(":"),
+  };
+}
+
+/**
+ * Reads clauses from their URL form (a string or a list of strings) or from JSON objects.
+ * Unknown fields, operators or match types and empty values are dropped.
+ */
+export function parseAdvancedQuery(raw: unknown): AdvancedQueryClause[] {
+  if (!raw) return [];
+  const items: unknown[] = Array.isArray(raw) ? raw : [raw];
+  const clauses: AdvancedQueryClause[] = [];
+  for (const item of items) {
+    const candidate =
+      typeof item === "string"
+        ? parseClauseString(item)
+        : ((item ?? {}) as Partial<AdvancedQueryClause>);
+    const { operator, field, match } = candidate;
+    if (
+      !isOneOf(ADVANCED_QUERY_OPERATORS, operator) ||
+      !isOneOf(
+        Object.keys(ADVANCED_QUERY_FIELDS) as AdvancedQueryField[],
+        field
+      ) ||
+      !isOneOf(ADVANCED_QUERY_MATCHES, match) ||
+      typeof candidate.value !== "string"
+    ) {
+      continue;
+    }
+    const value = normalizeClauseValue(match, candidate.value);
+    if (value) clauses.push({ operator, field, match, value });
+  }
+  return clauses.slice(0, MAX_ADVANCED_QUERY_CLAUSES);
+}
+
+/**
+ * Compiles clauses into the payload's `advancedSearch`. INPI does not document this object and
+ * the recorded sessions only ever send `{}`, so the shape is kept to this module (the search
+ * service adds the date `range` clauses).
+ */
+export function toAdvancedSearch(
+  clauses: AdvancedQueryClause[]
+): InpiAdvancedSearch {
+  const advancedSearch: InpiAdvancedSearch = {};
+  const keys = { AND: "must", OR: "should", NOT: "mustNot" } as const;
+  for (const clause of clauses) {
+    const key = keys[clause.operator];
+    (advancedSearch[key] ??= []).push({
+      fields: ADVANCED_QUERY_FIELDS[clause.field],
+      type: clause.match,
+      value: clause.value,
+    });
+  }
+  return advancedSearch;
+}
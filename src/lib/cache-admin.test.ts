@@ -0,0 +1,61 @@
+import { InMemoryCacheService } from "@/lib/cache-service";
+import { invalidateApplication, invalidateByPrefix } from "@/lib/cache-admin";
+
+describe("cache administration", () => {
+  let cache: InMemoryCacheService;
+
+  beforeEach(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    cache = new InMemoryCacheService(60, 0);
+    await cache.set("notice:FR1324250", { value: "<TradeMark/>" });
+    await cache.set("notice:FR13242500", { value: "<TradeMark/>" });
+    await cache.set("image:FR1324250/thu", { value: "..." });
+    await cache.set("search:q=bila", {
+      value: {
+        result: {
+          hits: {
+            hits: [{ _source: { applicationNumberWithCountryCode: "FR1324250" } }],
+          },
+        },
+      },
+    });
+    await cache.set("search:q=tefal", { value: { result: { hits: { hits: [] } } } });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("invalidates by prefix", async () => {
+    const deleted = await invalidateByPrefix(cache, "search:");
+
+    expect(deleted.sort()).toEqual(["search:q=bila", "search:q=tefal"]);
+    expect(await cache.keys()).toHaveLength(3);
+  });
+
+  it("invalidates every entry about one application", async () => {
+    const deleted = await invalidateApplication(cache, "fr1324250");
+
+    expect(deleted.sort()).toEqual([
+      "image:FR1324250/thu",
+      "notice:FR1324250",
+      "search:q=bila",
+    ]);
+    expect((await cache.keys()).sort()).toEqual([
+      "notice:FR13242500",
+      "search:q=tefal",
+    ]);
+  });
+
+  it("leaves the hit/miss stats unchanged", async () => {
+    await cache.get("notice:FR1324250");
+    const before = await cache.getStats();
+
+    await invalidateApplication(cache, "FR1324250");
+
+    expect(await cache.getStats()).toMatchObject({
+      hits: before.hits,
+      misses: before.misses,
+    });
+  });
+});
@@ -0,0 +1,56 @@
+// src/lib/cache-admin.ts
+
+import { ICacheService } from "@/lib/cache-service";
+
+/**
+ * Deletes every key starting with `prefix`.
+ * @returns The deleted keys.
+ */
+export async function invalidateByPrefix(
+  cache: ICacheService,
+  prefix: string
+): Promise<string[]> {
+  const keys = await cache.keys(prefix);
+  await Promise.all(keys.map((key) => cache.del(key)));
+  console.log(
+    `[CACHE_ADMIN] Invalidated ${keys.length} entries with prefix "${prefix}".`
+  );
+  return keys;
+}
+
+/**
+ * Deletes everything cached about one trademark: entries keyed by its application number
+ * (notices, images...) and cached searches whose results mention it.
+ * @param applicationNumber With or without country code, e.g. "FR1324250" or "1324250".
+ * @returns The deleted keys.
+ */
+export async function invalidateApplication(
+  cache: ICacheService,
+  applicationNumber: string
+): Promise<string[]> {
+  const number = applicationNumber.trim().toUpperCase();
+  const bareNumber = number.replace(/^[A-Z]{2}(?=\d)/, "");
+  const keyPattern = new RegExp(
+    `:(?:[A-Z]{2})?${bareNumber.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?:$|[:/])`,
+    "i"
+  );
+
+  const deleted: string[] = [];
+  for (const key of await cache.keys()) {
+    let matches = keyPattern.test(key);
+    if (!matches && key.startsWith("search:")) {
+      // Search keys hold the query, not the marks, so look inside the cached results. Peek,
+      // so that this sweep does not show up in the hit/miss stats.
+      const entry = await cache.peek(key);
+      matches = JSON.stringify(entry ?? "").toUpperCase().includes(`"${number}"`);
+    }
+    if (matches) {
+      await cache.del(key);
+      deleted.push(key);
+    }
+  }
+  console.log(
+    `[CACHE_ADMIN] Invalidated ${deleted.length} entries for application ${number}.`
+  );
+  return deleted;
+}
@@ -0,0 +1,223 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import {
+  ICacheService,
+  InMemoryCacheService,
+  createCacheService,
+  ensureWeeklyFlush,
+  getCacheConfig,
+  getCacheTtl,
+} from "@/lib/cache-service";
+import { FileCacheService } from "@/lib/file-cache-service";
+import { RedisCacheService } from "@/lib/redis-cache-service";
+
+// Shared contract every backend must satisfy.
+function describeBackend(
+  name: string,
+  create: () => Promise<ICacheService>,
+  cleanup: (cache: ICacheService) => Promise<void> = async () => {}
+) {
+  describe(name, () => {
+    let cache: ICacheService;
+
+    beforeEach(async () => {
+      jest.spyOn(console, "log").mockImplementation(() => {});
+      cache = await create();
+      await cache.flushAll();
+    });
+
+    afterEach(async () => {
+      await cleanup(cache);
+      jest.restoreAllMocks();
+    });
+
+    it("stores, reads and deletes JSON values", async () => {
+      await cache.set("search:q=bila", { total: 232, hits: ["FR1324250"] });
+
+      expect(await cache.has("search:q=bila")).toBe(true);
+      expect(await cache.get("search:q=bila")).toEqual({
+        total: 232,
+        hits: ["FR1324250"],
+      });
+
+      await cache.del("search:q=bila");
+      expect(await cache.has("search:q=bila")).toBe(false);
+      expect(await cache.get("search:q=bila")).toBeUndefined();
+    });
+
+    it("expires entries after their TTL", async () => {
+      jest.useFakeTimers({ now: Date.now(), doNotFake: ["nextTick", "setImmediate"] });
+      try {
+        await cache.set("short", "value", 1);
+        expect(await cache.get("short")).toBe("value");
+        jest.setSystemTime(Date.now() + 1500);
+        // Redis expires on its own clock, so only the local backends are checked here.
+        if (!(cache instanceof RedisCacheService)) {
+          expect(await cache.get("short")).toBeUndefined();
+        }
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it("lists keys by prefix and counts hits and misses", async () => {
+      await cache.set("search:q=bila", 1);
+      await cache.set("search:q=tefal", 2);
+      await cache.set("notice:FR1324250", 3);
+      await cache.get("search:q=bila");
+      await cache.get("search:q=missing");
+
+      expect((await cache.keys("search:")).sort()).toEqual([
+        "search:q=bila",
+        "search:q=tefal",
+      ]);
+      expect(await cache.getStats()).toMatchObject({ hits: 1, misses: 1, keys: 3 });
+    });
+
+    it("peeks at entries without counting hits or misses", async () => {
+      await cache.set("search:q=bila", 1);
+
+      expect(await cache.peek("search:q=bila")).toBe(1);
+      expect(await cache.peek("search:q=missing")).toBeUndefined();
+      expect(await cache.getStats()).toMatchObject({ hits: 0, misses: 0 });
+    });
+
+    it("flushes every entry", async () => {
+      await cache.set("a", 1);
+      await cache.set("b", 2, 0);
+      await cache.flushAll();
+      expect(await cache.has("a")).toBe(false);
+      expect(await cache.has("b")).toBe(false);
+    });
+  });
+}
+
+describeBackend("InMemoryCacheService", async () => new InMemoryCacheService(60, 0));
+
+describeBackend(
+  "FileCacheService",
+  async () =>
+    new FileCacheService(
+      await fs.mkdtemp(path.join(os.tmpdir(), "file-cache-test-")),
+      60
+    )
+);
+
+// Runs against a real server only when one is configured, e.g.
+// REDIS_URL=redis://127.0.0.1:6379 npx jest cache-service
+const redisUrl = process.env.REDIS_URL;
+if (redisUrl) {
+  describeBackend(
+    "RedisCacheService",
+    async () =>
+      new RedisCacheService(redisUrl, `trademark-search-test-${process.pid}:`, 60),
+    async (cache) => (cache as RedisCacheService).disconnect()
+  );
+} else {
+  describe.skip("RedisCacheService (set REDIS_URL to run)", () => {
+    it("needs a redis-server", () => {});
+  });
+}
+
+describe("FileCacheService persistence", () => {
+  it("shares entries between instances using the same directory", async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "file-cache-test-"));
+
+    await new FileCacheService(directory).set("notice:FR1324250", "<TradeMark/>");
+    expect(await new FileCacheService(directory).get("notice:FR1324250")).toBe(
+      "<TradeMark/>"
+    );
+    jest.restoreAllMocks();
+  });
+});
+
+describe("ensureWeeklyFlush", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("flushes once per Friday and keeps its marker", async () => {
+    const cache = new InMemoryCacheService(60, 0);
+    const friday = new Date("2026-10-16T08:00:00Z");
+
+    await cache.set("search:q=bila", "stale");
+    await ensureWeeklyFlush(cache, friday);
+    expect(await cache.get("search:q=bila")).toBeUndefined();
+
+    await cache.set("search:q=bila", "fresh");
+    await ensureWeeklyFlush(cache, new Date("2026-10-16T18:00:00Z"));
+    expect(await cache.get("search:q=bila")).toBe("fresh");
+  });
+
+  it("follows the configured day and hour in Paris time", async () => {
+    const cache = new InMemoryCacheService(60, 0);
+    const schedule = { dayOfWeek: 3, hour: 8 }; // Wednesday, 08:00 Paris
+
+    await cache.set("search:q=bila", "value");
+    // 06:30 UTC is 08:30 in Paris during summer time, but still 07:30 in winter.
+    expect(
+      await ensureWeeklyFlush(cache, new Date("2026-12-02T06:30:00Z"), schedule)
+    ).toBe(false);
+    expect(
+      await ensureWeeklyFlush(cache, new Date("2026-10-14T06:30:00Z"), schedule)
+    ).toBe(true);
+    expect(await cache.get("search:q=bila")).toBeUndefined();
+  });
+
+  it("leaves the cache alone on other days", async () => {
+    const cache = new InMemoryCacheService(60, 0);
+    await cache.set("search:q=bila", "value");
+    await ensureWeeklyFlush(cache, new Date("2026-10-15T08:00:00Z"));
+    expect(await cache.get("search:q=bila")).toBe("value");
+  });
+});
+
+describe("cache configuration", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it("defaults to the in-memory backend", () => {
+    delete process.env.CACHE_BACKEND;
+    const config = getCacheConfig();
+    expect(config.backend).toBe("memory");
+    expect(config.defaultTtlSeconds).toBe(597600);
+  });
+
+  it("selects the backend and TTLs from the environment", () => {
+    process.env.CACHE_BACKEND = "file";
+    process.env.CACHE_DIR = path.join(os.tmpdir(), "configured-cache");
+    process.env.CACHE_DEFAULT_TTL_SECONDS = "120";
+    process.env.CACHE_TTL_SEARCH_SECONDS = "30";
+
+    expect(createCacheService(getCacheConfig())).toBeInstanceOf(FileCacheService);
+    expect(getCacheTtl("search")).toBe(30);
+    expect(getCacheTtl("notice")).toBe(120);
+  });
+
+  it("reads the weekly flush day by name or number", () => {
+    process.env.CACHE_FLUSH_DAY = "Thursday";
+    process.env.CACHE_FLUSH_HOUR = "6";
+    expect(getCacheConfig().flushSchedule).toEqual({ dayOfWeek: 4, hour: 6 });
+
+    process.env.CACHE_FLUSH_DAY = "2";
+    expect(getCacheConfig().flushSchedule.dayOfWeek).toBe(2);
+
+    delete process.env.CACHE_FLUSH_DAY;
+    expect(getCacheConfig().flushSchedule.dayOfWeek).toBe(5);
+  });
+});
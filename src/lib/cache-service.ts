@@ -1,9 +1,15 @@
 // src/lib/cache-service.ts
 
+import os from "os";
+import path from "path";
+import NodeCache from "node-cache";
+import { FileCacheService } from "./file-cache-service";
+import { RedisCacheService } from "./redis-cache-service";
+
 /**
  * Interface for a generic cache service.
- * This allows for different cache implementations (e.g., in-memory, Redis)
- * to be used interchangeably.
+ * This allows for different cache implementations (e.g., in-memory, filesystem, Redis)
+ * to be used interchangeably. All methods are async so that out-of-process backends fit.
  */
 export interface ICacheService {
   /**
@@ -11,42 +17,72 @@ export interface ICacheService {
    * @param key The cache key.
    * @returns The cached item, or undefined if the item does not exist or is expired.
    */
-  get<T>(key: string): T | undefined;
+  get<T>(key: string): Promise<T | undefined>;
+
+  /**
+   * Reads an item like `get`, without counting a hit or a miss. For administrative reads
+   * that should not skew the stats.
+   * @param key The cache key.
+   */
+  peek<T>(key: string): Promise<T | undefined>;
 
   /**
    * Adds or updates an item in the cache with a specific Time To Live (TTL).
    * @param key The cache key.
-   * @param value The value to cache.
-   * @param ttlSeconds The TTL for this item in seconds.
+   * @param value The value to cache. Must be JSON-serializable.
+   * @param ttlSeconds The TTL for this item in seconds. Omit for the backend's default TTL,
+   * pass 0 for an entry that never expires.
    */
-  set<T>(key: string, value: T, ttlSeconds: number): void;
+  set<T>(key: string, value: T, ttlSeconds?: number): Promise<void>;
 
   /**
    * Deletes an item from the cache.
    * @param key The cache key.
    */
-  del(key: string): void;
+  del(key: string): Promise<void>;
 
   /**
    * Checks if an item exists in the cache (and is not expired).
    * @param key The cache key.
    * @returns True if the item exists, false otherwise.
    */
-  has(key: string): boolean;
+  has(key: string): Promise<boolean>;
 
   /**
    * Flushes all items from the cache.
    */
-  flushAll(): void;
+  flushAll(): Promise<void>;
+
+  /**
+   * Lists the keys currently stored.
+   * @param prefix Only return keys starting with this prefix.
+   */
+  keys(prefix?: string): Promise<string[]>;
+
+  /**
+   * Returns hit/miss counters and the number of stored keys.
+   */
+  getStats(): Promise<CacheStats>;
 }
 
-// --- In-Memory Cache Implementation using node-cache ---
+export type CacheBackend = "memory" | "file" | "redis";
 
-import NodeCache from "node-cache";
+export interface CacheStats {
+  backend: CacheBackend;
+  /** Reads that found a live entry, since startup or the last flush. */
+  hits: number;
+  /** Reads that found nothing, since startup or the last flush. */
+  misses: number;
+  keys: number;
+}
 
-class InMemoryCacheService implements ICacheService {
+// --- In-Memory Cache Implementation using node-cache ---
+
+export class InMemoryCacheService implements ICacheService {
   private cache: NodeCache;
-  private lastGlobalFlushIsoWeekDate: string | null = null; // Stores 'YYYY-Www-D' e.g. '2023-W40-5' for Friday
+  // Counted here rather than by node-cache, whose own counters every read bumps.
+  private hits = 0;
+  private misses = 0;
 
   constructor(ttlSeconds: number = 3600, checkperiodSeconds: number = 600) {
     this.cache = new NodeCache({
@@ -55,64 +91,22 @@ class InMemoryCacheService implements ICacheService {
       useClones: false, // For performance, as we're storing JSON-serializable data
     });
     console.log(
-      `InMemoryCacheService initialized with stdTTL: ${ttlSeconds}s, checkperiod: ${checkperiodSeconds}s. Checking for initial flush.`
-    );
-    this.ensureWeeklyFlush(); // Check on initialization
-  }
-
-  // Helper to get ISO week date string: YYYY-Www-D (e.g., 2023-W40-5 for Friday)
-  // This helps ensure the flush happens only once per designated day in a given week.
-  private getIsoWeekDateString(date: Date): string {
-    const year = date.getUTCFullYear();
-    // Calculate ISO week number
-    const d = new Date(Date.UTC(year, date.getUTCMonth(), date.getUTCDate()));
-    const dayNum = d.getUTCDay() || 7; // Get day number (0=Sunday, 1=Monday,..., 6=Saturday), make Sunday 7
-    d.setUTCDate(d.getUTCDate() + 4 - dayNum); // Set to nearest Thursday
-    const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
-    const weekNo = Math.ceil(
-      ((d.getTime() - yearStart.getTime()) / 86400000 + 1) / 7
+      `InMemoryCacheService initialized with stdTTL: ${ttlSeconds}s, checkperiod: ${checkperiodSeconds}s.`
     );
-    const dayOfWeek = date.getUTCDay() || 7; // 1 (Mon) - 7 (Sun), making Friday 5
-    return `${year}-W${String(weekNo).padStart(2, "0")}-${dayOfWeek}`;
   }
 
-  private ensureWeeklyFlush(): void {
-    const now = new Date();
-    const currentIsoWeekDate = this.getIsoWeekDateString(now); // e.g., "2023-W40-5" for a Friday
-    const currentDayOfWeek = now.getUTCDay(); // 0 (Sun) - 6 (Sat), so Friday is 5
-
-    // Target: Flush on Friday (day 5)
-    const FLUSH_DAY_OF_WEEK = 5; // 5 for Friday
-
-    if (currentDayOfWeek === FLUSH_DAY_OF_WEEK) {
-      if (this.lastGlobalFlushIsoWeekDate !== currentIsoWeekDate) {
-        console.log(
-          `[CACHE_SERVICE] It's Friday (${currentIsoWeekDate}). Flushing all cache entries.`
-        );
-        this.cache.flushAll();
-        this.lastGlobalFlushIsoWeekDate = currentIsoWeekDate; // Mark that flush for this specific Friday has occurred
-        console.log(
-          `[CACHE_SERVICE] Cache flushed. Next flush scheduled for next Friday. Last flush marked for: ${this.lastGlobalFlushIsoWeekDate}`
-        );
-      } else {
-        // console.log(`[CACHE_SERVICE] It's Friday, but cache has already been flushed this week on ${this.lastGlobalFlushIsoWeekDate}.`);
-      }
-    } else {
-      // console.log(`[CACHE_SERVICE] Not Friday. Current ISO week date: ${currentIsoWeekDate}. Last flush was on ${this.lastGlobalFlushIsoWeekDate || 'never'}.`);
-      // If it's no longer Friday, but the last flush was for a *previous* week's Friday,
-      // we should reset lastGlobalFlushIsoWeekDate if the week number has changed,
-      // ensuring that if the server restarts on a Thursday, it knows it missed the previous Friday's flush window
-      // and is ready for the upcoming one.
-      // However, a simpler approach is that it will just correctly flush on the *next* actual Friday it encounters.
-      // The current check `this.lastGlobalFlushIsoWeekDate !== currentIsoWeekDate` on Friday itself is sufficient.
-    }
+  async get<T>(key: string): Promise<T | undefined> {
+    const value = this.cache.get<T>(key);
+    if (value !== undefined) this.hits++;
+    else this.misses++;
+    return value;
   }
 
-  get<T>(key: string): T | undefined {
+  async peek<T>(key: string): Promise<T | undefined> {
     return this.cache.get<T>(key);
   }
 
-  set<T>(key: string, value: T, ttlSeconds?: number): void {
+  async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
     if (ttlSeconds !== undefined) {
       this.cache.set(key, value, ttlSeconds);
     } else {
@@ -120,28 +114,140 @@ class InMemoryCacheService implements ICacheService {
     }
   }
 
-  del(key: string): void {
+  async del(key: string): Promise<void> {
     this.cache.del(key);
   }
 
-  has(key: string): boolean {
+  async has(key: string): Promise<boolean> {
     return this.cache.has(key);
   }
 
-  flushAll(): void {
+  async flushAll(): Promise<void> {
     this.cache.flushAll();
+    this.hits = 0;
+    this.misses = 0;
     console.log("InMemoryCacheService: All items flushed from cache.");
   }
 
-  // Optional: Method to get cache stats for debugging/monitoring
-  getStats() {
-    return this.cache.getStats();
+  async keys(prefix: string = ""): Promise<string[]> {
+    return this.cache.keys().filter((key) => key.startsWith(prefix));
+  }
+
+  async getStats(): Promise<CacheStats> {
+    return {
+      backend: "memory",
+      hits: this.hits,
+      misses: this.misses,
+      keys: this.cache.keys().length,
+    };
   }
 }
 
-// --- Singleton Instance ---
+// --- Weekly flush ---
+// INPI publishes the BOPI once a week, so the whole cache is dropped once per publication day.
+// The marker lives in the cache itself so that persistent backends remember it across restarts.
+
+const WEEKLY_FLUSH_MARKER_KEY = "__cache_meta:lastWeeklyFlush";
+
+export interface WeeklyFlushSchedule {
+  /** Day of the week in Europe/Paris, 0 (Sunday) to 6 (Saturday). */
+  dayOfWeek: number;
+  /** Hour in Europe/Paris from which the flush may run on that day. */
+  hour: number;
+}
+
+// BOPI issues come out on Fridays.
+const DEFAULT_FLUSH_SCHEDULE: WeeklyFlushSchedule = { dayOfWeek: 5, hour: 0 };
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const parisClockFormatter = new Intl.DateTimeFormat("en-US", {
+  timeZone: "Europe/Paris",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  weekday: "short",
+  hour: "2-digit",
+  hourCycle: "h23",
+});
+
+function getParisClock(date: Date) {
+  const parts = Object.fromEntries(
+    parisClockFormatter.formatToParts(date).map((part) => [part.type, part.value])
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    dayOfWeek: WEEKDAYS.indexOf(parts.weekday),
+    hour: Number(parts.hour),
+  };
+}
+
+/**
+ * Flushes the cache if it is the scheduled publication day in Paris and it has not been flushed
+ * yet that day. Safe to call as often as needed.
+ * @returns Whether a flush happened.
+ */
+export async function ensureWeeklyFlush(
+  cache: ICacheService,
+  now: Date = new Date(),
+  schedule: WeeklyFlushSchedule = DEFAULT_FLUSH_SCHEDULE
+): Promise<boolean> {
+  const paris = getParisClock(now);
+  if (paris.dayOfWeek !== schedule.dayOfWeek || paris.hour < schedule.hour) {
+    return false;
+  }
+
+  const lastFlush = await cache.peek<string>(WEEKLY_FLUSH_MARKER_KEY);
+  if (lastFlush === paris.date) return false;
+
+  console.log(
+    `[CACHE_SERVICE] Publication day (${paris.date}, Europe/Paris). Flushing all cache entries.`
+  );
+  await cache.flushAll();
+  // Mark that flush for this specific publication day has occurred
+  await cache.set(WEEKLY_FLUSH_MARKER_KEY, paris.date, 0);
+  return true;
+}
+
+/**
+ * When the weekly flush last ran (a Europe/Paris date), if known.
+ */
+export async function getLastWeeklyFlush(
+  cache: ICacheService
+): Promise<string | undefined> {
+  return cache.peek<string>(WEEKLY_FLUSH_MARKER_KEY);
+}
+
+// --- HMR-safe global timer for the weekly flush ---
+const globalWithFlushTimer = globalThis as typeof globalThis & {
+  cacheFlushTimer?: ReturnType<typeof setInterval>;
+};
+
+/**
+ * Checks the weekly flush now and then every `checkIntervalSeconds`, so a long-running server
+ * flushes on the publication day without waiting for a restart.
+ */
+export function scheduleWeeklyFlush(
+  cache: ICacheService,
+  schedule: WeeklyFlushSchedule,
+  checkIntervalSeconds: number
+) {
+  const check = () =>
+    ensureWeeklyFlush(cache, new Date(), schedule).catch((error) =>
+      console.error("[CACHE_SERVICE] Weekly flush check failed:", error)
+    );
+
+  if (globalWithFlushTimer.cacheFlushTimer) {
+    clearInterval(globalWithFlushTimer.cacheFlushTimer);
+  }
+  check();
+  globalWithFlushTimer.cacheFlushTimer = setInterval(check, checkIntervalSeconds * 1000);
+  // The schedule alone should not keep scripts and tests alive.
+  globalWithFlushTimer.cacheFlushTimer.unref?.();
+}
+
+// --- Configuration ---
 
-// Configure TTLs here (in seconds)
 // Set to just under 7 days (6 days, 22 hours) to align with weekly Friday updates.
 // 6 days * 24 hours/day * 60 minutes/hour * 60 seconds/minute = 518400 seconds
 // 22 hours * 60 minutes/hour * 60 seconds/minute = 79200 seconds
@@ -149,20 +255,121 @@ class InMemoryCacheService implements ICacheService {
 const DEFAULT_TTL_SECONDS = 597600; // 6 days and 22 hours
 const CHECK_PERIOD_SECONDS = 1 * 60 * 60; // Check for expired items every 1 hour (can be less frequent with long TTLs)
 
-let instance: InMemoryCacheService | null = null;
+export interface CacheConfig {
+  backend: CacheBackend;
+  defaultTtlSeconds: number;
+  checkPeriodSeconds: number;
+  fileDirectory: string;
+  redisUrl: string;
+  redisKeyPrefix: string;
+  flushSchedule: WeeklyFlushSchedule;
+  flushCheckIntervalSeconds: number;
+}
 
-export function getCacheService(): InMemoryCacheService {
-  if (!instance) {
-    instance = new InMemoryCacheService(
-      DEFAULT_TTL_SECONDS,
+function readFlushDay(value: string | undefined): number {
+  if (!value) return DEFAULT_FLUSH_SCHEDULE.dayOfWeek;
+  const byName = WEEKDAYS.findIndex(
+    (day) => day.toLowerCase() === value.trim().slice(0, 3).toLowerCase()
+  );
+  if (byName !== -1) return byName;
+  const byNumber = Number(value);
+  return Number.isInteger(byNumber) && byNumber >= 0 && byNumber <= 6
+    ? byNumber
+    : DEFAULT_FLUSH_SCHEDULE.dayOfWeek;
+}
+
+function readNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && value !== "" && !isNaN(parsed) ? parsed : fallback;
+}
+
+/**
+ * Reads the cache configuration from the environment:
+ * - `CACHE_BACKEND`: `memory` (default), `file` or `redis`.
+ * - `CACHE_DEFAULT_TTL_SECONDS`, `CACHE_CHECK_PERIOD_SECONDS`.
+ * - `CACHE_DIR`: directory for the `file` backend.
+ * - `REDIS_URL`, `CACHE_KEY_PREFIX`: connection and key namespace for the `redis` backend.
+ * - `CACHE_FLUSH_DAY` (e.g. `friday` or `5`), `CACHE_FLUSH_HOUR`: when the weekly flush runs,
+ *   in Europe/Paris time. `CACHE_FLUSH_CHECK_INTERVAL_SECONDS`: how often it is checked.
+ */
+export function getCacheConfig(): CacheConfig {
+  const backend = process.env.CACHE_BACKEND?.toLowerCase();
+  return {
+    backend: backend === "file" || backend === "redis" ? backend : "memory",
+    defaultTtlSeconds: readNumber(
+      process.env.CACHE_DEFAULT_TTL_SECONDS,
+      DEFAULT_TTL_SECONDS
+    ),
+    checkPeriodSeconds: readNumber(
+      process.env.CACHE_CHECK_PERIOD_SECONDS,
       CHECK_PERIOD_SECONDS
+    ),
+    fileDirectory:
+      process.env.CACHE_DIR || path.join(os.tmpdir(), "trademark-search-cache"),
+    redisUrl: process.env.REDIS_URL || "redis://127.0.0.1:6379",
+    redisKeyPrefix: process.env.CACHE_KEY_PREFIX ?? "trademark-search:",
+    flushSchedule: {
+      dayOfWeek: readFlushDay(process.env.CACHE_FLUSH_DAY),
+      hour: readNumber(process.env.CACHE_FLUSH_HOUR, DEFAULT_FLUSH_SCHEDULE.hour),
+    },
+    flushCheckIntervalSeconds: readNumber(
+      process.env.CACHE_FLUSH_CHECK_INTERVAL_SECONDS,
+      10 * 60
+    ),
+  };
+}
+
+export type CacheEntryKind = "search" | "notice" | "image";
+
+/**
+ * TTL for a kind of entry, overridable with `CACHE_TTL_<KIND>_SECONDS`
+ * (e.g. `CACHE_TTL_SEARCH_SECONDS`). Falls back to the default TTL.
+ */
+export function getCacheTtl(kind: CacheEntryKind): number {
+  return readNumber(
+    process.env[`CACHE_TTL_${kind.toUpperCase()}_SECONDS`],
+    getCacheConfig().defaultTtlSeconds
+  );
+}
+
+export function createCacheService(config: CacheConfig): ICacheService {
+  switch (config.backend) {
+    case "file":
+      return new FileCacheService(config.fileDirectory, config.defaultTtlSeconds);
+    case "redis":
+      return new RedisCacheService(
+        config.redisUrl,
+        config.redisKeyPrefix,
+        config.defaultTtlSeconds
+      );
+    default:
+      return new InMemoryCacheService(
+        config.defaultTtlSeconds,
+        config.checkPeriodSeconds
+      );
+  }
+}
+
+// --- Singleton Instance ---
+
+let instance: ICacheService | null = null;
+
+export function getCacheService(): ICacheService {
+  if (!instance) {
+    const config = getCacheConfig();
+    instance = createCacheService(config);
+    console.log(`[CACHE_SERVICE] Using the ${config.backend} cache backend.`);
+    scheduleWeeklyFlush(
+      instance,
+      config.flushSchedule,
+      config.flushCheckIntervalSeconds
     );
   }
   return instance;
 }
 
 // Example of how to use:
-// import { getCacheService } from './cache-service';
+// import { getCacheService, getCacheTtl } from './cache-service';
 // const cache = getCacheService();
-// cache.set('myKey', { data: 'some data' }, 60); // Cache for 60 seconds
-// const myData = cache.get<{ data: string }>('myKey');
+// await cache.set('myKey', { data: 'some data' }, getCacheTtl('search'));
+// const myData = await cache.get<{ data: string }>('myKey');
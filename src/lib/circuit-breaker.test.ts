@@ -0,0 +1,76 @@
+import { createCircuitBreaker } from "@/lib/circuit-breaker";
+
+describe("createCircuitBreaker", () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("opens after the failure threshold and fails fast during the cooldown", () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 3, cooldownMs: 1000, now: clock });
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.allowRequest()).toBe(true);
+    breaker.recordFailure();
+
+    expect(breaker.getStatus()).toMatchObject({ state: "open", retryAt: now + 1000 });
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it("resets the failure count on success", () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 2, cooldownMs: 1000, now: clock });
+
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.getStatus().state).toBe("closed");
+  });
+
+  it("lets a single probe through after the cooldown", () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1, cooldownMs: 1000, now: clock });
+    breaker.recordFailure();
+
+    now += 1000;
+    expect(breaker.getStatus().state).toBe("half-open");
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.getStatus().state).toBe("closed");
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  it("frees the probe slot of a request that was never sent", () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1, cooldownMs: 1000, now: clock });
+    breaker.recordFailure();
+
+    now += 1000;
+    expect(breaker.allowRequest()).toBe(true);
+    breaker.releaseRequest();
+
+    expect(breaker.getStatus().state).toBe("half-open");
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  it("re-opens when the probe fails", () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 5, cooldownMs: 1000, now: clock });
+    for (let i = 0; i < 5; i++) breaker.recordFailure();
+
+    now += 1000;
+    expect(breaker.allowRequest()).toBe(true);
+    breaker.recordFailure();
+
+    expect(breaker.getStatus()).toMatchObject({ state: "open", retryAt: now + 1000 });
+    expect(breaker.allowRequest()).toBe(false);
+  });
+});
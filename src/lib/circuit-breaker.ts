@@ -0,0 +1,98 @@
+// src/lib/circuit-breaker.ts
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit. */
+  failureThreshold: number;
+  /** How long the circuit stays open before a single probe request is let through. */
+  cooldownMs: number;
+  /** Clock, injectable for tests. */
+  now?: () => number;
+}
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  /** When an open circuit lets the next probe through. */
+  retryAt: number | null;
+}
+
+export interface CircuitBreaker {
+  /**
+   * Whether a request may be sent now. Once the cooldown has elapsed, exactly one caller gets
+   * `true` (the probe) until its outcome is recorded.
+   */
+  allowRequest(): boolean;
+  recordSuccess(): void;
+  recordFailure(): void;
+  /**
+   * Ends a request that never reached upstream, e.g. one refused by the local rate limiter.
+   * The state is unchanged; a half-open circuit lets its next probe through.
+   */
+  releaseRequest(): void;
+  getStatus(): CircuitBreakerStatus;
+}
+
+/**
+ * Creates a circuit breaker that opens after `failureThreshold` consecutive failures, fails
+ * fast for `cooldownMs`, then lets one probe through: success closes it, failure re-opens it.
+ */
+export function createCircuitBreaker(options: CircuitBreakerOptions): CircuitBreaker {
+  const now = options.now ?? Date.now;
+  let consecutiveFailures = 0;
+  let openedAt: number | null = null;
+  let probeInFlight = false;
+
+  const currentState = (): CircuitState => {
+    if (openedAt === null) return "closed";
+    return now() - openedAt >= options.cooldownMs ? "half-open" : "open";
+  };
+
+  return {
+    allowRequest() {
+      const state = currentState();
+      if (state === "closed") return true;
+      if (state === "open" || probeInFlight) return false;
+      probeInFlight = true;
+      return true;
+    },
+
+    recordSuccess() {
+      if (openedAt !== null) {
+        console.log("[CIRCUIT_BREAKER] Upstream recovered; closing the circuit.");
+      }
+      consecutiveFailures = 0;
+      openedAt = null;
+      probeInFlight = false;
+    },
+
+    recordFailure() {
+      consecutiveFailures += 1;
+      if (probeInFlight || consecutiveFailures >= options.failureThreshold) {
+        if (openedAt === null || probeInFlight) {
+          console.warn(
+            `[CIRCUIT_BREAKER] Opening the circuit after ${consecutiveFailures} consecutive failures.`
+          );
+        }
+        openedAt = now();
+      }
+      probeInFlight = false;
+    },
+
+    releaseRequest() {
+      probeInFlight = false;
+    },
+
+    getStatus() {
+      const state = currentState();
+      return {
+        state,
+        consecutiveFailures,
+        openedAt,
+        retryAt: openedAt === null ? null : openedAt + options.cooldownMs,
+      };
+    },
+  };
+}
@@ -0,0 +1,118 @@
+import { PDFDocument } from "pdf-lib";
+import {
+  ClearanceReport,
+  describeSearchCriteria,
+  renderReportHtml,
+  renderReportPdf,
+  ReportHit,
+} from "@/lib/clearance-report";
+import { normalizeSearchRequest } from "@/lib/search-request";
+
+// 1x1 red PNG.
+const PNG = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR4nGP4z8AAAAMBAQDJ/pLvAAAAAElFTkSuQmCC",
+  "base64"
+);
+
+const HIT: ReportHit = {
+  id: "FR1324250",
+  markName: "BILA <script>",
+  applicationDate: "1985-09-23",
+  registrationDate: null,
+  expiryDate: "1995-09-23",
+  registrationOfficeCode: "FR",
+  status: "Marque expirée",
+  feature: "Word",
+  niceClasses: [9],
+  goodsAndServices: [
+    {
+      niceClass: 9,
+      description: "Appareils et instruments de pesage et de mesurage.",
+    },
+  ],
+  applicants: ["TERRAILLON S.A."],
+  hasImage: true,
+  similarity: {
+    score: 0.9,
+    reasons: [{ detail: 'sounds like "BILLA" (phonetic key BALA)' }],
+  },
+  risk: { level: "high", score: 0.9 },
+};
+
+const report = (hits: ReportHit[] = [HIT]): ClearanceReport => ({
+  title: "Rapport de recherche d'antériorités",
+  generatedAt: new Date("2025-03-01T10:00:00Z"),
+  criteria: [{ label: "Recherche", value: "bila" }],
+  hits,
+  images: new Map([["FR1324250", { contentType: "image/png", data: PNG }]]),
+});
+
+describe("describeSearchCriteria", () => {
+  it("lists the query and the filters that are set", () => {
+    const request = normalizeSearchRequest({
+      q: "Bila",
+      niceClasses: "9,42",
+      niceLogic: "OR",
+      origin: "FR",
+      applicationDateFrom: "2020-01-01",
+      advancedQuery: ["NOT:applicant:words:terraillon"],
+    });
+
+    expect(
+      describeSearchCriteria(request, {
+        mode: "clearance",
+        goods: { niceClasses: [9], terms: "logiciels" },
+      })
+    ).toEqual([
+      { label: "Recherche", value: "bila" },
+      {
+        label: "Mode",
+        value: "Similarité (phonétique, orthographe, fautes de frappe)",
+      },
+      { label: "Classes de Nice", value: "9, 42 (au moins une)" },
+      { label: "Origine", value: "FR" },
+      { label: "Date de dépôt", value: "du 01/01/2020" },
+      { label: "Requête avancée", value: "NOT:applicant:words:terraillon" },
+      { label: "Produits et services visés", value: "classes 9 : logiciels" },
+    ]);
+  });
+});
+
+describe("renderReportHtml", () => {
+  it("renders each hit with its logo, goods and similarity notes, escaped", () => {
+    const html = renderReportHtml(report());
+
+    expect(html).toContain("<h2>1. BILA &lt;script&gt; (FR1324250)</h2>");
+    expect(html).not.toContain("<script>");
+    expect(html).toContain(
+      `src="data:image/png;base64,${PNG.toString("base64")}"`
+    );
+    expect(html).toContain(
+      "<p>Classe 9 : Appareils et instruments de pesage et de mesurage.</p>"
+    );
+    expect(html).toContain(
+      "<p>sounds like &quot;BILLA&quot; (phonetic key BALA)</p>"
+    );
+    expect(html).toContain("Risque de conflit : élevé (90 %)");
+    expect(html).toContain("<th>Recherche</th><td>bila</td>");
+  });
+});
+
+describe("renderReportPdf", () => {
+  it("lays out every hit over as many pages as needed", async () => {
+    const longHit: ReportHit = {
+      ...HIT,
+      markName: "日本 ŒUVRE",
+      goodsAndServices: [
+        { niceClass: 9, description: "Logiciels ; ".repeat(600) },
+      ],
+    };
+
+    const pdf = await renderReportPdf(report([HIT, longHit]));
+    const document = await PDFDocument.load(pdf);
+
+    expect(Buffer.from(pdf.slice(0, 5)).toString("latin1")).toBe("%PDF-");
+    expect(document.getTitle()).toBe("Rapport de recherche d'antériorités");
+    expect(document.getPageCount()).toBeGreaterThan(1);
+  });
+});
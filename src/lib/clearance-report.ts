@@ -0,0 +1,600 @@
+// src/lib/clearance-report.ts
+
+import pLimit from "p-limit";
+import {
+  PDFDocument,
+  PDFFont,
+  PDFImage,
+  PDFPage,
+  rgb,
+  StandardFonts,
+} from "pdf-lib";
+import { z } from "zod";
+import { formatAdvancedQueryClause } from "@/lib/advanced-query";
+import { GoodsSpecification } from "@/lib/goods-overlap";
+import { logError } from "@/lib/inpi-client";
+import {
+  DATE_RANGE_FIELDS,
+  SearchMode,
+  SearchRequest,
+} from "@/lib/search-request";
+import { getTrademarkImage } from "@/lib/trademark-image";
+import { isApplicationNumber } from "@/lib/trademark-record";
+
+// The clearance report lawyers file with their advice: the search that was run and, for each
+// selected mark, its logo, status, owners, classes with their wording and how it compares to
+// the proposed mark. The same content is rendered as a standalone HTML page and as a PDF.
+
+export const REPORT_FORMATS = ["html", "pdf"] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+/** Larger selections are rejected: each mark costs an image fetch and a PDF page or so. */
+export const MAX_REPORT_HITS = 50;
+
+const REPORT_TITLE = "Rapport de recherche d'antériorités";
+
+/**
+ * The parts of a TrademarkSummary the report prints. Hits come from the page's selection, so
+ * they are validated like any request body; unknown fields are dropped. The id goes into the
+ * INPI image URL, so it must be an application number.
+ */
+export const ReportHitSchema = z.object({
+  id: z.string().refine(isApplicationNumber, "Not an application number."),
+  markName: z.string().nullable(),
+  applicationDate: z.string().nullable(),
+  registrationDate: z.string().nullable().default(null),
+  expiryDate: z.string().nullable(),
+  registrationOfficeCode: z.string().nullable(),
+  status: z.string().nullable(),
+  feature: z.string().nullable(),
+  niceClasses: z.array(z.number().int()),
+  goodsAndServices: z
+    .array(z.object({ niceClass: z.number().int(), description: z.string() }))
+    .default([]),
+  applicants: z.array(z.string()),
+  hasImage: z.boolean(),
+  similarity: z
+    .object({
+      score: z.number(),
+      reasons: z.array(z.object({ detail: z.string() })),
+    })
+    .optional(),
+  goodsOverlap: z
+    .object({
+      score: z.number(),
+      identicalClasses: z.array(z.number()),
+      relatedClasses: z.array(
+        z.object({ niceClass: z.number(), relatedTo: z.number() })
+      ),
+      sharedTerms: z.array(z.string()),
+    })
+    .optional(),
+  risk: z
+    .object({
+      level: z.enum(["high", "medium", "low"]),
+      score: z.number(),
+    })
+    .optional(),
+});
+
+export type ReportHit = z.infer<typeof ReportHitSchema>;
+
+export interface ReportImage {
+  contentType: string;
+  data: Buffer;
+}
+
+export interface ReportCriterion {
+  label: string;
+  value: string;
+}
+
+export interface ClearanceReport {
+  title: string;
+  generatedAt: Date;
+  criteria: ReportCriterion[];
+  hits: ReportHit[];
+  /** Logos by hit id; marks without one, or whose logo failed to load, are missing. */
+  images: Map<string, ReportImage>;
+}
+
+/** One block of a mark's entry, e.g. "Titulaires" and one line per owner. */
+interface ReportSection {
+  label: string;
+  lines: string[];
+}
+
+const DATE_RANGE_LABELS = {
+  applicationDate: "Date de dépôt",
+  registrationDate: "Date d'enregistrement",
+  expiryDate: "Date d'expiration",
+} as const;
+
+const RISK_LABELS = { high: "élevé", medium: "moyen", low: "faible" } as const;
+
+export function parseReportFormat(value: unknown): ReportFormat | null {
+  return typeof value === "string" &&
+    (REPORT_FORMATS as readonly string[]).includes(value)
+    ? (value as ReportFormat)
+    : null;
+}
+
+function formatDate(isoDate: string | null): string {
+  if (!isoDate) return "N/A";
+  const [year, month, day] = isoDate.split("-");
+  return `${day}/${month}/${year}`;
+}
+
+function formatPercent(score: number): string {
+  return `${Math.round(score * 100)} %`;
+}
+
+/** The search a report answers, as labelled lines; criteria left at their default are omitted. */
+export function describeSearchCriteria(
+  request: SearchRequest,
+  options: { mode: SearchMode; goods: GoodsSpecification | null }
+): ReportCriterion[] {
+  const criteria: ReportCriterion[] = [];
+  if (request.query) {
+    criteria.push({ label: "Recherche", value: request.query });
+  }
+  criteria.push({
+    label: "Mode",
+    value:
+      options.mode === "clearance"
+        ? "Similarité (phonétique, orthographe, fautes de frappe)"
+        : "Standard",
+  });
+  if (request.niceClasses.length > 0) {
+    criteria.push({
+      label: "Classes de Nice",
+      value: `${request.niceClasses.join(", ")}${
+        request.niceClasses.length > 1
+          ? request.niceLogic === "AND"
+            ? " (toutes)"
+            : " (au moins une)"
+          : ""
+      }`,
+    });
+  }
+  if (request.origin) {
+    criteria.push({ label: "Origine", value: request.origin });
+  }
+  if (request.statuses.length > 0) {
+    criteria.push({ label: "Statuts", value: request.statuses.join(", ") });
+  }
+  if (request.markFeatures.length > 0) {
+    criteria.push({
+      label: "Types de marque",
+      value: request.markFeatures.join(", "),
+    });
+  }
+  for (const field of DATE_RANGE_FIELDS) {
+    const range = request.dateRanges[field];
+    if (!range) continue;
+    const value = [
+      range.from && `du ${formatDate(range.from)}`,
+      range.to && `au ${formatDate(range.to)}`,
+    ]
+      .filter(Boolean)
+      .join(" ");
+    criteria.push({ label: DATE_RANGE_LABELS[field], value });
+  }
+  if (request.advancedQuery.length > 0) {
+    criteria.push({
+      label: "Requête avancée",
+      value: request.advancedQuery.map(formatAdvancedQueryClause).join(" ; "),
+    });
+  }
+  if (options.goods) {
+    criteria.push({
+      label: "Produits et services visés",
+      value: [
+        options.goods.niceClasses.length > 0 &&
+          `classes ${options.goods.niceClasses.join(", ")}`,
+        options.goods.terms,
+      ]
+        .filter(Boolean)
+        .join(" : "),
+    });
+  }
+  return criteria;
+}
+
+function reportSections(hit: ReportHit): ReportSection[] {
+  const sections: ReportSection[] = [
+    {
+      label: "Statut",
+      lines: [[hit.status, hit.feature].filter(Boolean).join(" ; ") || "N/A"],
+    },
+    {
+      label: "Dates",
+      lines: [
+        `Dépôt : ${formatDate(hit.applicationDate)} ; enregistrement : ${formatDate(
+          hit.registrationDate
+        )} ; expiration : ${formatDate(hit.expiryDate)}`,
+      ],
+    },
+    { label: "Office", lines: [hit.registrationOfficeCode ?? "N/A"] },
+    {
+      label: "Titulaires",
+      lines: hit.applicants.length > 0 ? hit.applicants : ["N/A"],
+    },
+    {
+      label: "Classes et libellés",
+      lines:
+        hit.goodsAndServices.length > 0
+          ? hit.goodsAndServices.map(
+              (goods) => `Classe ${goods.niceClass} : ${goods.description}`
+            )
+          : [
+              hit.niceClasses
+                .map((niceClass) => `Classe ${niceClass}`)
+                .join(", ") || "N/A",
+            ],
+    },
+  ];
+  if (hit.similarity) {
+    sections.push({
+      label: `Similarité du signe : ${formatPercent(hit.similarity.score)}`,
+      lines: hit.similarity.reasons.map((reason) => reason.detail),
+    });
+  }
+  if (hit.goodsOverlap) {
+    const overlap = hit.goodsOverlap;
+    sections.push({
+      label: `Recoupement des produits et services : ${formatPercent(overlap.score)}`,
+      lines: [
+        overlap.identicalClasses.length > 0 &&
+          `Classes identiques : ${overlap.identicalClasses.join(", ")}`,
+        overlap.relatedClasses.length > 0 &&
+          `Classes voisines : ${overlap.relatedClasses
+            .map(
+              (related) =>
+                `${related.niceClass} (proche de ${related.relatedTo})`
+            )
+            .join(", ")}`,
+        overlap.sharedTerms.length > 0 &&
+          `Termes communs : ${overlap.sharedTerms.join(", ")}`,
+      ].filter((line): line is string => !!line),
+    });
+  }
+  if (hit.risk) {
+    sections.push({
+      label: `Risque de conflit : ${RISK_LABELS[hit.risk.level]} (${formatPercent(
+        hit.risk.score
+      )})`,
+      lines: [],
+    });
+  }
+  return sections;
+}
+
+/**
+ * Fetches the standard logo of each hit that has one, through the image cache. A logo that
+ * fails to load is logged and left out rather than failing the report.
+ */
+export async function loadReportImages(
+  hits: ReportHit[]
+): Promise<Map<string, ReportImage>> {
+  const images = new Map<string, ReportImage>();
+  const limit = pLimit(3);
+  await Promise.all(
+    hits
+      .filter((hit) => hit.hasImage)
+      .map((hit) =>
+        limit(async () => {
+          try {
+            const { data: image } = await getTrademarkImage(hit.id, "std");
+            if (!image.missing) {
+              images.set(hit.id, {
+                contentType: image.contentType,
+                data: Buffer.from(image.body, "base64"),
+              });
+            }
+          } catch (error) {
+            logError(`clearanceReportImage-${hit.id}`, error);
+          }
+        })
+      )
+  );
+  return images;
+}
+
+const parisDateTimeFormatter = new Intl.DateTimeFormat("fr-FR", {
+  timeZone: "Europe/Paris",
+  dateStyle: "long",
+  timeStyle: "short",
+});
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const HTML_STYLE = `
+body { font-family: Helvetica, Arial, sans-serif; color: #111827; max-width: 800px; margin: 2em auto; padding: 0 1em; }
+h1 { font-size: 1.5em; margin-bottom: 0.2em; }
+.generated { color: #6b7280; margin-top: 0; }
+table.criteria { border-collapse: collapse; margin-bottom: 2em; }
+table.criteria th { text-align: left; padding: 2px 1em 2px 0; vertical-align: top; }
+.hit { border-top: 1px solid #d1d5db; padding: 1em 0; page-break-inside: avoid; display: flex; gap: 1em; }
+.hit img { width: 120px; height: 120px; object-fit: contain; border: 1px solid #e5e7eb; flex-shrink: 0; }
+.hit h2 { font-size: 1.15em; margin: 0 0 0.5em; }
+.hit h3 { font-size: 0.95em; margin: 0.6em 0 0.1em; }
+.hit p { margin: 0; white-space: pre-wrap; }
+`;
+
+/** A standalone page: styles inline and logos as data URLs, so it can be mailed or archived. */
+export function renderReportHtml(report: ClearanceReport): string {
+  const criteria = report.criteria
+    .map(
+      (criterion) =>
+        `<tr><th>${escapeHtml(criterion.label)}</th><td>${escapeHtml(criterion.value)}</td></tr>`
+    )
+    .join("\n");
+  const hits = report.hits
+    .map((hit, index) => {
+      const image = report.images.get(hit.id);
+      const logo = image
+        ? `<img src="data:${escapeHtml(image.contentType)};base64,${image.data.toString(
+            "base64"
+          )}" alt="Logo ${escapeHtml(hit.markName ?? hit.id)}">`
+        : "";
+      const sections = reportSections(hit)
+        .map(
+          (section) =>
+            `<h3>${escapeHtml(section.label)}</h3>${section.lines
+              .map((line) => `<p>${escapeHtml(line)}</p>`)
+              .join("")}`
+        )
+        .join("\n");
+      return `<section class="hit">${logo}<div>
+<h2>${index + 1}. ${escapeHtml(hit.markName ?? "N/A")} (${escapeHtml(hit.id)})</h2>
+${sections}
+</div></section>`;
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="fr">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(report.title)}</h1>
+<p class="generated">Généré le ${escapeHtml(parisDateTimeFormatter.format(report.generatedAt))}, ${report.hits.length} marque${report.hits.length > 1 ? "s" : ""}</p>
+<table class="criteria">
+${criteria}
+</table>
+${hits}
+</body>
+</html>
+`;
+}
+
+const PAGE_SIZE: [number, number] = [595.28, 841.89]; // A4 in points
+const MARGIN = 50;
+const LOGO_SIZE = 90;
+
+/** Where the PDF is being written: the current page and the height reached on it. */
+interface PdfLayout {
+  document: PDFDocument;
+  regular: PDFFont;
+  bold: PDFFont;
+  page: PDFPage;
+  y: number;
+}
+
+function addPage(layout: PdfLayout) {
+  layout.page = layout.document.addPage(PAGE_SIZE);
+  layout.y = PAGE_SIZE[1] - MARGIN;
+}
+
+function createPdfLayout(
+  document: PDFDocument,
+  regular: PDFFont,
+  bold: PDFFont
+): PdfLayout {
+  return {
+    document,
+    regular,
+    bold,
+    page: document.addPage(PAGE_SIZE),
+    y: PAGE_SIZE[1] - MARGIN,
+  };
+}
+
+/** Starts a new page when the current one has less than `height` left. */
+function ensureSpace(layout: PdfLayout, height: number) {
+  if (layout.y - height < MARGIN) addPage(layout);
+}
+
+/** Writes text below what is already on the page, wrapping it to the page width. */
+function writeText(
+  layout: PdfLayout,
+  text: string,
+  options: {
+    size?: number;
+    font?: PDFFont;
+    indent?: number;
+    gap?: number;
+  } = {}
+) {
+  const size = options.size ?? 10;
+  const font = options.font ?? layout.regular;
+  const indent = options.indent ?? 0;
+  const lineHeight = size * 1.3;
+  const width = PAGE_SIZE[0] - 2 * MARGIN - indent;
+  for (const line of wrapText(encodable(text, font), font, size, width)) {
+    ensureSpace(layout, lineHeight);
+    layout.y -= lineHeight;
+    layout.page.drawText(line, { x: MARGIN + indent, y: layout.y, size, font });
+  }
+  layout.y -= options.gap ?? 0;
+}
+
+function writeImage(layout: PdfLayout, image: PDFImage) {
+  const { width, height } = image.scaleToFit(LOGO_SIZE, LOGO_SIZE);
+  ensureSpace(layout, height + 6);
+  layout.y -= height + 6;
+  layout.page.drawImage(image, { x: MARGIN, y: layout.y, width, height });
+}
+
+function writeRule(layout: PdfLayout) {
+  ensureSpace(layout, 16);
+  layout.y -= 8;
+  layout.page.drawLine({
+    start: { x: MARGIN, y: layout.y },
+    end: { x: PAGE_SIZE[0] - MARGIN, y: layout.y },
+    thickness: 0.5,
+    color: rgb(0.8, 0.8, 0.8),
+  });
+  layout.y -= 8;
+}
+
+/**
+ * The standard PDF fonts only cover Latin-1 and a few more characters. Accented letters they
+ * lack lose their accent; anything else becomes "?".
+ */
+function encodable(text: string, font: PDFFont): string {
+  const characters = new Set(font.getCharacterSet());
+  return [...text.normalize("NFC").replace(/[\t\r\n]+/g, " ")]
+    .map((character) => {
+      if (characters.has(character.codePointAt(0)!)) return character;
+      const base = character.normalize("NFD").replace(/\p{M}/gu, "");
+      return base && [...base].every((c) => characters.has(c.codePointAt(0)!))
+        ? base
+        : "?";
+    })
+    .join("");
+}
+
+function wrapText(
+  text: string,
+  font: PDFFont,
+  size: number,
+  width: number
+): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(" ")) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= width) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    // A word wider than the page, such as a long URL, is cut wherever it overflows.
+    line = word;
+    while (font.widthOfTextAtSize(line, size) > width && line.length > 1) {
+      let cut = line.length - 1;
+      while (
+        cut > 1 &&
+        font.widthOfTextAtSize(line.slice(0, cut), size) > width
+      ) {
+        cut--;
+      }
+      lines.push(line.slice(0, cut));
+      line = line.slice(cut);
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+async function embedImage(
+  document: PDFDocument,
+  image: ReportImage
+): Promise<PDFImage | null> {
+  try {
+    if (image.contentType.includes("png")) {
+      return await document.embedPng(image.data);
+    }
+    if (/jpe?g/.test(image.contentType)) {
+      return await document.embedJpg(image.data);
+    }
+  } catch (error) {
+    logError("clearanceReportEmbedImage", error);
+  }
+  // Other formats (GIF, SVG) cannot be embedded by pdf-lib; the HTML report still shows them.
+  return null;
+}
+
+export async function renderReportPdf(
+  report: ClearanceReport
+): Promise<Uint8Array> {
+  const document = await PDFDocument.create();
+  document.setTitle(report.title);
+  document.setCreationDate(report.generatedAt);
+  const layout = createPdfLayout(
+    document,
+    await document.embedFont(StandardFonts.Helvetica),
+    await document.embedFont(StandardFonts.HelveticaBold)
+  );
+
+  writeText(layout, report.title, { size: 18, font: layout.bold, gap: 4 });
+  writeText(
+    layout,
+    `Généré le ${parisDateTimeFormatter.format(report.generatedAt)}, ${report.hits.length} marque${
+      report.hits.length > 1 ? "s" : ""
+    }`,
+    { size: 9, gap: 10 }
+  );
+  for (const criterion of report.criteria) {
+    writeText(layout, `${criterion.label} : ${criterion.value}`);
+  }
+
+  for (const [index, hit] of report.hits.entries()) {
+    writeRule(layout);
+    writeText(layout, `${index + 1}. ${hit.markName ?? "N/A"} (${hit.id})`, {
+      size: 13,
+      font: layout.bold,
+      gap: 4,
+    });
+    const image = report.images.get(hit.id);
+    const embedded = image ? await embedImage(document, image) : null;
+    if (embedded) writeImage(layout, embedded);
+    for (const section of reportSections(hit)) {
+      writeText(layout, section.label, { font: layout.bold, gap: 1 });
+      for (const line of section.lines) {
+        writeText(layout, line, { size: 9, indent: 10 });
+      }
+      layout.y -= 4;
+    }
+  }
+
+  const pages = document.getPages();
+  pages.forEach((page, index) => {
+    page.drawText(`${index + 1} / ${pages.length}`, {
+      x: PAGE_SIZE[0] - MARGIN - 30,
+      y: MARGIN / 2,
+      size: 8,
+      font: layout.regular,
+      color: rgb(0.4, 0.4, 0.4),
+    });
+  });
+  return document.save();
+}
+
+/** Builds a report for the selected hits, with their logos. */
+export async function createClearanceReport(
+  hits: ReportHit[],
+  criteria: ReportCriterion[],
+  generatedAt = new Date()
+): Promise<ClearanceReport> {
+  return {
+    title: REPORT_TITLE,
+    generatedAt,
+    criteria,
+    hits,
+    images: await loadReportImages(hits),
+  };
+}
@@ -0,0 +1,98 @@
+jest.mock("@/lib/inpi-search", () => ({
+  __esModule: true,
+  ...jest.requireActual("@/lib/inpi-search"),
+  performSearchRequest: jest.fn(),
+}));
+jest.mock("@/lib/inpi-client", () => ({
+  __esModule: true,
+  ...jest.requireActual("@/lib/inpi-client"),
+  logError: jest.fn(),
+}));
+
+import { performClearanceSearch } from "@/lib/clearance-search";
+import { performSearchRequest } from "@/lib/inpi-search";
+import { normalizeSearchRequest } from "@/lib/search-request";
+
+const mockedPerformSearchRequest = performSearchRequest as jest.Mock;
+
+const hit = (id: string, markWordElement: string) => ({
+  _id: id,
+  _source: { applicationNumberWithCountryCode: id, markWordElement },
+});
+
+// What INPI's word search would find for each variant.
+const INDEX: Record<string, ReturnType<typeof hit>[]> = {
+  byla: [hit("FR1", "BYLA"), hit("FR9", "BYLA TERRAILLON SAS")],
+  bila: [hit("FR2", "BILA"), hit("FR9", "BYLA TERRAILLON SAS")],
+  billa: [hit("FR3", "BILLA"), hit("FR4", "BILLABONG")],
+};
+
+describe("performClearanceSearch", () => {
+  const originalConcurrency = process.env.CLEARANCE_CONCURRENCY;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.CLEARANCE_CONCURRENCY = "2";
+  });
+
+  afterAll(() => {
+    process.env.CLEARANCE_CONCURRENCY = originalConcurrency;
+  });
+
+  it("merges the variant searches and ranks the marks by similarity", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    mockedPerformSearchRequest.mockImplementation(async ({ query }) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      if (query === "by1a") throw new Error("INPI unavailable");
+      const hits = INDEX[query] ?? [];
+      return {
+        result: {
+          hits: { total: { value: hits.length, relation: "eq" }, hits },
+        },
+      };
+    });
+
+    const result = await performClearanceSearch(
+      normalizeSearchRequest({ q: "Byla", origin: "FR" }),
+      { maxVariants: 6 }
+    );
+
+    expect(mockedPerformSearchRequest).toHaveBeenCalledTimes(6);
+    expect(mockedPerformSearchRequest).toHaveBeenCalledWith(
+      expect.objectContaining({
+        query: "billa",
+        origin: "FR",
+        page: 1,
+        nbResultsPerPage: 100,
+      })
+    );
+    expect(maxRunning).toBe(2);
+
+    expect(result.hits.map((h) => [h.id, h.similarity?.score])).toEqual([
+      ["FR1", 1],
+      ["FR9", 1],
+      ["FR2", 0.9],
+      ["FR3", 0.9],
+    ]);
+    expect(result.hits[1].similarity?.variants).toEqual(["byla", "bila"]);
+    expect(result.hits[2].similarity?.reasons[0].detail).toBe(
+      'sounds like "BILA" (phonetic key BALA)'
+    );
+    // BILLABONG is found by a variant but is not similar enough to keep.
+    expect(result.total).toEqual({ value: 4, relation: "eq" });
+    expect(result.clearance?.variants).toHaveLength(6);
+    expect(result.clearance?.failedVariants).toEqual(["by1a"]);
+  });
+
+  it("fails when the search for the query itself fails", async () => {
+    mockedPerformSearchRequest.mockRejectedValue(new Error("INPI unavailable"));
+
+    await expect(
+      performClearanceSearch(normalizeSearchRequest({ q: "byla" }))
+    ).rejects.toThrow("INPI unavailable");
+  });
+});
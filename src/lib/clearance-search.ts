@@ -0,0 +1,154 @@
+// src/lib/clearance-search.ts
+
+import pLimit from "p-limit";
+import { logError } from "@/lib/inpi-client";
+import { InpiSearchHit, performSearchRequest } from "@/lib/inpi-search";
+import {
+  expandQuery,
+  scoreSimilarity,
+  SimilarityScore,
+} from "@/lib/mark-similarity";
+import { SearchRequest } from "@/lib/search-request";
+import {
+  SearchResult,
+  toSearchResult,
+  toTrademarkSummary,
+} from "@/lib/search-result";
+
+export const DEFAULT_CLEARANCE_VARIANTS = 12;
+export const MAX_CLEARANCE_VARIANTS = 30;
+
+/** Marks scoring below this are dropped: the variant searches also find unrelated marks. */
+export const MIN_CLEARANCE_SCORE = 0.5;
+
+// Each variant search fetches one upstream page of this size; similar marks rank high in
+// INPI's relevance order, so deeper pages are not fetched.
+const VARIANT_PAGE_SIZE = 100;
+
+/** How many variant searches run at once, on top of the INPI client's own rate limit. */
+function clearanceConcurrency(): number {
+  return Number(process.env.CLEARANCE_CONCURRENCY) || 3;
+}
+
+export function parseMaxVariants(value: unknown): number {
+  const parsed = parseInt(String(value ?? ""), 10);
+  if (isNaN(parsed) || parsed < 1) return DEFAULT_CLEARANCE_VARIANTS;
+  return Math.min(parsed, MAX_CLEARANCE_VARIANTS);
+}
+
+interface ClearanceMatch {
+  hit: InpiSearchHit;
+  markName: string | null;
+  variants: string[];
+  similarity: SimilarityScore;
+}
+
+/**
+ * Searches for marks confusingly similar to the request's query. The query is expanded into
+ * phonetic, spelling and typing variants (see expandQuery), which are searched in parallel
+ * under a concurrency limit with the request's filters. The marks found are merged, scored
+ * against the query, and paged by decreasing similarity. Each hit carries its score, the
+ * reasons for it, and the variants that found it.
+ *
+ * A failed variant search is logged and reported in `clearance.failedVariants`; only the
+ * search for the query itself failing fails the whole search.
+ */
+export async function performClearanceSearch(
+  request: SearchRequest,
+  options: { maxVariants?: number; includeRaw?: boolean } = {}
+): Promise<SearchResult> {
+  const variants = expandQuery(
+    request.query,
+    options.maxVariants ?? DEFAULT_CLEARANCE_VARIANTS
+  );
+  const limit = pLimit(clearanceConcurrency());
+  const outcomes = await Promise.allSettled(
+    variants.map((variant, index) =>
+      limit(() =>
+        performSearchRequest({
+          ...request,
+          // The first variant is the query itself, searched as entered.
+          query: index === 0 ? request.query : variant.query,
+          page: 1,
+          nbResultsPerPage: VARIANT_PAGE_SIZE,
+        })
+      )
+    )
+  );
+  if (outcomes[0].status === "rejected") throw outcomes[0].reason;
+  const baseData = outcomes[0].value;
+
+  const matches = new Map<string, ClearanceMatch>();
+  const failedVariants: string[] = [];
+  let isTruncated = false;
+  let isStale = false;
+  let staleSince: string | undefined;
+  outcomes.forEach((outcome, index) => {
+    const variant = variants[index].query;
+    if (outcome.status === "rejected") {
+      logError(`clearanceSearch-${variant}`, outcome.reason);
+      failedVariants.push(variant);
+      return;
+    }
+    const hits = outcome.value.result?.hits?.hits ?? [];
+    const upstreamTotal =
+      outcome.value.result?.hits?.total?.value ?? hits.length;
+    if (upstreamTotal > hits.length) isTruncated = true;
+    if (outcome.value.stale) {
+      isStale = true;
+      staleSince ??= outcome.value.staleSince;
+    }
+
+    for (const hit of hits) {
+      const summary = toTrademarkSummary(hit);
+      const match = matches.get(summary.id);
+      if (match) {
+        match.variants.push(variant);
+      } else {
+        matches.set(summary.id, {
+          hit,
+          markName: summary.markName,
+          variants: [variant],
+          similarity: scoreSimilarity(request.query, summary.markName),
+        });
+      }
+    }
+  });
+
+  const ranked = [...matches.values()]
+    .filter((match) => match.similarity.score >= MIN_CLEARANCE_SCORE)
+    .sort(
+      (a, b) =>
+        b.similarity.score - a.similarity.score ||
+        (a.markName ?? "").localeCompare(b.markName ?? "")
+    );
+  const start = (request.page - 1) * request.nbResultsPerPage;
+  const page = ranked.slice(start, start + request.nbResultsPerPage);
+
+  // Facets come from the search for the query itself; the variants' marks are not counted.
+  const result = toSearchResult(
+    {
+      ...baseData,
+      result: {
+        ...baseData.result,
+        hits: {
+          total: {
+            value: ranked.length,
+            relation: isTruncated ? "gte" : "eq",
+          },
+          hits: page.map((match) => match.hit),
+        },
+      },
+      stale: isStale,
+      staleSince,
+    },
+    request,
+    options.includeRaw
+  );
+  result.hits = result.hits.map((hit, index) => ({
+    ...hit,
+    similarity: { ...page[index].similarity, variants: page[index].variants },
+  }));
+  result.clearance = { variants, failedVariants };
+  return result;
+}
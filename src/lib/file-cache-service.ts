@@ -0,0 +1,136 @@
+// src/lib/file-cache-service.ts
+
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import type { CacheStats, ICacheService } from "./cache-service";
+
+interface FileCacheEntry<T> {
+  key: string;
+  value: T;
+  /** Epoch milliseconds, or null for entries that never expire. */
+  expiresAt: number | null;
+}
+
+/**
+ * Cache backend that keeps one JSON file per key in a directory, so entries survive restarts
+ * and can be shared by processes on the same machine. Expired entries are removed lazily
+ * when they are read.
+ */
+export class FileCacheService implements ICacheService {
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    private directory: string,
+    private defaultTtlSeconds: number = 3600
+  ) {
+    console.log(
+      `FileCacheService initialized in ${directory} with default TTL: ${defaultTtlSeconds}s.`
+    );
+  }
+
+  private filePathFor(key: string): string {
+    const hash = crypto.createHash("sha256").update(key).digest("hex");
+    return path.join(this.directory, `${hash}.json`);
+  }
+
+  private async readEntry<T>(key: string): Promise<FileCacheEntry<T> | undefined> {
+    const filePath = this.filePathFor(key);
+    let entry: FileCacheEntry<T>;
+    try {
+      entry = JSON.parse(await fs.readFile(filePath, "utf-8"));
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`[FILE_CACHE] Failed to read entry for key ${key}:`, error);
+      }
+      return undefined;
+    }
+
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      await fs.rm(filePath, { force: true });
+      return undefined;
+    }
+    return entry;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = await this.readEntry<T>(key);
+    if (entry) this.hits++;
+    else this.misses++;
+    return entry?.value;
+  }
+
+  async peek<T>(key: string): Promise<T | undefined> {
+    return (await this.readEntry<T>(key))?.value;
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+    const ttl = ttlSeconds ?? this.defaultTtlSeconds;
+    const entry: FileCacheEntry<T> = {
+      key,
+      value,
+      expiresAt: ttl > 0 ? Date.now() + ttl * 1000 : null,
+    };
+    const filePath = this.filePathFor(key);
+    // Write to a temporary file first so readers never see a half-written entry.
+    const tmpPath = `${filePath}.${process.pid}.${crypto.randomUUID()}.tmp`;
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify(entry), "utf-8");
+    await fs.rename(tmpPath, filePath);
+  }
+
+  async del(key: string): Promise<void> {
+    await fs.rm(this.filePathFor(key), { force: true });
+  }
+
+  async has(key: string): Promise<boolean> {
+    return (await this.readEntry(key)) !== undefined;
+  }
+
+  private async entryFiles(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.directory);
+      return files
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => path.join(this.directory, file));
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+  }
+
+  async flushAll(): Promise<void> {
+    const files = await this.entryFiles();
+    await Promise.all(files.map((file) => fs.rm(file, { force: true })));
+    this.hits = 0;
+    this.misses = 0;
+    console.log("FileCacheService: All items flushed from cache.");
+  }
+
+  async keys(prefix: string = ""): Promise<string[]> {
+    const keys: string[] = [];
+    // File names are hashes, so the key has to be read back from each entry.
+    for (const file of await this.entryFiles()) {
+      try {
+        const entry: FileCacheEntry<unknown> = JSON.parse(
+          await fs.readFile(file, "utf-8")
+        );
+        const isLive = entry.expiresAt === null || entry.expiresAt > Date.now();
+        if (isLive && entry.key.startsWith(prefix)) keys.push(entry.key);
+      } catch {
+        // Removed or being replaced while listing.
+      }
+    }
+    return keys;
+  }
+
+  async getStats(): Promise<CacheStats> {
+    return {
+      backend: "file",
+      hits: this.hits,
+      misses: this.misses,
+      keys: (await this.keys()).length,
+    };
+  }
+}
@@ -0,0 +1,146 @@
+import {
+  conflictRisk,
+  goodsKeywords,
+  parseGoodsSpecification,
+  scoreGoodsOverlap,
+  withConflictRisk,
+} from "@/lib/goods-overlap";
+import { normalizeSearchRequest } from "@/lib/search-request";
+import { SearchResult, toSearchResult } from "@/lib/search-result";
+
+const SOFTWARE = {
+  niceClass: 9,
+  description: "Logiciels de gestion ; appareils de pesage.",
+};
+const RESTAURANT = {
+  niceClass: 43,
+  description: "Services de restauration (alimentation).",
+};
+
+describe("goodsKeywords", () => {
+  it("keeps the descriptive words, singular and without accents", () => {
+    expect(
+      goodsKeywords("Services de restauration (alimentation) ; Pâtés")
+    ).toEqual(["restauration", "alimentation", "pate"]);
+  });
+});
+
+describe("parseGoodsSpecification", () => {
+  it("reads classes and wording, and is null when both are empty", () => {
+    expect(parseGoodsSpecification("42, 9,9", "  logiciels  ")).toEqual({
+      niceClasses: [9, 42],
+      terms: "logiciels",
+    });
+    expect(parseGoodsSpecification([30], undefined)).toEqual({
+      niceClasses: [30],
+      terms: "",
+    });
+    expect(parseGoodsSpecification("", " ")).toBeNull();
+  });
+});
+
+describe("scoreGoodsOverlap", () => {
+  it("scores identical classes above related ones", () => {
+    expect(
+      scoreGoodsOverlap({ niceClasses: [9], terms: "" }, [SOFTWARE])
+    ).toEqual({
+      score: 1,
+      identicalClasses: [9],
+      relatedClasses: [],
+      sharedTerms: [],
+    });
+    expect(
+      scoreGoodsOverlap({ niceClasses: [42], terms: "" }, [SOFTWARE])
+    ).toMatchObject({
+      score: 0.6,
+      relatedClasses: [{ niceClass: 9, relatedTo: 42 }],
+    });
+    expect(
+      scoreGoodsOverlap({ niceClasses: [30], terms: "" }, [SOFTWARE]).score
+    ).toBe(0);
+  });
+
+  it("adds the wording found in the mark's goods and services", () => {
+    const overlap = scoreGoodsOverlap(
+      { niceClasses: [29], terms: "Restauration rapide, traiteur" },
+      [SOFTWARE, RESTAURANT]
+    );
+
+    expect(overlap.relatedClasses).toEqual([{ niceClass: 43, relatedTo: 29 }]);
+    expect(overlap.sharedTerms).toEqual(["restauration"]);
+    // 0.6 * 0.7 for the related class, plus 1 of 3 keywords * 0.3.
+    expect(overlap.score).toBe(0.52);
+    expect(
+      scoreGoodsOverlap({ niceClasses: [], terms: "logiciels" }, [SOFTWARE])
+        .score
+    ).toBe(1);
+  });
+});
+
+describe("conflictRisk", () => {
+  it("multiplies the sign and goods scores into a level", () => {
+    expect(conflictRisk(0.9, 1)).toEqual({
+      level: "high",
+      score: 0.9,
+      signScore: 0.9,
+      goodsScore: 1,
+    });
+    expect(conflictRisk(0.9, 0.6).level).toBe("medium");
+    expect(conflictRisk(1, 0).level).toBe("low");
+  });
+});
+
+describe("withConflictRisk", () => {
+  const result = (): SearchResult =>
+    toSearchResult(
+      {
+        result: {
+          hits: {
+            hits: [
+              {
+                _source: {
+                  applicationNumberWithCountryCode: "FR1",
+                  markWordElement: "BILLA",
+                  classDescriptionDetails: [
+                    {
+                      class: "09",
+                      goodServiceDescription: [
+                        { text: "Weighing apparatus.", lang: "en" },
+                        { text: "Logiciels de gestion.", lang: "fr" },
+                      ],
+                    },
+                  ],
+                },
+              },
+            ],
+          },
+        },
+      },
+      normalizeSearchRequest({ q: "byla" })
+    );
+
+  it("rates each hit against the query, or its clearance similarity", () => {
+    const specification = { niceClasses: [9], terms: "" };
+    const [hit] = withConflictRisk(result(), specification, "byla").hits;
+
+    expect(hit.goodsAndServices).toEqual([
+      { niceClass: 9, description: "Logiciels de gestion." },
+    ]);
+    expect(hit.goodsOverlap?.score).toBe(1);
+    expect(hit.risk).toEqual({
+      level: "high",
+      score: 0.9,
+      signScore: 0.9,
+      goodsScore: 1,
+    });
+
+    const clearance = result();
+    clearance.hits[0].similarity = { score: 0.5, reasons: [], variants: [] };
+    expect(
+      withConflictRisk(clearance, specification, "byla").hits[0].risk
+    ).toMatchObject({ level: "medium", signScore: 0.5 });
+    expect(
+      withConflictRisk(result(), specification, "").hits[0].risk
+    ).toBeUndefined();
+  });
+});
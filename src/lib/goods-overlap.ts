@@ -0,0 +1,246 @@
+// src/lib/goods-overlap.ts
+
+import { scoreSimilarity } from "@/lib/mark-similarity";
+import { normalizeQueryText, parseNiceClasses } from "@/lib/search-request";
+import type {
+  GoodsAndServices,
+  SearchResult,
+  TrademarkSummary,
+} from "@/lib/search-result";
+
+// How much the goods and services of an existing mark overlap those of a proposed mark, and
+// the conflict risk this gives together with how alike the signs are. Safe to import from
+// client code.
+
+/** The goods and services a proposed mark would be filed for. */
+export interface GoodsSpecification {
+  niceClasses: number[];
+  /** Free wording, e.g. "logiciels de gestion ; services de restauration". */
+  terms: string;
+}
+
+/**
+ * Classes whose goods and services are commonly found similar, each group being related both
+ * ways: software and the IT services that provide it, foodstuffs and the restaurants that serve
+ * them, and so on.
+ */
+export const RELATED_NICE_CLASS_GROUPS: readonly (readonly number[])[] = [
+  [9, 42],
+  [9, 38],
+  [29, 30, 43],
+  [32, 33, 43],
+  [3, 5, 44],
+  [18, 25],
+  [14, 25],
+  [16, 41],
+];
+
+export interface GoodsOverlap {
+  /** 0 to 1. */
+  score: number;
+  /** Classes of the specification the mark is also registered in. */
+  identicalClasses: number[];
+  /** Classes of the mark related to a class of the specification, but not identical. */
+  relatedClasses: Array<{ niceClass: number; relatedTo: number }>;
+  /** Words of the specification's wording found in the mark's goods and services. */
+  sharedTerms: string[];
+}
+
+export type ConflictRiskLevel = "high" | "medium" | "low";
+
+export interface ConflictRisk {
+  level: ConflictRiskLevel;
+  /** signScore times goodsScore. */
+  score: number;
+  signScore: number;
+  goodsScore: number;
+}
+
+const IDENTICAL_CLASS_SCORE = 1;
+const RELATED_CLASS_SCORE = 0.6;
+// With wording given, the classes weigh this much of the goods score and the wording the rest.
+const CLASS_WEIGHT = 0.7;
+
+/** Lowest risk score of each level; anything below "medium" is "low". */
+export const CONFLICT_RISK_THRESHOLDS = { high: 0.6, medium: 0.3 } as const;
+
+// Words that say nothing about what the goods are: French function words and the generic
+// nouns every specification uses.
+const NON_DESCRIPTIVE_WORDS = new Set([
+  "les",
+  "des",
+  "une",
+  "aux",
+  "pour",
+  "avec",
+  "sans",
+  "par",
+  "sur",
+  "dans",
+  "non",
+  "ces",
+  "leur",
+  "leurs",
+  "notamment",
+  "compris",
+  "autres",
+  "tous",
+  "toutes",
+  "classe",
+  "classes",
+  "produit",
+  "produits",
+  "service",
+  "services",
+  "article",
+  "articles",
+  "appareil",
+  "appareils",
+  "instrument",
+  "instruments",
+  "matiere",
+  "matieres",
+]);
+
+/**
+ * The descriptive words of a wording, lower-cased without accents and singular: "Services de
+ * restauration (alimentation)" gives ["restauration", "alimentation"].
+ */
+export function goodsKeywords(text: string): string[] {
+  const keywords = normalizeQueryText(text)
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 2 && !NON_DESCRIPTIVE_WORDS.has(word))
+    .map((word) => (word.length > 4 ? word.replace(/[sx]$/, "") : word));
+  return [...new Set(keywords)];
+}
+
+/**
+ * Reads a specification from query string or JSON body values: classes as in `niceClasses`,
+ * and free wording. Null when both are empty.
+ */
+export function parseGoodsSpecification(
+  niceClasses: unknown,
+  terms: unknown
+): GoodsSpecification | null {
+  const specification = {
+    niceClasses: [
+      ...new Set(
+        parseNiceClasses(
+          typeof niceClasses === "string" || Array.isArray(niceClasses)
+            ? niceClasses
+            : null
+        )
+      ),
+    ].sort((a, b) => a - b),
+    terms: typeof terms === "string" ? terms.replace(/\s+/g, " ").trim() : "",
+  };
+  return specification.niceClasses.length > 0 || specification.terms
+    ? specification
+    : null;
+}
+
+function relatedClassesOf(niceClass: number): number[] {
+  return RELATED_NICE_CLASS_GROUPS.filter((group) =>
+    group.includes(niceClass)
+  ).flatMap((group) => group.filter((related) => related !== niceClass));
+}
+
+/**
+ * Compares a specification with a mark's goods and services: identical classes score 1, related
+ * classes (see RELATED_NICE_CLASS_GROUPS) 0.6, and when the specification has wording, the
+ * share of its keywords found in the mark's wording makes up the rest of the score.
+ */
+export function scoreGoodsOverlap(
+  specification: GoodsSpecification,
+  goodsAndServices: GoodsAndServices[]
+): GoodsOverlap {
+  const markClasses = new Set(goodsAndServices.map((goods) => goods.niceClass));
+  const identicalClasses = specification.niceClasses.filter((niceClass) =>
+    markClasses.has(niceClass)
+  );
+  const relatedClasses: GoodsOverlap["relatedClasses"] = [];
+  for (const relatedTo of specification.niceClasses) {
+    for (const niceClass of relatedClassesOf(relatedTo)) {
+      if (
+        markClasses.has(niceClass) &&
+        !specification.niceClasses.includes(niceClass) &&
+        !relatedClasses.some((related) => related.niceClass === niceClass)
+      ) {
+        relatedClasses.push({ niceClass, relatedTo });
+      }
+    }
+  }
+  relatedClasses.sort((a, b) => a.niceClass - b.niceClass);
+
+  const proposedKeywords = goodsKeywords(specification.terms);
+  const markKeywords = new Set(
+    goodsAndServices.flatMap((goods) => goodsKeywords(goods.description))
+  );
+  const sharedTerms = proposedKeywords.filter((keyword) =>
+    markKeywords.has(keyword)
+  );
+
+  const classScore =
+    identicalClasses.length > 0
+      ? IDENTICAL_CLASS_SCORE
+      : relatedClasses.length > 0
+        ? RELATED_CLASS_SCORE
+        : 0;
+  let score: number;
+  if (proposedKeywords.length === 0) {
+    score = classScore;
+  } else {
+    const termScore = sharedTerms.length / proposedKeywords.length;
+    score =
+      specification.niceClasses.length > 0
+        ? classScore * CLASS_WEIGHT + termScore * (1 - CLASS_WEIGHT)
+        : termScore;
+  }
+  return {
+    score: Math.round(score * 100) / 100,
+    identicalClasses,
+    relatedClasses,
+    sharedTerms,
+  };
+}
+
+/** Combines how alike the signs are with how much the goods overlap. */
+export function conflictRisk(
+  signScore: number,
+  goodsScore: number
+): ConflictRisk {
+  const score = Math.round(signScore * goodsScore * 100) / 100;
+  const level: ConflictRiskLevel =
+    score >= CONFLICT_RISK_THRESHOLDS.high
+      ? "high"
+      : score >= CONFLICT_RISK_THRESHOLDS.medium
+        ? "medium"
+        : "low";
+  return { level, score, signScore, goodsScore };
+}
+
+/**
+ * Scores every hit of a result against a specification. The sign score is the hit's clearance
+ * similarity, or its similarity to the free-text query; without either, hits get the goods
+ * overlap but no risk.
+ */
+export function withConflictRisk(
+  result: SearchResult,
+  specification: GoodsSpecification,
+  query: string
+): SearchResult {
+  const hits = result.hits.map((hit): TrademarkSummary => {
+    const goodsOverlap = scoreGoodsOverlap(specification, hit.goodsAndServices);
+    const signScore =
+      hit.similarity?.score ??
+      (query ? scoreSimilarity(query, hit.markName).score : null);
+    return {
+      ...hit,
+      goodsOverlap,
+      ...(signScore === null
+        ? {}
+        : { risk: conflictRisk(signScore, goodsOverlap.score) }),
+    };
+  });
+  return { ...result, hits };
+}
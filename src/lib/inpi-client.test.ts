@@ -0,0 +1,265 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from "axios";
+import * as tough from "tough-cookie";
+import {
+  APIError,
+  clearAuthCache,
+  errorCodeFor,
+  getInpiCircuitBreaker,
+  getInpiHealth,
+  getInpiRateLimiter,
+  inpiRequest,
+} from "@/lib/inpi-client";
+import { QuotaExceededError } from "@/lib/rate-limiter";
+
+const FIXTURES_DIR = path.join(__dirname, "..", "..", "fixtures", "inpi");
+
+// Answers 401 to the revoked token and 200 to the token served by the replayed login.
+function createGatewayStub() {
+  const seenTokens: string[] = [];
+  const request = jest.fn(async (config: InternalAxiosRequestConfig) => {
+    const token = String(config.headers?.Authorization).replace("Bearer ", "");
+    seenTokens.push(token);
+    if (token !== "replay-access-token") {
+      throw new AxiosError("Unauthorized", "ERR_BAD_REQUEST", config, null, {
+        status: 401,
+        statusText: "Unauthorized",
+        data: {},
+        headers: {},
+        config,
+      });
+    }
+    return { status: 200, data: "ok", headers: {}, config, statusText: "OK" };
+  });
+  return { stub: { request } as unknown as AxiosInstance, request, seenTokens };
+}
+
+describe("inpiRequest", () => {
+  const originalEnv = process.env;
+  let logSpy: jest.SpyInstance;
+
+  beforeEach(async () => {
+    process.env = {
+      ...originalEnv,
+      INPI_TRANSPORT_MODE: "replay",
+      INPI_FIXTURES_DIR: FIXTURES_DIR,
+      // Keep the auth cache file away from other test files running in parallel.
+      TMPDIR: await fs.mkdtemp(path.join(os.tmpdir(), "inpi-client-test-")),
+    };
+    logSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    // Start from a cached token that INPI has revoked before its expiry.
+    await fs.writeFile(
+      path.join(os.tmpdir(), "inpi-auth-cache.replay.json"),
+      JSON.stringify({
+        accessToken: "revoked-token",
+        tokenExpiry: Date.now() + 60 * 60 * 1000,
+        cookieJar: new tough.CookieJar().toJSON(),
+      })
+    );
+  });
+
+  afterEach(async () => {
+    await clearAuthCache();
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  const loginCount = () =>
+    logSpy.mock.calls.filter(([message]) =>
+      String(message).includes("Requesting new access token")
+    ).length;
+
+  it("logs in again and replays the request once after a 401", async () => {
+    const { stub, request, seenTokens } = createGatewayStub();
+
+    const response = await inpiRequest({ method: "GET", url: "/notice" }, stub);
+
+    expect(response.data).toBe("ok");
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(seenTokens).toEqual(["revoked-token", "replay-access-token"]);
+    expect(loginCount()).toBe(1);
+  });
+
+  it("shares one login between concurrent rejected requests", async () => {
+    const { stub } = createGatewayStub();
+
+    const responses = await Promise.all(
+      [1, 2, 3].map((i) => inpiRequest({ method: "GET", url: `/r${i}` }, stub))
+    );
+
+    expect(responses.map((r) => r.data)).toEqual(["ok", "ok", "ok"]);
+    expect(loginCount()).toBe(1);
+  });
+
+  it("does not retry errors other than 401/403", async () => {
+    const request = jest.fn().mockRejectedValue(
+      new AxiosError("Not Found", "ERR_BAD_REQUEST", undefined, null, {
+        status: 404,
+        statusText: "Not Found",
+        data: {},
+        headers: {},
+        config: {} as InternalAxiosRequestConfig,
+      })
+    );
+
+    await expect(
+      inpiRequest({ method: "GET", url: "/missing" }, {
+        request,
+      } as unknown as AxiosInstance)
+    ).rejects.toThrow("Not Found");
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(loginCount()).toBe(0);
+  });
+});
+
+describe("inpiRequest quota handling", () => {
+  const originalEnv = process.env;
+
+  const httpError = (status: number, headers: Record<string, string> = {}) =>
+    new AxiosError(`Status ${status}`, "ERR_BAD_RESPONSE", undefined, null, {
+      status,
+      statusText: String(status),
+      data: {},
+      headers,
+      config: {} as InternalAxiosRequestConfig,
+    });
+
+  beforeEach(async () => {
+    process.env = {
+      ...originalEnv,
+      INPI_TRANSPORT_MODE: "replay",
+      INPI_FIXTURES_DIR: FIXTURES_DIR,
+      TMPDIR: await fs.mkdtemp(path.join(os.tmpdir(), "inpi-client-test-")),
+    };
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await clearAuthCache();
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it("retries 429 and 5xx responses, honouring Retry-After", async () => {
+    const request = jest
+      .fn()
+      .mockRejectedValueOnce(httpError(429, { "retry-after": "0" }))
+      .mockRejectedValueOnce(httpError(503, { "retry-after": "0" }))
+      .mockResolvedValueOnce({ status: 200, data: "ok" });
+
+    const response = await inpiRequest({ method: "GET", url: "/busy" }, {
+      request,
+    } as unknown as AxiosInstance);
+
+    expect(response.data).toBe("ok");
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it("fails with QUOTA_EXCEEDED when INPI asks to wait too long", async () => {
+    const request = jest
+      .fn()
+      .mockRejectedValue(httpError(429, { "retry-after": "3600" }));
+
+    const error = await inpiRequest({ method: "GET", url: "/quota" }, {
+      request,
+    } as unknown as AxiosInstance).catch((e) => e);
+
+    expect(error).toBeInstanceOf(APIError);
+    expect(errorCodeFor(error)).toBe("QUOTA_EXCEEDED");
+    expect(error.details).toMatchObject({ retryAfterSeconds: 3600 });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("inpiRequest circuit breaker", () => {
+  const originalEnv = process.env;
+
+  beforeEach(async () => {
+    process.env = {
+      ...originalEnv,
+      INPI_TRANSPORT_MODE: "replay",
+      INPI_FIXTURES_DIR: FIXTURES_DIR,
+      TMPDIR: await fs.mkdtemp(path.join(os.tmpdir(), "inpi-client-test-")),
+    };
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    getInpiCircuitBreaker().recordSuccess();
+  });
+
+  afterEach(async () => {
+    getInpiCircuitBreaker().recordSuccess();
+    await clearAuthCache();
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it("fails fast with UPSTREAM_UNAVAILABLE once INPI keeps failing", async () => {
+    const request = jest
+      .fn()
+      .mockRejectedValue(new AxiosError("connect ECONNREFUSED", "ECONNREFUSED"));
+    const stub = { request } as unknown as AxiosInstance;
+
+    for (let i = 0; i < 5; i++) {
+      await expect(inpiRequest({ method: "GET", url: "/down" }, stub)).rejects.toThrow(
+        "ECONNREFUSED"
+      );
+    }
+    const error = await inpiRequest({ method: "GET", url: "/down" }, stub).catch((e) => e);
+
+    expect(error).toBeInstanceOf(APIError);
+    expect(errorCodeFor(error)).toBe("UPSTREAM_UNAVAILABLE");
+    expect(request).toHaveBeenCalledTimes(5);
+    expect(getInpiHealth().state).toBe("open");
+  });
+
+  it("does not count rejected requests as outages", async () => {
+    const request = jest.fn().mockRejectedValue(
+      new AxiosError("Not Found", "ERR_BAD_REQUEST", undefined, null, {
+        status: 404,
+        statusText: "Not Found",
+        data: {},
+        headers: {},
+        config: {} as InternalAxiosRequestConfig,
+      })
+    );
+
+    for (let i = 0; i < 6; i++) {
+      await inpiRequest({ method: "GET", url: "/missing" }, {
+        request,
+      } as unknown as AxiosInstance).catch(() => {});
+    }
+
+    expect(getInpiHealth().state).toBe("closed");
+  });
+
+  it("leaves the breaker untouched when the local limiter refuses a request", async () => {
+    // Only live traffic goes through the limiter; seed a valid token so no login is attempted.
+    process.env.INPI_TRANSPORT_MODE = "live";
+    await fs.writeFile(
+      path.join(os.tmpdir(), "inpi-auth-cache.json"),
+      JSON.stringify({
+        accessToken: "live-token",
+        tokenExpiry: Date.now() + 60 * 60 * 1000,
+        cookieJar: new tough.CookieJar().toJSON(),
+      })
+    );
+    const request = jest
+      .fn()
+      .mockRejectedValue(new AxiosError("connect ECONNREFUSED", "ECONNREFUSED"));
+    const stub = { request } as unknown as AxiosInstance;
+    await inpiRequest({ method: "GET", url: "/down" }, stub).catch(() => {});
+    jest
+      .spyOn(getInpiRateLimiter(), "acquire")
+      .mockRejectedValue(new QuotaExceededError("Daily INPI quota exhausted", 60));
+
+    const error = await inpiRequest({ method: "GET", url: "/down" }, stub).catch((e) => e);
+
+    expect(errorCodeFor(error)).toBe("QUOTA_EXCEEDED");
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(getInpiHealth().consecutiveFailures).toBe(1);
+  });
+});
@@ -0,0 +1,464 @@
+// src/lib/inpi-search.ts
+
+import { AxiosResponse } from "axios";
+import {
+  InpiAdvancedSearchRange,
+  toAdvancedSearch,
+} from "@/lib/advanced-query";
+import { getCacheTtl } from "@/lib/cache-service";
+import {
+  createInpiHttpClient,
+  getInpiRateLimiter,
+  inpiRequest,
+} from "@/lib/inpi-client";
+import {
+  DateRangeField,
+  DateRanges,
+  NiceLogic,
+  DEFAULT_PAGE_SIZE,
+  normalizeSearchRequest,
+  ORIGIN_OFFICE_CODES,
+  RawSearchRequest,
+  SearchRequest,
+  searchCacheKey,
+} from "@/lib/search-request";
+import { toTrademarkSummary } from "@/lib/search-result";
+import { getOrFetch } from "@/lib/stale-cache";
+
+const INPI_SEARCH_BASE_URL = "https://data.inpi.fr";
+
+// Filters that INPI cannot apply itself are applied here, walking upstream pages of this size.
+// Each page costs a request from the daily INPI quota, so a search walks at most this many, and
+// only the first once less than this share of the daily budget is left.
+const UPSTREAM_PAGE_SIZE = 100;
+const MAX_UPSTREAM_PAGES = 10;
+const LOW_BUDGET_SHARE = 0.1;
+
+// Index fields holding each date as one value. The registration date is derived from several
+// fields (see toTrademarkSummary), so its range can only be checked here.
+const UPSTREAM_DATE_FIELDS: Partial<Record<DateRangeField, string>> = {
+  applicationDate: "applicationDate",
+  expiryDate: "expiryDate",
+};
+
+/**
+ * Facet filters for the data.inpi.fr payload, keyed by aggregation field. Values are OR-ed
+ * within a field and AND-ed across fields.
+ */
+export type InpiSearchFilter = Record<string, string[]>;
+
+export interface InpiClassDescription {
+  class: string;
+  goodServiceDescription?: Array<{ text: string; lang?: string }>;
+}
+
+/**
+ * The subset of an Elasticsearch `_source` document from data.inpi.fr that the app relies on.
+ */
+export interface InpiTrademarkSource {
+  applicationNumber?: string;
+  applicationNumberWithCountryCode?: string;
+  applicationDate?: number | string;
+  expiryDate?: number | string;
+  registrationOfficeCode?: string;
+  markCurrentStatusCode?: string;
+  markFeature?: string;
+  markWordElement?: string;
+  markImageFileName?: string;
+  classDescriptionDetails?: InpiClassDescription[];
+  basicRegistrations?: Array<{
+    registrationNumber?: string;
+    registrationDate?: number | string;
+  }>;
+  history?: Array<{
+    basicRecordKind?: string;
+    publicationIdentifier?: string;
+    publicationDate?: number | string;
+  }>;
+  [key: string]: unknown;
+}
+
+export interface InpiSearchHit {
+  _id?: string;
+  _score?: number;
+  _source: InpiTrademarkSource;
+  [key: string]: unknown;
+}
+
+export interface InpiSearchResponseData {
+  result?: {
+    hits?: {
+      total?: { value: number; relation: string };
+      hits?: InpiSearchHit[];
+    };
+    aggregations?: Record<string, unknown>;
+  };
+  /** Set when INPI was unavailable and an expired cache entry was served instead. */
+  stale?: boolean;
+  /** ISO timestamp of when stale data was fetched from INPI. */
+  staleSince?: string;
+  [key: string]: unknown;
+}
+
+async function performSearchV2(
+  searchPayload: string
+): Promise<AxiosResponse<InpiSearchResponseData>> {
+  const clientV2 = createInpiHttpClient({
+    baseURL: INPI_SEARCH_BASE_URL,
+    // The cookie jar is now managed by the getAccessToken function, so we don't need to pass it here.
+  });
+
+  const requestHeaders: Record<string, string> = {
+    "Content-Type": "text/plain;charset=UTF-8",
+    Accept: "*/*",
+    "User-Agent":
+      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/138.0.0.0 Safari/537.36",
+  };
+
+  // inpiRequest adds the bearer token and re-authenticates if the session was revoked.
+  return inpiRequest<InpiSearchResponseData>(
+    { method: "POST", url: "/search", data: searchPayload, headers: requestHeaders },
+    clientV2
+  );
+}
+
+/**
+ * Keeps only the hits matching the Nice class and origin filters.
+ */
+export function filterHits(
+  hits: InpiSearchHit[],
+  niceClasses: number[],
+  niceLogic: NiceLogic,
+  origin?: string | null
+): InpiSearchHit[] {
+  const hasNiceClassFilter = niceClasses.length > 0;
+  const officeCode = origin ? ORIGIN_OFFICE_CODES[origin.toUpperCase()] : undefined;
+  const hasOriginFilter = !!officeCode;
+
+  if (!hasNiceClassFilter && !hasOriginFilter) return hits;
+
+  return hits.filter((item) => {
+    let matchesNiceClass = !hasNiceClassFilter;
+    if (hasNiceClassFilter) {
+      const classDescriptionDetails = item._source.classDescriptionDetails;
+      if (classDescriptionDetails) {
+        const itemClassNumbers = classDescriptionDetails
+          .map((c) => parseInt(c.class, 10))
+          .filter((cn) => !isNaN(cn));
+
+        if (niceLogic === "OR") {
+          matchesNiceClass = niceClasses.some((selectedCn) =>
+            itemClassNumbers.includes(selectedCn)
+          );
+        } else {
+          matchesNiceClass = niceClasses.every((selectedCn) =>
+            itemClassNumbers.includes(selectedCn)
+          );
+        }
+      } else {
+        matchesNiceClass = false;
+      }
+    }
+
+    let matchesOrigin = !hasOriginFilter;
+    if (hasOriginFilter) {
+      const derivedOrigin = item._source.registrationOfficeCode || "N/A";
+      matchesOrigin = derivedOrigin === officeCode;
+    }
+    return matchesNiceClass && matchesOrigin;
+  });
+}
+
+/**
+ * Whether a hit's dates fall within every range. Dates are compared as the ISO dates of
+ * TrademarkSummary, so a hit without the date never matches a range on it.
+ */
+export function matchesDateRanges(
+  hit: InpiSearchHit,
+  dateRanges: DateRanges
+): boolean {
+  const fields = Object.keys(dateRanges) as DateRangeField[];
+  if (fields.length === 0) return true;
+  const summary = toTrademarkSummary(hit);
+  return fields.every((field) => {
+    const { from, to } = dateRanges[field]!;
+    const date = summary[field];
+    return !!date && (!from || date >= from) && (!to || date <= to);
+  });
+}
+
+// The values of a dotted field ("classDescriptionDetails.class"), looking through arrays.
+function fieldValues(value: unknown, path: string[]): string[] {
+  if (Array.isArray(value)) return value.flatMap((item) => fieldValues(item, path));
+  if (path.length === 0) {
+    return value === undefined || value === null ? [] : [String(value)];
+  }
+  if (!value || typeof value !== "object") return [];
+  return fieldValues((value as Record<string, unknown>)[path[0]], path.slice(1));
+}
+
+/**
+ * Counts each aggregation field's values over the given hits, as terms aggregations, for
+ * results filtered here rather than by INPI. A hit counts once per distinct value.
+ */
+export function aggregateHits(
+  hits: InpiSearchHit[],
+  names: string[]
+): Record<string, unknown> {
+  const aggregations: Record<string, unknown> = {};
+  for (const name of names) {
+    const counts = new Map<string, number>();
+    for (const hit of hits) {
+      for (const value of new Set(fieldValues(hit._source, name.split(".")))) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+    }
+    aggregations[name] = {
+      buckets: [...counts].map(([key, doc_count]) => ({ key, doc_count })),
+    };
+  }
+  return aggregations;
+}
+
+/** Whether less than LOW_BUDGET_SHARE of today's INPI quota is left. */
+export function isDailyBudgetLow(): boolean {
+  const { used, dailyBudget } = getInpiRateLimiter().getUsage();
+  return dailyBudget - used < dailyBudget * LOW_BUDGET_SHARE;
+}
+
+/**
+ * Translates the class, origin, status and mark type filters into INPI facet filters. The
+ * index holds class numbers both zero-padded ("09") and bare ("9"), so both spellings are
+ * requested.
+ */
+export function buildUpstreamFilter(
+  request: Pick<SearchRequest, "niceClasses" | "origin" | "statuses" | "markFeatures">
+): InpiSearchFilter {
+  const filter: InpiSearchFilter = {};
+  if (request.niceClasses.length > 0) {
+    filter["classDescriptionDetails.class"] = request.niceClasses.flatMap((nc) =>
+      nc < 10 ? [String(nc).padStart(2, "0"), String(nc)] : [String(nc)]
+    );
+  }
+  const officeCode = request.origin
+    ? ORIGIN_OFFICE_CODES[request.origin.toUpperCase()]
+    : undefined;
+  if (officeCode) {
+    filter.registrationOfficeCode = [officeCode];
+  }
+  if (request.statuses.length > 0) {
+    filter.markCurrentStatusCode = request.statuses;
+  }
+  if (request.markFeatures.length > 0) {
+    filter.markFeature = request.markFeatures;
+  }
+  return filter;
+}
+
+/**
+ * Translates the date ranges INPI can apply into `advancedSearch` range clauses. Dates are
+ * indexed at midnight in Paris, so day bounds in that time zone keep both ends inclusive.
+ */
+export function buildUpstreamDateRanges(
+  dateRanges: DateRanges
+): InpiAdvancedSearchRange[] {
+  const ranges: InpiAdvancedSearchRange[] = [];
+  for (const field of Object.keys(dateRanges) as DateRangeField[]) {
+    const indexField = UPSTREAM_DATE_FIELDS[field];
+    const { from, to } = dateRanges[field]!;
+    if (!indexField) continue;
+    ranges.push({
+      field: indexField,
+      ...(from && { gte: from }),
+      ...(to && { lte: to }),
+      format: "yyyy-MM-dd",
+      time_zone: "Europe/Paris",
+    });
+  }
+  return ranges;
+}
+
+function buildSearchPayload(
+  request: SearchRequest,
+  page: number,
+  nbResultsPerPage: number,
+  filter: InpiSearchFilter
+) {
+  const range = buildUpstreamDateRanges(request.dateRanges);
+  return {
+    query: {
+      type: "brands",
+      selectedIds: [],
+      sort: request.sort,
+      order: request.order,
+      nbResultsPerPage: nbResultsPerPage.toString(),
+      page: page.toString(),
+      filter: filter,
+      q: request.query,
+      advancedSearch: {
+        ...toAdvancedSearch(request.advancedQuery),
+        ...(range.length > 0 && { range }),
+      },
+      displayStyle: "List",
+    },
+    aggregations: request.aggregations,
+  };
+}
+
+/**
+ * INPI facet filters are OR-ed within a field, so "all of these classes" cannot be expressed
+ * upstream, and neither can a registration date range. The upstream filter narrows the
+ * candidates (to marks having any of the classes, within the other date ranges), and the
+ * remaining checks run here, fetching upstream pages until the requested page is full and one
+ * more match shows that a next page exists. The total is exact once the upstream results are
+ * exhausted and a lower bound ("gte") otherwise.
+ * INPI's aggregations describe the candidates, so the facets are counted over the matches.
+ */
+async function searchWithServerSideFilter(
+  request: SearchRequest,
+  filter: InpiSearchFilter
+): Promise<InpiSearchResponseData> {
+  const { page, nbResultsPerPage } = request;
+  const wanted = page * nbResultsPerPage + 1;
+  const matches: InpiSearchHit[] = [];
+  let firstResponse: InpiSearchResponseData | undefined;
+  let isExhausted = false;
+
+  for (
+    let upstreamPage = 1;
+    upstreamPage <= MAX_UPSTREAM_PAGES &&
+    matches.length < wanted &&
+    (upstreamPage === 1 || !isDailyBudgetLow());
+    upstreamPage++
+  ) {
+    const payload = buildSearchPayload(
+      request,
+      upstreamPage,
+      UPSTREAM_PAGE_SIZE,
+      filter
+    );
+    const { data } = await performSearchV2(JSON.stringify(payload));
+    firstResponse = firstResponse ?? data;
+
+    const hits = data?.result?.hits?.hits ?? [];
+    const pageMatches = filterHits(
+      hits,
+      request.niceClasses,
+      request.niceLogic,
+      request.origin
+    );
+    matches.push(
+      ...pageMatches.filter((hit) => matchesDateRanges(hit, request.dateRanges))
+    );
+
+    const upstreamTotal = data?.result?.hits?.total?.value ?? 0;
+    if (
+      hits.length < UPSTREAM_PAGE_SIZE ||
+      upstreamPage * UPSTREAM_PAGE_SIZE >= upstreamTotal
+    ) {
+      isExhausted = true;
+      break;
+    }
+  }
+
+  const start = (page - 1) * nbResultsPerPage;
+  return {
+    ...firstResponse,
+    result: {
+      ...firstResponse?.result,
+      aggregations: aggregateHits(matches, request.aggregations),
+      hits: {
+        ...firstResponse?.result?.hits,
+        total: {
+          value: matches.length,
+          relation: isExhausted ? "eq" : "gte",
+        },
+        hits: matches.slice(start, start + nbResultsPerPage),
+      },
+    },
+  };
+}
+
+async function fetchSearch(request: SearchRequest): Promise<InpiSearchResponseData> {
+  const filter = buildUpstreamFilter(request);
+  const dateFields = Object.keys(request.dateRanges) as DateRangeField[];
+
+  if (
+    (request.niceLogic === "AND" && request.niceClasses.length > 1) ||
+    dateFields.some((field) => !UPSTREAM_DATE_FIELDS[field])
+  ) {
+    return searchWithServerSideFilter(request, filter);
+  }
+  // Everything else is expressible as facet filters and ranges, so INPI's totals, paging and
+  // aggregations are exact.
+  const searchPayload = buildSearchPayload(
+    request,
+    request.page,
+    request.nbResultsPerPage,
+    filter
+  );
+  const { data } = await performSearchV2(JSON.stringify(searchPayload));
+  // advancedSearch is undocumented: should INPI ignore the ranges, filter its hits here.
+  const hits = data?.result?.hits?.hits ?? [];
+  if (!hits.every((hit) => matchesDateRanges(hit, request.dateRanges))) {
+    console.warn(
+      "[INPI_SEARCH] INPI ignored the date ranges; filtering its hits instead."
+    );
+    return searchWithServerSideFilter(request, filter);
+  }
+  return data;
+}
+
+/**
+ * Searches INPI like performSearchRequest but without the search cache, for callers that need
+ * today's results rather than those of the week, such as watch runs. Nothing is cached, and
+ * a failure is thrown rather than answered with stale data.
+ */
+export async function performUncachedSearch(
+  request: SearchRequest
+): Promise<InpiSearchResponseData> {
+  return fetchSearch(request);
+}
+
+/**
+ * Searches INPI trademarks through data.inpi.fr. This is the single search path shared by
+ * the GET /api/trademarks/search and POST /api/trademarks/searchV2 routes, so both get the
+ * same authentication, caching and filtering. When INPI is down, an expired cached result is
+ * returned with `stale: true` rather than failing.
+ *
+ * @param request The canonical request from `normalizeSearchRequest`, with search terms (see
+ * `hasSearchTerms`). The cache key is derived from it.
+ */
+export async function performSearchRequest(
+  request: SearchRequest
+): Promise<InpiSearchResponseData> {
+  const result = await getOrFetch(
+    searchCacheKey(request),
+    () => fetchSearch(request),
+    getCacheTtl("search")
+  );
+  if (!result.stale) return result.data;
+  return {
+    ...result.data,
+    stale: true,
+    staleSince: new Date(result.cachedAt).toISOString(),
+  };
+}
+
+/**
+ * Searches INPI trademarks for `query`, for scripts and other callers that do not build a
+ * SearchRequest themselves. The arguments go through `normalizeSearchRequest`, so this is the
+ * same search, with the same cache entries, as `performSearchRequest`.
+ *
+ * @param options Filters, sort and aggregations, in any form `normalizeSearchRequest` accepts.
+ */
+export async function performSearch(
+  query: string,
+  page = 1,
+  nbResultsPerPage = DEFAULT_PAGE_SIZE,
+  options: Omit<RawSearchRequest, "q" | "page" | "nbResultsPerPage"> = {}
+): Promise<InpiSearchResponseData> {
+  return performSearchRequest(
+    normalizeSearchRequest({ ...options, q: query, page, nbResultsPerPage })
+  );
+}
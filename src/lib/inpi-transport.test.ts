@@ -0,0 +1,195 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import {
+  clearAuthCache,
+  createInpiHttpClient,
+  getAccessToken,
+  client,
+} from "@/lib/inpi-client";
+import {
+  fixturesFromHar,
+  getTransportMode,
+  InpiFixture,
+  saveFixture,
+} from "@/lib/inpi-transport";
+
+const FIXTURES_DIR = path.join(__dirname, "..", "..", "fixtures", "inpi");
+const NOTICE_URL =
+  "https://api-gateway.inpi.fr/services/apidiffusion/api/marques/notice/FR1324250";
+
+const searchPayload = {
+  query: {
+    type: "brands",
+    selectedIds: [],
+    sort: "relevance",
+    order: "asc",
+    nbResultsPerPage: "20",
+    page: "1",
+    filter: {},
+    q: "bila",
+    advancedSearch: {},
+    displayStyle: "List",
+  },
+  aggregations: [
+    "markCurrentStatusCode",
+    "markFeature",
+    "registrationOfficeCode",
+    "classDescriptionDetails.class",
+  ],
+};
+
+describe("INPI replay transport", () => {
+  const originalEnv = process.env;
+
+  beforeEach(async () => {
+    process.env = {
+      ...originalEnv,
+      INPI_TRANSPORT_MODE: "replay",
+      INPI_FIXTURES_DIR: FIXTURES_DIR,
+      INPI_REPLAY_STRICT: "1",
+      // Keep the auth cache file away from other test files running in parallel.
+      TMPDIR: await fs.mkdtemp(path.join(os.tmpdir(), "inpi-transport-test-")),
+    };
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    await clearAuthCache();
+  });
+
+  afterEach(async () => {
+    await clearAuthCache();
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it("reads the mode from INPI_TRANSPORT_MODE", () => {
+    expect(getTransportMode()).toBe("replay");
+    process.env.INPI_TRANSPORT_MODE = "bogus";
+    expect(getTransportMode()).toBe("live");
+  });
+
+  it("replays the /login and /auth/login flow without credentials", async () => {
+    delete process.env.INPI_USERNAME;
+    delete process.env.INPI_PASSWORD;
+
+    await expect(getAccessToken()).resolves.toBe("replay-access-token");
+  });
+
+  it("replays notice and image requests through the shared client", async () => {
+    await getAccessToken();
+
+    const notice = await client.get(NOTICE_URL, { responseType: "text" });
+    expect(notice.status).toBe(200);
+    expect(notice.data).toContain("<MarkVerbalElementText>BILA");
+
+    const image = await client.get(
+      "https://api-gateway.inpi.fr/services/apidiffusion/api/marques/image/FR1324250/std",
+      { responseType: "arraybuffer" }
+    );
+    expect(image.headers["content-type"]).toBe("image/png");
+    expect(Buffer.from(image.data).subarray(1, 4).toString()).toBe("PNG");
+  });
+
+  it("replays binary responses as streams when asked to", async () => {
+    await getAccessToken();
+
+    const image = await client.get<Readable>(
+      "https://api-gateway.inpi.fr/services/apidiffusion/api/marques/image/FR1324250/std",
+      { responseType: "stream" }
+    );
+    const chunks: Buffer[] = [];
+    for await (const chunk of image.data) chunks.push(Buffer.from(chunk));
+    expect(Buffer.concat(chunks).subarray(1, 4).toString()).toBe("PNG");
+  });
+
+  it("matches search requests on their JSON body regardless of key order", async () => {
+    const searchClient = createInpiHttpClient({
+      baseURL: "https://data.inpi.fr",
+    });
+    const reordered = {
+      aggregations: searchPayload.aggregations,
+      query: { ...searchPayload.query },
+    };
+
+    const response = await searchClient.post("/search", JSON.stringify(reordered), {
+      headers: { "Content-Type": "text/plain;charset=UTF-8" },
+    });
+
+    expect(response.data.result.hits.total.value).toBe(232);
+    expect(response.data.result.hits.hits).toHaveLength(20);
+  });
+
+  it("fails loudly when no fixture was recorded", async () => {
+    const searchClient = createInpiHttpClient({
+      baseURL: "https://data.inpi.fr",
+    });
+    const otherQuery = {
+      ...searchPayload,
+      query: { ...searchPayload.query, q: "never-recorded" },
+    };
+
+    await expect(
+      searchClient.post("/search", JSON.stringify(otherQuery))
+    ).rejects.toThrow(/No recorded INPI fixture/);
+  });
+
+  it("imports INPI entries from HAR captures and drops credentials", () => {
+    const fixtures = fixturesFromHar({
+      log: {
+        entries: [
+          {
+            request: {
+              method: "POST",
+              url: "https://api-gateway.inpi.fr/auth/login",
+              postData: {
+                text: '{"username":"someone","password":"secret","rememberMe":false}',
+              },
+            },
+            response: {
+              status: 200,
+              headers: [{ name: "Content-Type", value: "application/json" }],
+              content: { text: '{"access_token":"real-token","expires_in":3600}' },
+            },
+          },
+          {
+            request: {
+              method: "POST",
+              url: "https://data.inpi.fr/cdn-cgi/challenge-platform/h/b/jsd/r/1",
+            },
+            response: { status: 200, headers: [], content: { text: "" } },
+          },
+          {
+            request: { method: "GET", url: "http://localhost:3000/?q=bila" },
+            response: { status: 200, headers: [], content: { text: "" } },
+          },
+        ],
+      },
+    });
+
+    expect(fixtures).toHaveLength(1);
+    expect(fixtures[0].request.body).not.toContain("secret");
+    expect(fixtures[0].request.body).not.toContain("someone");
+    expect(fixtures[0].response.body).not.toContain("real-token");
+  });
+
+  it("keeps the committed fixtures as the recorder writes them", async () => {
+    const files = (await fs.readdir(FIXTURES_DIR)).filter((file) => file.endsWith(".json"));
+    const outDir = await fs.mkdtemp(path.join(os.tmpdir(), "inpi-fixtures-"));
+
+    for (const file of files) {
+      const content = await fs.readFile(path.join(FIXTURES_DIR, file), "utf-8");
+      const fixture: InpiFixture = JSON.parse(content);
+      const saved = await saveFixture(fixture, outDir);
+
+      // Same name, hence same body hash, as a fresh recording.
+      expect(path.basename(saved)).toBe(file);
+      expect(await fs.readFile(saved, "utf-8")).toBe(content);
+      if (fixture.request.body) {
+        const body = JSON.parse(fixture.request.body);
+        for (const field of ["username", "password"]) {
+          if (field in body) expect(body[field]).toBe("[REDACTED]");
+        }
+      }
+    }
+  });
+});
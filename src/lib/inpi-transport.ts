@@ -0,0 +1,447 @@
+// src/lib/inpi-transport.ts
+
+import axios, {
+  AxiosError,
+  type AxiosAdapter,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from "axios";
+import { createHash } from "crypto";
+import fsSync from "fs";
+import fs from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+
+/**
+ * Transport modes for INPI traffic.
+ * - `live`: requests go straight to INPI (default).
+ * - `record`: requests go to INPI and every response is written to the fixtures directory.
+ * - `replay`: requests never leave the process; responses are served from recorded fixtures.
+ */
+export type InpiTransportMode = "live" | "record" | "replay";
+
+/**
+ * A single recorded INPI exchange, stored as one JSON file per request.
+ */
+export interface InpiFixture {
+  request: {
+    method: string;
+    url: string;
+    body?: string;
+  };
+  response: {
+    status: number;
+    statusText?: string;
+    headers: Record<string, string | string[]>;
+    body: string;
+    encoding: "utf8" | "base64";
+  };
+}
+
+interface HarHeader {
+  name: string;
+  value: string;
+}
+
+interface HarEntry {
+  request: {
+    method: string;
+    url: string;
+    postData?: { text?: string };
+  };
+  response: {
+    status: number;
+    statusText?: string;
+    headers: HarHeader[];
+    content: { text?: string; encoding?: string };
+  };
+}
+
+const REDACTED_REQUEST_FIELDS = ["username", "password"];
+const REPLAY_ACCESS_TOKEN = "replay-access-token";
+// Headers that describe the wire encoding rather than the payload; axios has already decoded the body.
+const DROPPED_RESPONSE_HEADERS = [
+  "content-encoding",
+  "content-length",
+  "transfer-encoding",
+  "connection",
+];
+const TEXT_CONTENT_TYPE_PATTERN = /json|xml|text|javascript|html/i;
+
+export function getTransportMode(): InpiTransportMode {
+  const mode = process.env.INPI_TRANSPORT_MODE?.toLowerCase();
+  if (mode === "record" || mode === "replay") return mode;
+  return "live";
+}
+
+export function getFixturesDir(): string {
+  return (
+    process.env.INPI_FIXTURES_DIR ||
+    path.join(process.cwd(), "fixtures", "inpi")
+  );
+}
+
+// Sorts object keys recursively so that equivalent JSON bodies hash identically.
+function canonicalizeJson(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalizeJson);
+  if (value && typeof value === "object") {
+    return Object.keys(value as Record<string, unknown>)
+      .sort()
+      .reduce<Record<string, unknown>>((acc, key) => {
+        acc[key] = canonicalizeJson((value as Record<string, unknown>)[key]);
+        return acc;
+      }, {});
+  }
+  return value;
+}
+
+// Credentials must never end up in a fixture file, and they must not influence matching either.
+function redactRequestBody(body?: string): string | undefined {
+  if (!body) return undefined;
+  try {
+    const parsed = JSON.parse(body);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      for (const field of REDACTED_REQUEST_FIELDS) {
+        if (field in parsed) parsed[field] = "[REDACTED]";
+      }
+    }
+    return JSON.stringify(canonicalizeJson(parsed));
+  } catch {
+    return body;
+  }
+}
+
+function redactResponseBody(body: string): string {
+  try {
+    const parsed = JSON.parse(body);
+    if (parsed && typeof parsed.access_token === "string") {
+      parsed.access_token = REPLAY_ACCESS_TOKEN;
+      return JSON.stringify(parsed);
+    }
+  } catch {
+    // Not JSON, nothing to redact.
+  }
+  return body;
+}
+
+function normalizeUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.searchParams.sort();
+  parsed.hash = "";
+  return parsed.toString();
+}
+
+/**
+ * Builds the lookup key used to match a request against recorded fixtures.
+ */
+export function fixtureKey(method: string, url: string, body?: string): string {
+  const bodyHash = body
+    ? createHash("sha256").update(redactRequestBody(body)!).digest("hex")
+    : "-";
+  return `${method.toUpperCase()} ${normalizeUrl(url)} ${bodyHash}`;
+}
+
+function fixtureFileName(fixture: InpiFixture): string {
+  const { method, url, body } = fixture.request;
+  const parsed = new URL(url);
+  const slug = `${parsed.hostname}${parsed.pathname}`
+    .replace(/[^a-zA-Z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  const hash = createHash("sha256")
+    .update(fixtureKey(method, url, body))
+    .digest("hex")
+    .slice(0, 10);
+  return `${method.toLowerCase()}_${slug}_${hash}.json`;
+}
+
+function isTextContentType(headers: Record<string, string | string[]>) {
+  const contentType = headers["content-type"];
+  const value = Array.isArray(contentType) ? contentType[0] : contentType;
+  return !value || TEXT_CONTENT_TYPE_PATTERN.test(value);
+}
+
+function normalizeHeaders(
+  headers: Record<string, unknown>
+): Record<string, string | string[]> {
+  const result: Record<string, string | string[]> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    const key = name.toLowerCase();
+    if (DROPPED_RESPONSE_HEADERS.includes(key) || value == null) continue;
+    result[key] = Array.isArray(value) ? value.map(String) : String(value);
+  }
+  return result;
+}
+
+/**
+ * Writes a fixture to disk and returns the path of the created file.
+ */
+export async function saveFixture(
+  fixture: InpiFixture,
+  fixturesDir: string = getFixturesDir()
+): Promise<string> {
+  await fs.mkdir(fixturesDir, { recursive: true });
+  const filePath = path.join(fixturesDir, fixtureFileName(fixture));
+  await fs.writeFile(filePath, JSON.stringify(fixture, null, 2), "utf-8");
+  replayStores.delete(fixturesDir);
+  return filePath;
+}
+
+/**
+ * Converts browser HAR captures (e.g. `docs/Api documentation/debug/*.har`) into fixtures.
+ * Only INPI hosts are kept; Cloudflare challenge traffic and static assets are skipped.
+ */
+export function fixturesFromHar(har: { log: { entries: HarEntry[] } }): InpiFixture[] {
+  return har.log.entries
+    .filter((entry) => {
+      const { hostname, pathname } = new URL(entry.request.url);
+      return (
+        /(^|\.)inpi\.fr$/.test(hostname) &&
+        !pathname.startsWith("/cdn-cgi/") &&
+        entry.response.status > 0
+      );
+    })
+    .map((entry) => {
+      const headers: Record<string, string | string[]> = {};
+      for (const { name, value } of entry.response.headers) {
+        const key = name.toLowerCase();
+        if (DROPPED_RESPONSE_HEADERS.includes(key)) continue;
+        const existing = headers[key];
+        if (existing === undefined) headers[key] = value;
+        else headers[key] = ([] as string[]).concat(existing, value);
+      }
+      const isBase64 = entry.response.content.encoding === "base64";
+      const text = entry.response.content.text ?? "";
+      return {
+        request: {
+          method: entry.request.method.toUpperCase(),
+          url: entry.request.url,
+          body: redactRequestBody(entry.request.postData?.text),
+        },
+        response: {
+          status: entry.response.status,
+          statusText: entry.response.statusText,
+          headers,
+          body: isBase64 ? text : redactResponseBody(text),
+          encoding: isBase64 ? "base64" : "utf8",
+        },
+      };
+    });
+}
+
+/**
+ * Imports a HAR file into the fixtures directory and returns the created fixture paths.
+ */
+export async function importHarFile(
+  harPath: string,
+  fixturesDir: string = getFixturesDir()
+): Promise<string[]> {
+  const har = JSON.parse(await fs.readFile(harPath, "utf-8"));
+  const written: string[] = [];
+  for (const fixture of fixturesFromHar(har)) {
+    written.push(await saveFixture(fixture, fixturesDir));
+  }
+  return written;
+}
+
+// --- Replay store ---
+
+interface ReplayStore {
+  exact: Map<string, InpiFixture>;
+  byUrl: Map<string, InpiFixture>;
+}
+
+const replayStores = new Map<string, ReplayStore>();
+
+function loadReplayStore(fixturesDir: string): ReplayStore {
+  const cached = replayStores.get(fixturesDir);
+  if (cached) return cached;
+
+  const store: ReplayStore = { exact: new Map(), byUrl: new Map() };
+  const files = fsSync.existsSync(fixturesDir)
+    ? fsSync.readdirSync(fixturesDir).sort()
+    : [];
+  for (const file of files) {
+    const filePath = path.join(fixturesDir, file);
+    let fixtures: InpiFixture[] = [];
+    try {
+      const content = JSON.parse(fsSync.readFileSync(filePath, "utf-8"));
+      if (file.endsWith(".har")) fixtures = fixturesFromHar(content);
+      else if (file.endsWith(".json")) fixtures = [content as InpiFixture];
+    } catch (error) {
+      console.warn(`[INPI_TRANSPORT] Skipping unreadable fixture ${filePath}:`, error);
+    }
+    for (const fixture of fixtures) {
+      const { method, url, body } = fixture.request;
+      store.exact.set(fixtureKey(method, url, body), fixture);
+      const urlKey = fixtureKey(method, url);
+      if (!store.byUrl.has(urlKey)) store.byUrl.set(urlKey, fixture);
+    }
+  }
+  replayStores.set(fixturesDir, store);
+  return store;
+}
+
+/**
+ * Finds the fixture matching a request. Unless `INPI_REPLAY_STRICT` is set, a request whose body
+ * has not been recorded falls back to any fixture for the same method and URL.
+ */
+export function findFixture(
+  method: string,
+  url: string,
+  body?: string,
+  fixturesDir: string = getFixturesDir()
+): InpiFixture | undefined {
+  const store = loadReplayStore(fixturesDir);
+  const exact = store.exact.get(fixtureKey(method, url, body));
+  if (exact || process.env.INPI_REPLAY_STRICT) return exact;
+  return store.byUrl.get(fixtureKey(method, url));
+}
+
+// --- Axios adapters ---
+
+function requestUrl(config: InternalAxiosRequestConfig): string {
+  return axios.getUri(config);
+}
+
+function requestBody(config: InternalAxiosRequestConfig): string | undefined {
+  if (config.data === undefined || config.data === null) return undefined;
+  return typeof config.data === "string"
+    ? config.data
+    : JSON.stringify(config.data);
+}
+
+function settleResponse(
+  config: InternalAxiosRequestConfig,
+  response: AxiosResponse
+): AxiosResponse {
+  const validateStatus = config.validateStatus;
+  if (!response.status || !validateStatus || validateStatus(response.status)) {
+    return response;
+  }
+  throw new AxiosError(
+    `Request failed with status code ${response.status}`,
+    response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    null,
+    response
+  );
+}
+
+const replayAdapter: AxiosAdapter = async (config) => {
+  const url = requestUrl(config);
+  const method = (config.method || "get").toUpperCase();
+  const fixture = findFixture(method, url, requestBody(config));
+  if (!fixture) {
+    throw new AxiosError(
+      `No recorded INPI fixture for ${method} ${url} in ${getFixturesDir()}`,
+      AxiosError.ERR_NETWORK,
+      config
+    );
+  }
+
+  const { response } = fixture;
+  const setCookies = ([] as string[]).concat(response.headers["set-cookie"] ?? []);
+  if (config.jar && setCookies.length > 0) {
+    for (const cookie of setCookies) {
+      await config.jar.setCookie(cookie, url, { ignoreError: true });
+    }
+  }
+
+  const buffer =
+    response.encoding === "base64"
+      ? Buffer.from(response.body, "base64")
+      : Buffer.from(response.body, "utf-8");
+  const data =
+    config.responseType === "stream"
+      ? Readable.from(buffer)
+      : config.responseType === "arraybuffer"
+      ? buffer
+      : buffer.toString("utf-8");
+
+  return settleResponse(config, {
+    data,
+    status: response.status,
+    statusText: response.statusText || "",
+    headers: { ...response.headers },
+    config,
+    request: { replayed: true },
+  });
+};
+
+function toFixture(method: string, url: string, body: string | undefined, response: AxiosResponse): InpiFixture {
+  const headers = normalizeHeaders(
+    typeof response.headers?.toJSON === "function"
+      ? response.headers.toJSON()
+      : (response.headers as Record<string, unknown>) ?? {}
+  );
+  const raw = response.data;
+  const isBinary = Buffer.isBuffer(raw) && !isTextContentType(headers);
+  const text = Buffer.isBuffer(raw)
+    ? raw.toString(isBinary ? "base64" : "utf-8")
+    : typeof raw === "string"
+    ? raw
+    : JSON.stringify(raw);
+  return {
+    request: { method, url, body: redactRequestBody(body) },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body: isBinary ? text : redactResponseBody(text),
+      encoding: isBinary ? "base64" : "utf8",
+    },
+  };
+}
+
+async function readStream(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+const recordAdapter: AxiosAdapter = async (config) => {
+  const httpAdapter = axios.getAdapter("http");
+  const url = requestUrl(config);
+  const method = (config.method || "get").toUpperCase();
+  const body = requestBody(config);
+  try {
+    const response = await httpAdapter(config);
+    if (response.data instanceof Readable) {
+      // Streamed bodies are buffered to be recorded, then handed back as a fresh stream.
+      const buffer = await readStream(response.data);
+      await saveFixture(toFixture(method, url, body, { ...response, data: buffer })).catch(
+        (error) => console.error("[INPI_TRANSPORT] Failed to record fixture:", error)
+      );
+      return { ...response, data: Readable.from(buffer) };
+    }
+    await saveFixture(toFixture(method, url, body, response)).catch((error) =>
+      console.error("[INPI_TRANSPORT] Failed to record fixture:", error)
+    );
+    return response;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      if (error.response.data instanceof Readable) {
+        error.response.data = await readStream(error.response.data);
+      }
+      await saveFixture(toFixture(method, url, body, error.response)).catch(
+        (saveError) =>
+          console.error("[INPI_TRANSPORT] Failed to record fixture:", saveError)
+      );
+    }
+    throw error;
+  }
+};
+
+/**
+ * Returns the axios adapter for the configured transport mode, or undefined in live mode
+ * so that axios keeps its default adapter.
+ */
+export function getTransportAdapter(
+  mode: InpiTransportMode = getTransportMode()
+): AxiosAdapter | undefined {
+  if (mode === "replay") return replayAdapter;
+  if (mode === "record") return recordAdapter;
+  return undefined;
+}
@@ -0,0 +1,91 @@
+import {
+  editDistance,
+  expandQuery,
+  frenchPhoneticKey,
+  scoreSimilarity,
+  visualSkeleton,
+} from "@/lib/mark-similarity";
+
+describe("frenchPhoneticKey", () => {
+  it("gives marks that sound alike in French the same key", () => {
+    expect(frenchPhoneticKey("BILLA")).toBe(frenchPhoneticKey("BYLA"));
+    expect(frenchPhoneticKey("KWIK")).toBe(frenchPhoneticKey("QUICK"));
+    expect(frenchPhoneticKey("PHARMA")).toBe(frenchPhoneticKey("FARMA"));
+    expect(frenchPhoneticKey("Chocolat")).toBe(frenchPhoneticKey("SHOKOLA"));
+    expect(frenchPhoneticKey("L'Oréal")).toBe(frenchPhoneticKey("LOREAL"));
+    expect(frenchPhoneticKey("CHRONO")).toBe("KRANA");
+    expect(frenchPhoneticKey("BILLA")).not.toBe(frenchPhoneticKey("BOLT"));
+  });
+});
+
+describe("visualSkeleton", () => {
+  it("folds letters that are spelled interchangeably", () => {
+    expect(visualSkeleton("BYLLA")).toBe(visualSkeleton("bila"));
+    expect(visualSkeleton("K0DAK")).toBe(visualSkeleton("CODAC"));
+    expect(visualSkeleton("BILLA")).not.toBe(visualSkeleton("BELLA"));
+  });
+});
+
+describe("editDistance", () => {
+  it("counts insertions, deletions, substitutions and transpositions", () => {
+    expect(editDistance("bila", "bila")).toBe(0);
+    expect(editDistance("bila", "bilal")).toBe(1);
+    expect(editDistance("bila", "bial")).toBe(1);
+    expect(editDistance("kwik", "quick")).toBe(3);
+  });
+});
+
+describe("expandQuery", () => {
+  it("puts the query first and reaches two-step respellings early", () => {
+    const byla = expandQuery("Byla", 12).map((variant) => variant.query);
+    expect(byla[0]).toBe("byla");
+    expect(byla.slice(0, 4)).toEqual(
+      expect.arrayContaining(["bila", "bylla", "billa"])
+    );
+    expect(expandQuery("KWIK", 12).map((variant) => variant.query)).toContain(
+      "quick"
+    );
+  });
+
+  it("explains each variant and respects the limit", () => {
+    const variants = expandQuery("billa", 5);
+    expect(variants).toHaveLength(5);
+    expect(variants[0]).toEqual({ query: "billa", reason: "query as entered" });
+    expect(variants.find((variant) => variant.query === "bila")?.reason).toBe(
+      '"ll" spelled "l"'
+    );
+    expect(new Set(variants.map((variant) => variant.query)).size).toBe(5);
+  });
+});
+
+describe("scoreSimilarity", () => {
+  it("scores the best match among the mark and its words, with reasons", () => {
+    expect(scoreSimilarity("bila", "BILA")).toEqual({
+      score: 1,
+      reasons: [{ kind: "identical", detail: 'identical to "BILA"', score: 1 }],
+    });
+
+    const similarity = scoreSimilarity("byla", "BILLA FOOD");
+    expect(similarity.score).toBe(0.9);
+    expect(similarity.reasons.map((reason) => reason.kind)).toEqual([
+      "phonetic",
+      "visual",
+    ]);
+    expect(similarity.reasons[0].detail).toBe(
+      'sounds like "BILLA" (phonetic key BALA)'
+    );
+  });
+
+  it("falls back to edit distance and containment, and scores unrelated marks 0", () => {
+    expect(scoreSimilarity("bila", "BIAL").reasons).toEqual([
+      { kind: "editDistance", detail: '1 edit from "BIAL"', score: 0.68 },
+    ]);
+    expect(scoreSimilarity("bila", "CABILANTE").reasons[0].kind).toBe(
+      "contains"
+    );
+    expect(scoreSimilarity("bila", "TERRAILLON")).toEqual({
+      score: 0,
+      reasons: [],
+    });
+  });
+});
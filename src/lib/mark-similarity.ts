@@ -0,0 +1,355 @@
+// src/lib/mark-similarity.ts
+
+import { normalizeQueryText } from "@/lib/search-request";
+
+// How alike two word marks are, for clearance searches: the query is expanded into variants
+// that INPI's full-text search would otherwise miss, and every hit is scored against the
+// original query with the reasons it matched.
+
+/** Why a mark matched, strongest first in a SimilarityScore. */
+export type SimilarityReasonKind =
+  "identical" | "phonetic" | "visual" | "editDistance" | "contains";
+
+export interface SimilarityReason {
+  kind: SimilarityReasonKind;
+  /** Human-readable, e.g. `sounds like "BILLA" (phonetic key BALA)`. */
+  detail: string;
+  score: number;
+}
+
+export interface SimilarityScore {
+  /** 0 to 1; the best of the reasons. */
+  score: number;
+  reasons: SimilarityReason[];
+}
+
+/** Query variants tried by a clearance search, with the rule that produced each. */
+export interface QueryVariant {
+  query: string;
+  reason: string;
+}
+
+/** Lower-case letters and digits only: "L'Oréal-Paris" becomes "loreal paris". */
+export function normalizeMarkText(text: string): string {
+  return normalizeQueryText(text)
+    .replace(/[^a-z0-9 ]+/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// French spelling rules, applied in order. Vowel sounds are then reduced to one symbol, so
+// the key keeps the rhythm of the word but not the exact vowel (BILLA and BYLA share BALA).
+const FRENCH_PHONETIC_RULES: Array<[RegExp, string]> = [
+  [/ch(?=r)/g, "k"],
+  // "#" stands for the "ch" sound until the vowels are reduced.
+  [/sch|sh|ch/g, "#"],
+  [/ph/g, "f"],
+  [/qu|q|ck|c(?![eiy])/g, "k"],
+  [/c(?=[eiy])/g, "s"],
+  [/gu(?=[eiy])/g, "g"],
+  [/g(?=[eiy])/g, "j"],
+  [/gn/g, "n"],
+  [/x/g, "ks"],
+  [/z/g, "s"],
+  [/w/g, "v"],
+  [/h/g, ""],
+  [/(.)\1+/g, "$1"],
+  // Final consonants French does not pronounce, and a final mute e.
+  [/(?<=..)[stdx]$/, ""],
+  [/(?<=..)e$/, ""],
+];
+
+/**
+ * A phonetic key for French pronunciation: marks that sound alike when read aloud in French
+ * share it. "KWIK" and "QUICK" both give "KAK".
+ */
+export function frenchPhoneticKey(text: string): string {
+  return normalizeMarkText(text)
+    .split(" ")
+    .map((word) => {
+      let key = word;
+      for (const [pattern, replacement] of FRENCH_PHONETIC_RULES) {
+        key = key.replace(pattern, replacement);
+      }
+      // "kv" is how "qu"/"kw" is read in borrowed words: KWIK is pronounced like QUICK.
+      return key
+        .replace(/kv/g, "k")
+        .replace(/[aeiouy]+/g, "a")
+        .replace(/#/g, "ch")
+        .toUpperCase();
+    })
+    .join(" ");
+}
+
+// Spellings that sound interchangeable in a mark, likeliest first. Each pair is tried both
+// ways.
+const SUBSTITUTIONS: Array<[string, string]> = [
+  ["kw", "qu"],
+  ["qu", "k"],
+  ["k", "ck"],
+  ["c", "k"],
+  ["i", "y"],
+  ["ph", "f"],
+  ["s", "z"],
+  ["w", "v"],
+  ["x", "ks"],
+  ["ou", "u"],
+  ["au", "o"],
+  ["ai", "e"],
+];
+
+// Digits standing in for the letters they look like. Only used for single respellings.
+const LOOKALIKE_DIGITS: Array<[string, string]> = [
+  ["o", "0"],
+  ["i", "1"],
+  ["l", "1"],
+  ["e", "3"],
+];
+
+const VOWEL = /[aeiouy]/;
+
+/** Rules out respellings nobody would write: "ck" after a consonant, "qu" before a consonant. */
+function isPlausible(
+  text: string,
+  index: number,
+  from: string,
+  to: string
+): boolean {
+  if (to === "ck") return index > 0 && VOWEL.test(text[index - 1]);
+  if (to === "qu") return /[aeioy]/.test(text[index + from.length] ?? "");
+  return true;
+}
+
+// Marks longer than this only get single respellings, the pairs growing quadratically.
+const MAX_PAIRED_RESPELLING_LENGTH = 20;
+
+/**
+ * The spelling with confusable characters folded together: y becomes i, k and q become c,
+ * doubled letters become single, and so on. Marks that only differ by such substitutions
+ * share a skeleton.
+ */
+export function visualSkeleton(text: string): string {
+  return normalizeMarkText(text)
+    .replace(/ph/g, "f")
+    .replace(/qu|kw|ck|k|q/g, "c")
+    .replace(/y/g, "i")
+    .replace(/z/g, "s")
+    .replace(/w/g, "v")
+    .replace(/0/g, "o")
+    .replace(/1/g, "l")
+    .replace(/3/g, "e")
+    .replace(/([a-z])\1+/g, "$1");
+}
+
+/**
+ * Edit distance with adjacent transpositions (optimal string alignment): "BILA" to "BIAL"
+ * is 1, not 2.
+ */
+export function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) =>
+      i === 0 ? j : j === 0 ? i : 0
+    )
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+function replaceAt(
+  text: string,
+  index: number,
+  from: string,
+  to: string
+): string {
+  return text.slice(0, index) + to + text.slice(index + from.length);
+}
+
+/**
+ * Single respellings of a word: one substitution, or one consonant doubled or undoubled.
+ * Lookalike digits are left out when respelling an already respelled word.
+ */
+function respellings(text: string, withDigits: boolean): Map<string, string> {
+  const results = new Map<string, string>();
+  const add = (variant: string, reason: string) => {
+    if (variant !== text && !results.has(variant)) results.set(variant, reason);
+  };
+  const rules = withDigits
+    ? [...SUBSTITUTIONS, ...LOOKALIKE_DIGITS]
+    : SUBSTITUTIONS;
+  for (const [a, b] of rules) {
+    for (const [from, to] of [
+      [a, b],
+      [b, a],
+    ]) {
+      for (
+        let i = text.indexOf(from);
+        i !== -1;
+        i = text.indexOf(from, i + 1)
+      ) {
+        if (isPlausible(text, i, from, to)) {
+          add(replaceAt(text, i, from, to), `"${from}" spelled "${to}"`);
+        }
+      }
+    }
+  }
+  // BILLA and BILA: the consonants French doubles, between vowels.
+  for (let i = 1; i < text.length - 1; i++) {
+    const letter = text[i];
+    if (!/[cflmnprst]/.test(letter)) continue;
+    if (text[i + 1] === letter) {
+      add(
+        replaceAt(text, i, letter + letter, letter),
+        `"${letter}${letter}" spelled "${letter}"`
+      );
+    } else if (VOWEL.test(text[i - 1]) && VOWEL.test(text[i + 1])) {
+      add(
+        replaceAt(text, i, letter, letter + letter),
+        `"${letter}" spelled "${letter}${letter}"`
+      );
+    }
+  }
+  return results;
+}
+
+/** One letter dropped, or two adjacent letters swapped. */
+function typingEdits(text: string): Map<string, string> {
+  const results = new Map<string, string>();
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] !== " ")
+      results.set(replaceAt(text, i, text[i], ""), `without "${text[i]}"`);
+  }
+  for (let i = 0; i < text.length - 1; i++) {
+    const pair = text[i] + text[i + 1];
+    if (text[i] !== text[i + 1] && !pair.includes(" ")) {
+      results.set(
+        replaceAt(text, i, pair, text[i + 1] + text[i]),
+        `"${pair}" swapped`
+      );
+    }
+  }
+  return results;
+}
+
+/**
+ * The searches a clearance search runs for a query: the query itself, then respellings (one or
+ * two substitutions, like "billa" to "byla" or "kwik" to "quick") and typing edits (a letter
+ * dropped or two swapped). INPI matches whole words, so each variant is a separate search.
+ * Variants that sound like the query come first, then those that look like it.
+ *
+ * @param limit The maximum number of variants, the query included.
+ */
+export function expandQuery(query: string, limit: number): QueryVariant[] {
+  const base = normalizeMarkText(query);
+  const singles = respellings(base, true);
+  const candidates = new Map(singles);
+  for (const [edit, reason] of typingEdits(base)) {
+    if (!candidates.has(edit)) candidates.set(edit, reason);
+  }
+  if (base.length <= MAX_PAIRED_RESPELLING_LENGTH) {
+    for (const [single, reason] of singles) {
+      if (/\d/.test(single)) continue;
+      for (const [pair, secondReason] of respellings(single, false)) {
+        if (!candidates.has(pair))
+          candidates.set(pair, `${reason}, ${secondReason}`);
+      }
+    }
+  }
+  candidates.delete(base);
+
+  const phoneticKey = frenchPhoneticKey(base);
+  const skeleton = visualSkeleton(base);
+  const rank = (variant: string) =>
+    frenchPhoneticKey(variant) === phoneticKey
+      ? 0
+      : visualSkeleton(variant) === skeleton
+        ? 1
+        : 2;
+  const ranked = [...candidates]
+    .map(([variant, reason]) => ({ query: variant.trim(), reason }))
+    .filter((variant) => variant.query.length > 1)
+    .sort((a, b) => rank(a.query) - rank(b.query));
+
+  return [{ query: base, reason: "query as entered" }, ...ranked].slice(
+    0,
+    Math.max(1, limit)
+  );
+}
+
+function compareWords(query: string, candidate: string): SimilarityReason[] {
+  const reasons: SimilarityReason[] = [];
+  const label = candidate.toUpperCase();
+  if (query === candidate) {
+    return [{ kind: "identical", detail: `identical to "${label}"`, score: 1 }];
+  }
+  const phoneticKey = frenchPhoneticKey(query);
+  if (phoneticKey && phoneticKey === frenchPhoneticKey(candidate)) {
+    reasons.push({
+      kind: "phonetic",
+      detail: `sounds like "${label}" (phonetic key ${phoneticKey})`,
+      score: 0.9,
+    });
+  }
+  if (visualSkeleton(query) === visualSkeleton(candidate)) {
+    reasons.push({
+      kind: "visual",
+      detail: `spelled like "${label}" apart from interchangeable letters`,
+      score: 0.85,
+    });
+  }
+  const distance = editDistance(query, candidate);
+  const longest = Math.max(query.length, candidate.length);
+  if (distance <= Math.max(1, Math.floor(longest / 3))) {
+    reasons.push({
+      kind: "editDistance",
+      detail: `${distance} edit${distance > 1 ? "s" : ""} from "${label}"`,
+      score: Math.round((1 - distance / longest) * 0.9 * 100) / 100,
+    });
+  }
+  return reasons;
+}
+
+/**
+ * Scores a mark against the query of a clearance search. The whole mark and each of its words
+ * are compared, so "BILLA FOOD" still sounds like "BYLA". A mark matching none of the rules
+ * scores 0.
+ */
+export function scoreSimilarity(
+  query: string,
+  markName: string | null
+): SimilarityScore {
+  const normalizedQuery = normalizeMarkText(query);
+  const normalizedMark = normalizeMarkText(markName ?? "");
+  if (!normalizedQuery || !normalizedMark) return { score: 0, reasons: [] };
+
+  const candidates = new Set([normalizedMark, ...normalizedMark.split(" ")]);
+  const best = new Map<SimilarityReasonKind, SimilarityReason>();
+  for (const candidate of candidates) {
+    for (const reason of compareWords(normalizedQuery, candidate)) {
+      const current = best.get(reason.kind);
+      if (!current || reason.score > current.score)
+        best.set(reason.kind, reason);
+    }
+  }
+  if (best.size === 0 && normalizedMark.includes(normalizedQuery)) {
+    best.set("contains", {
+      kind: "contains",
+      detail: `contains "${normalizedQuery.toUpperCase()}"`,
+      score: 0.6,
+    });
+  }
+
+  const reasons = [...best.values()].sort((a, b) => b.score - a.score);
+  return { score: reasons[0]?.score ?? 0, reasons };
+}
@@ -0,0 +1,105 @@
+// src/lib/notification-adapters.ts
+
+import axios from "axios";
+import crypto from "crypto";
+import nodemailer from "nodemailer";
+import type {
+  EmailChannel,
+  NotificationChannel,
+  NotificationMessage,
+  SlackChannel,
+  WebhookChannel,
+} from "@/lib/notifications";
+
+// One adapter per channel type. Each sends a single attempt and throws on failure; retries
+// are up to the caller (see deliverNotification).
+
+const HTTP_TIMEOUT_MS = 10000;
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Trademark-Search-Signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "X-Trademark-Search-Timestamp";
+
+/**
+ * The signature of a webhook body: `sha256=` and the hex HMAC-SHA256, keyed with the channel's
+ * secret, of `{timestamp}.{body}`. Receivers recompute it, and check the timestamp is recent
+ * so a captured request cannot be replayed later.
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  body: string
+): string {
+  const hmac = crypto.createHmac("sha256", secret);
+  return `sha256=${hmac.update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+async function sendWebhook(
+  channel: WebhookChannel,
+  message: NotificationMessage
+): Promise<void> {
+  const body = JSON.stringify(message.payload);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  await axios.post(channel.url, body, {
+    headers: {
+      "Content-Type": "application/json",
+      [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+      [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+        channel.secret,
+        timestamp,
+        body
+      ),
+    },
+    timeout: HTTP_TIMEOUT_MS,
+  });
+}
+
+// Incoming webhooks of Slack and of the chat tools copying it (Mattermost, Rocket.Chat) take
+// a `text` in their own markdown flavour, where *bold* is single asterisks.
+async function sendSlack(
+  channel: SlackChannel,
+  message: NotificationMessage
+): Promise<void> {
+  await axios.post(
+    channel.url,
+    { text: `*${message.subject}*\n${message.text}` },
+    { timeout: HTTP_TIMEOUT_MS }
+  );
+}
+
+async function sendEmail(
+  channel: EmailChannel,
+  message: NotificationMessage
+): Promise<void> {
+  const smtpUrl = channel.smtpUrl ?? process.env.SMTP_URL;
+  if (!smtpUrl) {
+    throw new Error(`No SMTP server for channel ${channel.id}: set SMTP_URL.`);
+  }
+  const transport = nodemailer.createTransport(smtpUrl);
+  try {
+    await transport.sendMail({
+      from:
+        channel.from ??
+        process.env.NOTIFICATION_EMAIL_FROM ??
+        "trademark-search@localhost",
+      to: channel.to,
+      subject: message.subject,
+      text: message.text,
+    });
+  } finally {
+    transport.close();
+  }
+}
+
+export function sendNotification(
+  channel: NotificationChannel,
+  message: NotificationMessage
+): Promise<void> {
+  switch (channel.type) {
+    case "webhook":
+      return sendWebhook(channel, message);
+    case "slack":
+      return sendSlack(channel, message);
+    case "email":
+      return sendEmail(channel, message);
+  }
+}
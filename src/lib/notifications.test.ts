@@ -0,0 +1,364 @@
+jest.mock("@/lib/inpi-client", () => ({
+  __esModule: true,
+  ...jest.requireActual("@/lib/inpi-client"),
+  logError: jest.fn(),
+}));
+
+import http from "http";
+import net from "net";
+import { AddressInfo } from "net";
+import {
+  signWebhookPayload,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from "@/lib/notification-adapters";
+import {
+  buildWatchNotification,
+  loadNotificationChannels,
+  NotificationChannel,
+  NotificationChannelSchema,
+  notifyWatchEvents,
+  renderTemplate,
+  resolveWatchChannels,
+  RetryPolicy,
+} from "@/lib/notifications";
+import { TrademarkSummary } from "@/lib/search-result";
+import { Watch, WatchEvent } from "@/lib/watchlist";
+
+const POLICY: RetryPolicy = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 5 };
+
+const summary = (id: string, status: string): TrademarkSummary => ({
+  id,
+  applicationNumber: id.slice(2),
+  markName: "BILA",
+  applicationDate: "2026-10-01",
+  registrationDate: null,
+  expiryDate: null,
+  registrationOfficeCode: "FR",
+  origin: "FR",
+  status,
+  feature: "Word",
+  niceClasses: [9],
+  goodsAndServices: [],
+  applicants: ["TERRAILLON S.A."],
+  hasImage: false,
+});
+
+const EVENTS: WatchEvent[] = [
+  {
+    id: "2026-10-03T06:00:00.000Z:FR2:newFiling",
+    kind: "newFiling",
+    detectedAt: "2026-10-03T06:00:00.000Z",
+    hit: summary("FR2", "Marque déposée"),
+    previousStatus: null,
+    seen: false,
+  },
+  {
+    id: "2026-10-03T06:00:00.000Z:FR1:statusChange",
+    kind: "statusChange",
+    detectedAt: "2026-10-03T06:00:00.000Z",
+    hit: summary("FR1", "Marque enregistrée"),
+    previousStatus: "Marque déposée",
+    seen: false,
+  },
+];
+
+const watch = (channels: string[]): Watch => ({
+  id: "watch-1",
+  name: "Bila",
+  query: { q: "bila", niceClasses: [9], niceLogic: "AND", origin: null },
+  channels,
+  createdAt: "2026-10-01T00:00:00.000Z",
+  lastRunAt: "2026-10-03T06:00:00.000Z",
+  lastSuccessAt: "2026-10-03T06:00:00.000Z",
+  lastError: null,
+  snapshot: {},
+  events: EVENTS,
+});
+
+const channel = (config: Record<string, unknown>): NotificationChannel =>
+  NotificationChannelSchema.parse(config);
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/** A local HTTP sink answering each request with the next status of `statuses`. */
+async function startHttpSink(statuses: number[] = [200]) {
+  const requests: ReceivedRequest[] = [];
+  const server = http.createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      requests.push({ headers: request.headers, body });
+      response.statusCode = statuses[requests.length - 1] ?? 200;
+      response.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/hook`,
+    requests,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
+
+/** Just enough of an SMTP server to accept messages and keep their DATA. */
+// Answers each RCPT command with the next of `rcptReplies`, then with 250.
+async function startSmtpSink(rcptReplies: string[] = []) {
+  const messages: string[] = [];
+  const server = net.createServer((socket) => {
+    let buffer = "";
+    let data: string | null = null;
+    socket.write("220 localhost ESMTP sink\r\n");
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf-8");
+      let end;
+      while ((end = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        if (data !== null) {
+          if (line === ".") {
+            messages.push(data);
+            data = null;
+            socket.write("250 OK queued\r\n");
+          } else {
+            data += `${line.replace(/^\.\./, ".")}\n`;
+          }
+          continue;
+        }
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === "EHLO" || command === "HELO") {
+          socket.write("250 localhost\r\n");
+        } else if (command === "DATA") {
+          data = "";
+          socket.write("354 End data with <CR><LF>.<CR><LF>\r\n");
+        } else if (command === "RCPT") {
+          socket.write(`${rcptReplies.shift() ?? "250 OK"}\r\n`);
+        } else if (command === "QUIT") {
+          socket.end("221 Bye\r\n");
+        } else {
+          socket.write("250 OK\r\n");
+        }
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `smtp://127.0.0.1:${port}`,
+    messages,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
+
+describe("loadNotificationChannels", () => {
+  const originalEnv = process.env;
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("keeps the valid channels of NOTIFICATION_CHANNELS", async () => {
+    process.env = {
+      ...originalEnv,
+      NOTIFICATION_CHANNELS: JSON.stringify([
+        {
+          id: "ops",
+          type: "slack",
+          url: "http://127.0.0.1/hook",
+          default: true,
+        },
+        { id: "bad", type: "webhook", url: "http://127.0.0.1/hook" },
+        { id: "ops", type: "email", to: ["ops@example.com"] },
+        { id: "legal", type: "email", to: ["legal@example.com"] },
+      ]),
+    };
+
+    const channels = await loadNotificationChannels();
+
+    // The webhook has no secret and the second "ops" is a duplicate.
+    expect(channels.map(({ id }) => id)).toEqual(["ops", "legal"]);
+    expect(resolveWatchChannels(undefined, channels)).toEqual(["ops"]);
+    expect(resolveWatchChannels(["legal", "legal"], channels)).toEqual([
+      "legal",
+    ]);
+    expect(resolveWatchChannels(["unknown"], channels)).toBeNull();
+  });
+});
+
+describe("buildWatchNotification", () => {
+  it("renders the default template, or the channel's own", () => {
+    const message = buildWatchNotification(
+      watch([]),
+      EVENTS,
+      channel({ id: "ops", type: "slack", url: "http://127.0.0.1/hook" })
+    );
+    expect(message.subject).toBe("Surveillance « Bila » : 2 nouveauté(s)");
+    expect(message.text).toBe(
+      "- Nouvelle marque : BILA (FR2), déposée le 01/10/2026 par TERRAILLON S.A.\n" +
+        "- Changement de statut : BILA (FR1) : Marque déposée → Marque enregistrée"
+    );
+
+    const custom = buildWatchNotification(
+      watch([]),
+      EVENTS,
+      channel({
+        id: "ops",
+        type: "slack",
+        url: "http://127.0.0.1/hook",
+        template: {
+          subject: "{{newFilings}} new, {{ statusChanges }} changed",
+        },
+      })
+    );
+    expect(custom.subject).toBe("1 new, 1 changed");
+    expect(
+      renderTemplate("{{watch.query}}{{missing}}", { "watch.query": "bila" })
+    ).toBe("bila");
+  });
+});
+
+describe("notifyWatchEvents", () => {
+  const sinks: { close: () => Promise<unknown> }[] = [];
+
+  afterEach(async () => {
+    await Promise.all(sinks.splice(0).map((sink) => sink.close()));
+  });
+
+  it("sends a signed webhook, retrying server errors", async () => {
+    const sink = await startHttpSink([503, 200]);
+    sinks.push(sink);
+    const hook = channel({
+      id: "hook",
+      type: "webhook",
+      url: sink.url,
+      secret: "s3cret",
+    });
+
+    const deliveries = await notifyWatchEvents(
+      watch(["hook"]),
+      EVENTS,
+      [hook],
+      POLICY
+    );
+
+    expect(deliveries).toEqual([{ channelId: "hook", ok: true, attempts: 2 }]);
+    const { headers, body } = sink.requests[1];
+    expect(headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()]).toBe(
+      signWebhookPayload(
+        "s3cret",
+        headers[WEBHOOK_TIMESTAMP_HEADER.toLowerCase()] as string,
+        body
+      )
+    );
+    expect(JSON.parse(body)).toMatchObject({
+      event: "watch.events",
+      watch: { id: "watch-1", name: "Bila" },
+      events: [{ hit: { id: "FR2" } }, { hit: { id: "FR1" } }],
+    });
+  });
+
+  it("posts Slack-style messages only to the watch's channels, without retrying 4xx", async () => {
+    const routed = await startHttpSink([400]);
+    const other = await startHttpSink();
+    sinks.push(routed, other);
+
+    const deliveries = await notifyWatchEvents(
+      watch(["team"]),
+      EVENTS,
+      [
+        channel({ id: "team", type: "slack", url: routed.url }),
+        channel({ id: "other", type: "slack", url: other.url }),
+      ],
+      POLICY
+    );
+
+    expect(deliveries).toEqual([
+      { channelId: "team", ok: false, attempts: 1, error: "HTTP 400" },
+    ]);
+    expect(JSON.parse(routed.requests[0].body).text).toMatch(
+      /^\*Surveillance « Bila » : 2 nouveauté\(s\)\*\n- Nouvelle marque/
+    );
+    expect(other.requests).toHaveLength(0);
+  });
+
+  it("emails the recipients through the SMTP server", async () => {
+    const smtp = await startSmtpSink();
+    sinks.push(smtp);
+
+    const deliveries = await notifyWatchEvents(
+      watch(["legal"]),
+      EVENTS,
+      [
+        channel({
+          id: "legal",
+          type: "email",
+          to: ["legal@example.com"],
+          from: "watch@example.com",
+          smtpUrl: smtp.url,
+        }),
+      ],
+      POLICY
+    );
+
+    expect(deliveries).toEqual([{ channelId: "legal", ok: true, attempts: 1 }]);
+    expect(smtp.messages).toHaveLength(1);
+    expect(smtp.messages[0]).toContain("To: legal@example.com");
+    expect(smtp.messages[0]).toContain("From: watch@example.com");
+    expect(smtp.messages[0]).toMatch(/^Subject: /m);
+  });
+
+  it("retries SMTP 4xx replies but not rejections or a missing server", async () => {
+    const smtp = await startSmtpSink([
+      "451 4.7.1 Greylisted, try again later",
+      "250 OK",
+      "550 5.1.1 No such user",
+    ]);
+    sinks.push(smtp);
+    const legal = (id: string, smtpUrl?: string) =>
+      channel({ id, type: "email", to: ["legal@example.com"], smtpUrl });
+    const originalSmtpUrl = process.env.SMTP_URL;
+    delete process.env.SMTP_URL;
+
+    try {
+      const greylisted = await notifyWatchEvents(
+        watch(["greylisted"]),
+        EVENTS,
+        [legal("greylisted", smtp.url)],
+        POLICY
+      );
+      const rejected = await notifyWatchEvents(
+        watch(["rejected"]),
+        EVENTS,
+        [legal("rejected", smtp.url)],
+        POLICY
+      );
+      const unconfigured = await notifyWatchEvents(
+        watch(["unconfigured"]),
+        EVENTS,
+        [legal("unconfigured")],
+        POLICY
+      );
+
+      expect(greylisted).toEqual([
+        { channelId: "greylisted", ok: true, attempts: 2 },
+      ]);
+      expect(rejected).toMatchObject([{ ok: false, attempts: 1 }]);
+      expect(unconfigured).toMatchObject([
+        { ok: false, attempts: 1, error: expect.stringMatching(/SMTP_URL/) },
+      ]);
+    } finally {
+      if (originalSmtpUrl !== undefined) process.env.SMTP_URL = originalSmtpUrl;
+    }
+  });
+
+  it("does nothing without events or channels", async () => {
+    expect(await notifyWatchEvents(watch([]), EVENTS, [], POLICY)).toEqual([]);
+    expect(await notifyWatchEvents(watch(["hook"]), [], [], POLICY)).toEqual(
+      []
+    );
+  });
+});
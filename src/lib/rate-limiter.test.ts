@@ -0,0 +1,81 @@
+import {
+  backoffDelay,
+  createRateLimiter,
+  parseRetryAfter,
+  QuotaExceededError,
+} from "@/lib/rate-limiter";
+
+describe("createRateLimiter", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("spaces requests to honour requests-per-second", async () => {
+    const limiter = createRateLimiter({ requestsPerSecond: 2, dailyBudget: 100 });
+    const started: number[] = [];
+    const start = Date.now();
+
+    const all = Promise.all(
+      [0, 1, 2].map(() => limiter.acquire().then(() => started.push(Date.now() - start)))
+    );
+    await jest.advanceTimersByTimeAsync(1000);
+    await all;
+
+    expect(started).toEqual([0, 500, 1000]);
+  });
+
+  it("rejects once the daily budget is spent and resets on the next Paris day", async () => {
+    jest.setSystemTime(new Date("2026-03-10T20:00:00Z"));
+    const limiter = createRateLimiter({ requestsPerSecond: 1000, dailyBudget: 2 });
+
+    await limiter.acquire();
+    await jest.advanceTimersByTimeAsync(10);
+    await limiter.acquire();
+    await expect(limiter.acquire()).rejects.toBeInstanceOf(QuotaExceededError);
+    expect(limiter.getUsage()).toMatchObject({ day: "2026-03-10", used: 2 });
+
+    // 23:00 UTC is already the next day in Paris (UTC+1 in March).
+    jest.setSystemTime(new Date("2026-03-10T23:00:00Z"));
+    await expect(limiter.acquire()).resolves.toBeUndefined();
+    expect(limiter.getUsage()).toMatchObject({ day: "2026-03-11", used: 1 });
+  });
+
+  it("holds every caller while paused", async () => {
+    const limiter = createRateLimiter({ requestsPerSecond: 1000, dailyBudget: 100 });
+    limiter.pauseUntil(Date.now() + 5000);
+    let isDone = false;
+
+    const pending = limiter.acquire().then(() => {
+      isDone = true;
+    });
+    await jest.advanceTimersByTimeAsync(4000);
+    expect(isDone).toBe(false);
+    await jest.advanceTimersByTimeAsync(1000);
+    await pending;
+    expect(isDone).toBe(true);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("accepts delta-seconds and HTTP dates", () => {
+    const now = Date.parse("2026-03-10T12:00:00Z");
+    expect(parseRetryAfter("30", now)).toBe(30000);
+    expect(parseRetryAfter("Tue, 10 Mar 2026 12:01:00 GMT", now)).toBe(60000);
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+  });
+});
+
+describe("backoffDelay", () => {
+  it("stays within the exponential cap", () => {
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const delay = backoffDelay(attempt, 100, 2000);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(Math.min(2000, 100 * 2 ** attempt));
+    }
+  });
+});
@@ -0,0 +1,141 @@
+// src/lib/rate-limiter.ts
+
+export interface RateLimiterOptions {
+  /** Maximum number of requests started per second. */
+  requestsPerSecond: number;
+  /** Maximum number of requests per calendar day (Europe/Paris). */
+  dailyBudget: number;
+  /** Clock, injectable for tests. */
+  now?: () => number;
+}
+
+export interface RateLimiterUsage {
+  day: string;
+  used: number;
+  dailyBudget: number;
+  pausedUntil: number | null;
+}
+
+export interface RateLimiter {
+  /**
+   * Waits for the next request slot. Rejects with `QuotaExceededError` when the daily budget
+   * is spent, without consuming anything.
+   */
+  acquire(): Promise<void>;
+  /**
+   * Stops every caller from starting requests until the given time, e.g. after a
+   * `Retry-After` from upstream.
+   */
+  pauseUntil(timestamp: number): void;
+  getUsage(): RateLimiterUsage;
+}
+
+export class QuotaExceededError extends Error {
+  constructor(message: string, public retryAfterSeconds: number) {
+    super(message);
+    this.name = "QuotaExceededError";
+  }
+}
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// INPI quotas reset with the French calendar day.
+const parisDayFormatter = new Intl.DateTimeFormat("en-CA", {
+  timeZone: "Europe/Paris",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+function secondsUntilNextParisDay(now: number): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-GB", {
+      timeZone: "Europe/Paris",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(new Date(now))
+      .map((part) => [part.type, part.value])
+  );
+  const elapsed =
+    Number(parts.hour) * 3600 + Number(parts.minute) * 60 + Number(parts.second);
+  return Math.max(1, 24 * 3600 - elapsed);
+}
+
+/**
+ * Creates a limiter that spaces requests evenly to honour `requestsPerSecond` and counts them
+ * against a daily budget.
+ */
+export function createRateLimiter(options: RateLimiterOptions): RateLimiter {
+  const now = options.now ?? Date.now;
+  const interval = 1000 / Math.max(options.requestsPerSecond, 0.001);
+  let nextSlot = 0;
+  let pausedUntil = 0;
+  let day = parisDayFormatter.format(new Date(now()));
+  let used = 0;
+
+  const rollDay = () => {
+    const today = parisDayFormatter.format(new Date(now()));
+    if (today !== day) {
+      day = today;
+      used = 0;
+    }
+  };
+
+  return {
+    async acquire() {
+      rollDay();
+      if (used >= options.dailyBudget) {
+        throw new QuotaExceededError(
+          `Daily INPI request budget of ${options.dailyBudget} requests is spent.`,
+          secondsUntilNextParisDay(now())
+        );
+      }
+      used += 1;
+
+      const current = now();
+      const slot = Math.max(current, nextSlot, pausedUntil);
+      nextSlot = slot + interval;
+      if (slot > current) await sleep(slot - current);
+    },
+
+    pauseUntil(timestamp: number) {
+      pausedUntil = Math.max(pausedUntil, timestamp);
+    },
+
+    getUsage() {
+      rollDay();
+      return {
+        day,
+        used,
+        dailyBudget: options.dailyBudget,
+        pausedUntil: pausedUntil > now() ? pausedUntil : null,
+      };
+    },
+  };
+}
+
+/**
+ * Parses a `Retry-After` header (delta-seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(
+  value: unknown,
+  now: number = Date.now()
+): number | undefined {
+  if (typeof value !== "string" && typeof value !== "number") return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay between 0 and `baseMs * 2^attempt`,
+ * capped at `maxMs`.
+ */
+export function backoffDelay(attempt: number, baseMs: number, maxMs: number): number {
+  return Math.random() * Math.min(maxMs, baseMs * 2 ** attempt);
+}
@@ -0,0 +1,134 @@
+// src/lib/redis-cache-service.ts
+
+import Redis from "ioredis";
+import type { CacheStats, ICacheService } from "./cache-service";
+
+/**
+ * Cache backend for any Redis-protocol server (Redis, Valkey, KeyDB...). Keys are namespaced
+ * with a prefix so several apps can share one server, and `flushAll` only drops that namespace.
+ * Connection errors are logged and treated as cache misses so the app keeps serving from INPI.
+ */
+export class RedisCacheService implements ICacheService {
+  private redis: Redis;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    url: string,
+    private keyPrefix: string = "trademark-search:",
+    private defaultTtlSeconds: number = 3600
+  ) {
+    this.redis = new Redis(url, {
+      lazyConnect: true,
+      maxRetriesPerRequest: 1,
+    });
+    this.redis.on("error", (error) =>
+      console.error("[REDIS_CACHE] Connection error:", error.message)
+    );
+    console.log(
+      `RedisCacheService initialized for ${url} with prefix "${keyPrefix}" and default TTL: ${defaultTtlSeconds}s.`
+    );
+  }
+
+  private prefixed(key: string): string {
+    return `${this.keyPrefix}${key}`;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const value = await this.peek<T>(key);
+    if (value !== undefined) this.hits++;
+    else this.misses++;
+    return value;
+  }
+
+  async peek<T>(key: string): Promise<T | undefined> {
+    try {
+      const raw = await this.redis.get(this.prefixed(key));
+      return raw === null ? undefined : (JSON.parse(raw) as T);
+    } catch (error) {
+      console.error(`[REDIS_CACHE] Failed to get key ${key}:`, error);
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+    const ttl = ttlSeconds ?? this.defaultTtlSeconds;
+    const serialized = JSON.stringify(value);
+    try {
+      if (ttl > 0) {
+        await this.redis.set(this.prefixed(key), serialized, "EX", Math.ceil(ttl));
+      } else {
+        await this.redis.set(this.prefixed(key), serialized);
+      }
+    } catch (error) {
+      console.error(`[REDIS_CACHE] Failed to set key ${key}:`, error);
+    }
+  }
+
+  async del(key: string): Promise<void> {
+    try {
+      await this.redis.del(this.prefixed(key));
+    } catch (error) {
+      console.error(`[REDIS_CACHE] Failed to delete key ${key}:`, error);
+    }
+  }
+
+  async has(key: string): Promise<boolean> {
+    try {
+      return (await this.redis.exists(this.prefixed(key))) === 1;
+    } catch (error) {
+      console.error(`[REDIS_CACHE] Failed to check key ${key}:`, error);
+      return false;
+    }
+  }
+
+  // SCAN rather than KEYS so a large keyspace does not block the server.
+  private async scanKeys(
+    prefix: string,
+    onBatch: (keys: string[]) => Promise<unknown>
+  ): Promise<void> {
+    // Glob characters in the prefix must match literally.
+    const pattern = `${this.keyPrefix}${prefix}`.replace(/[*?[\]\\]/g, "\\$&");
+    let cursor = "0";
+    do {
+      const [nextCursor, keys] = await this.redis.scan(
+        cursor,
+        "MATCH",
+        `${pattern}*`,
+        "COUNT",
+        500
+      );
+      if (keys.length > 0) await onBatch(keys);
+      cursor = nextCursor;
+    } while (cursor !== "0");
+  }
+
+  async flushAll(): Promise<void> {
+    await this.scanKeys("", (keys) => this.redis.del(...keys));
+    this.hits = 0;
+    this.misses = 0;
+    console.log("RedisCacheService: All items flushed from cache.");
+  }
+
+  async keys(prefix: string = ""): Promise<string[]> {
+    const keys: string[] = [];
+    await this.scanKeys(prefix, async (batch) =>
+      keys.push(...batch.map((key) => key.slice(this.keyPrefix.length)))
+    );
+    return keys;
+  }
+
+  async getStats(): Promise<CacheStats> {
+    return {
+      backend: "redis",
+      hits: this.hits,
+      misses: this.misses,
+      keys: (await this.keys()).length,
+    };
+  }
+
+  /** Closes the connection, e.g. at the end of a test or a script. */
+  async disconnect(): Promise<void> {
+    await this.redis.quit();
+  }
+}
@@ -0,0 +1,109 @@
+// src/lib/search-handler.ts
+
+import { NextResponse } from "next/server";
+import {
+  parseMaxVariants,
+  performClearanceSearch,
+} from "@/lib/clearance-search";
+import { parseGoodsSpecification, withConflictRisk } from "@/lib/goods-overlap";
+import { APIError, errorCodeFor, logError } from "@/lib/inpi-client";
+import { performSearchRequest } from "@/lib/inpi-search";
+import {
+  hasSearchTerms,
+  normalizeSearchRequest,
+  parseSearchMode,
+  RawSearchRequest,
+} from "@/lib/search-request";
+import {
+  parseIncludeRaw,
+  SearchResult,
+  toSearchResult,
+} from "@/lib/search-result";
+import { staleHeaders } from "@/lib/stale-cache";
+
+/** Everything a search route accepts besides the search itself, still unparsed. */
+export interface SearchOptions {
+  mode?: unknown;
+  maxVariants?: unknown;
+  includeRaw?: unknown;
+  /** Classes and terms of the goods to protect, for the conflict risk of each mark. */
+  goodsClasses?: unknown;
+  goodsTerms?: unknown;
+}
+
+function badRequest(error: string, code: string): NextResponse {
+  return NextResponse.json(
+    { error, code, timestamp: new Date().toISOString() },
+    { status: 400 }
+  );
+}
+
+/**
+ * Answers a search the same way for GET /api/trademarks/search and POST
+ * /api/trademarks/searchV2: standard or clearance search, conflict risk against the goods
+ * to protect, the stale-data header, and the error codes.
+ * @param context Names the route in the error log.
+ */
+export async function handleSearchRequest(
+  raw: RawSearchRequest,
+  options: SearchOptions,
+  context: string
+): Promise<NextResponse> {
+  try {
+    const searchRequest = normalizeSearchRequest(raw);
+    if (!hasSearchTerms(searchRequest)) {
+      return badRequest("Search query is required", "MISSING_QUERY");
+    }
+
+    const isClearance = parseSearchMode(options.mode) === "clearance";
+    if (isClearance && !searchRequest.query) {
+      return badRequest(
+        "Clearance search needs a free-text query",
+        "MISSING_QUERY"
+      );
+    }
+
+    const includeRaw = parseIncludeRaw(options.includeRaw);
+    let result: SearchResult = isClearance
+      ? await performClearanceSearch(searchRequest, {
+          maxVariants: parseMaxVariants(options.maxVariants),
+          includeRaw,
+        })
+      : toSearchResult(
+          await performSearchRequest(searchRequest),
+          searchRequest,
+          includeRaw
+        );
+    const goods = parseGoodsSpecification(
+      options.goodsClasses,
+      options.goodsTerms
+    );
+    if (goods) {
+      result = withConflictRisk(result, goods, searchRequest.query);
+    }
+
+    return NextResponse.json(result, { headers: staleHeaders(result) });
+  } catch (error: unknown) {
+    logError(context, error);
+    if (error instanceof APIError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          code: errorCodeFor(error),
+          details: error.details,
+          timestamp: new Date().toISOString(),
+        },
+        { status: error.statusCode }
+      );
+    }
+    return NextResponse.json(
+      {
+        error: "An unexpected internal error occurred.",
+        code: "INTERNAL_ERROR",
+        details: String(error),
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
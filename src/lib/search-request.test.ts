@@ -0,0 +1,155 @@
+import {
+  DEFAULT_AGGREGATIONS,
+  normalizeQueryText,
+  normalizeSearchRequest,
+  searchCacheKey,
+} from "@/lib/search-request";
+
+const keyFor = (raw: Parameters<typeof normalizeSearchRequest>[0]) =>
+  searchCacheKey(normalizeSearchRequest(raw));
+
+describe("normalizeQueryText", () => {
+  it("trims, lower-cases, strips diacritics and collapses spaces", () => {
+    expect(normalizeQueryText("  Café   BILA ")).toBe("cafe bila");
+    expect(normalizeQueryText("Ÿoplàit")).toBe("yoplait");
+  });
+});
+
+describe("normalizeSearchRequest", () => {
+  it("fills in the defaults used by the search page", () => {
+    expect(normalizeSearchRequest({ q: "bila" })).toEqual({
+      query: "bila",
+      page: 1,
+      nbResultsPerPage: 20,
+      sort: "relevance",
+      order: "asc",
+      niceClasses: [],
+      niceLogic: "AND",
+      origin: null,
+      statuses: [],
+      markFeatures: [],
+      dateRanges: {},
+      advancedQuery: [],
+      aggregations: DEFAULT_AGGREGATIONS,
+    });
+  });
+
+  it("accepts query-string and JSON shapes alike", () => {
+    expect(
+      normalizeSearchRequest({
+        q: "bila",
+        page: "2",
+        nbResultsPerPage: 50,
+        niceClasses: [29, 16, 29],
+        niceLogic: "or",
+        origin: "eu",
+        statuses: "Marque expirée, Marque enregistrée,",
+        markFeatures: ["Word", "Figurative", "Word"],
+        aggregations: "markFeature,markFeature",
+      })
+    ).toMatchObject({
+      page: 2,
+      nbResultsPerPage: 50,
+      niceClasses: [16, 29],
+      niceLogic: "OR",
+      origin: "EU",
+      statuses: ["Marque enregistrée", "Marque expirée"],
+      markFeatures: ["Figurative", "Word"],
+      aggregations: ["markFeature"],
+    });
+  });
+
+  it("clamps the page to the last one within the upstream window", () => {
+    expect(
+      normalizeSearchRequest({ q: "bila", page: "9999", nbResultsPerPage: "20" })
+    ).toMatchObject({ page: 500 });
+    expect(
+      normalizeSearchRequest({ q: "bila", page: 101, nbResultsPerPage: 100 })
+    ).toMatchObject({ page: 100 });
+  });
+
+  it("falls back to relevance for unknown sorts and caps the page size", () => {
+    expect(
+      normalizeSearchRequest({
+        q: "bila",
+        sort: "_script",
+        nbResultsPerPage: "5000",
+      })
+    ).toMatchObject({ sort: "relevance", nbResultsPerPage: 100 });
+    expect(
+      normalizeSearchRequest({ q: "bila", sort: "markWordElement" }).sort
+    ).toBe("markWordElement");
+  });
+
+  it("keeps valid date bounds and drops the rest", () => {
+    expect(
+      normalizeSearchRequest({
+        q: "bila",
+        applicationDateFrom: "2020-01-01",
+        registrationDateTo: "2020-02-30",
+        expiryDateFrom: " 2025-01-01 ",
+        expiryDateTo: "2025-06-30",
+      }).dateRanges
+    ).toEqual({
+      applicationDate: { from: "2020-01-01", to: null },
+      expiryDate: { from: "2025-01-01", to: "2025-06-30" },
+    });
+  });
+
+  it("drops unknown origins and meaningless logic", () => {
+    expect(
+      normalizeSearchRequest({
+        q: "bila",
+        origin: "XX",
+        niceClasses: "9",
+        niceLogic: "OR",
+      })
+    ).toMatchObject({ origin: null, niceLogic: "AND" });
+  });
+});
+
+describe("searchCacheKey", () => {
+  it("gives equivalent requests the same key", () => {
+    expect(keyFor({ q: "Bila" })).toBe(keyFor({ q: " bila " }));
+    expect(keyFor({ q: "café" })).toBe(keyFor({ q: "CAFE" }));
+    expect(keyFor({ q: "bila", niceClasses: "29,16" })).toBe(
+      keyFor({ q: "bila", niceClasses: [16, 29] })
+    );
+    expect(keyFor({ q: "bila", page: "1", nbResultsPerPage: "20" })).toBe(
+      keyFor({ q: "bila" })
+    );
+  });
+
+  it("includes every payload field", () => {
+    const base = keyFor({ q: "bila" });
+    expect(keyFor({ q: "bila", aggregations: ["markFeature"] })).not.toBe(base);
+    expect(keyFor({ q: "bila", sort: "applicationDate" })).not.toBe(base);
+    expect(keyFor({ q: "bila", order: "desc" })).not.toBe(base);
+    expect(keyFor({ q: "bila", origin: "FR" })).not.toBe(base);
+    expect(keyFor({ q: "bila", statuses: "Registered" })).not.toBe(base);
+    expect(keyFor({ q: "bila", markFeatures: ["Word"] })).not.toBe(base);
+    expect(
+      keyFor({ q: "bila", advancedQuery: "NOT:applicant:words:terraillon" })
+    ).not.toBe(base);
+    expect(keyFor({ q: "bila", expiryDateFrom: "2025-01-01" })).not.toBe(
+      keyFor({ q: "bila", expiryDateTo: "2025-01-01" })
+    );
+    expect(
+      keyFor({ q: "bila", niceClasses: "16,29", niceLogic: "OR" })
+    ).not.toBe(keyFor({ q: "bila", niceClasses: "16,29", niceLogic: "AND" }));
+  });
+
+  it("ignores the order of aggregations", () => {
+    expect(
+      keyFor({
+        q: "bila",
+        aggregations: ["markFeature", "markCurrentStatusCode"],
+      })
+    ).toBe(
+      keyFor({
+        q: "bila",
+        aggregations: ["markCurrentStatusCode", "markFeature"],
+      })
+    );
+  });
+});
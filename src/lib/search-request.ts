@@ -0,0 +1,299 @@
+// src/lib/search-request.ts
+
+import {
+  AdvancedQueryClause,
+  formatAdvancedQueryClause,
+  parseAdvancedQuery,
+} from "@/lib/advanced-query";
+
+export const DEFAULT_AGGREGATIONS = [
+  "markCurrentStatusCode",
+  "markFeature",
+  "registrationOfficeCode",
+  "classDescriptionDetails.class",
+];
+
+// The UI and the search routes speak in origins; the index stores registration office codes.
+export const ORIGIN_OFFICE_CODES: Record<string, string> = {
+  FR: "FR",
+  EU: "EM",
+  WO: "WO",
+};
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+/** Page sizes offered by the search page. Larger requests are capped at the last one. */
+export const PAGE_SIZES = [10, 20, 50, 100];
+
+/**
+ * Hits INPI can page through. Its Elasticsearch index refuses pages reaching past the first
+ * 10,000 hits, so later pages are never requested nor offered.
+ */
+export const MAX_RESULT_WINDOW = 10000;
+
+/** The last page of this size that lies within MAX_RESULT_WINDOW. */
+export function lastPageInWindow(nbResultsPerPage: number): number {
+  return Math.floor(MAX_RESULT_WINDOW / nbResultsPerPage);
+}
+
+/**
+ * Sort fields understood by data.inpi.fr. Anything else falls back to relevance, so that
+ * arbitrary values never reach INPI or the cache.
+ */
+export const SEARCH_SORTS = [
+  "relevance",
+  "applicationDate",
+  "markWordElement",
+] as const;
+
+export type SearchSort = (typeof SEARCH_SORTS)[number];
+
+export type SortOrder = "asc" | "desc";
+
+export type NiceLogic = "AND" | "OR";
+
+/**
+ * "clearance" expands the query into similar spellings and ranks the marks by similarity
+ * (see clearance-search.ts); "standard" is INPI's own relevance search.
+ */
+export type SearchMode = "standard" | "clearance";
+
+/** Dates a search can be restricted to, as named in TrademarkSummary. */
+export const DATE_RANGE_FIELDS = [
+  "applicationDate",
+  "registrationDate",
+  "expiryDate",
+] as const;
+
+export type DateRangeField = (typeof DATE_RANGE_FIELDS)[number];
+
+/** Inclusive bounds as ISO dates (YYYY-MM-DD); null leaves that side open. */
+export interface DateRange {
+  from: string | null;
+  to: string | null;
+}
+
+/** Only the fields with at least one bound are present. */
+export type DateRanges = Partial<Record<DateRangeField, DateRange>>;
+
+/**
+ * Search parameters as they arrive from a route: query string values, JSON body fields, or
+ * anything in between.
+ */
+export interface RawSearchRequest {
+  q?: string | null;
+  page?: string | number | null;
+  nbResultsPerPage?: string | number | null;
+  sort?: string | null;
+  order?: string | null;
+  niceClasses?: string | number[] | null;
+  niceLogic?: string | null;
+  origin?: string | null;
+  statuses?: string | string[] | null;
+  markFeatures?: string | string[] | null;
+  applicationDateFrom?: string | null;
+  applicationDateTo?: string | null;
+  registrationDateFrom?: string | null;
+  registrationDateTo?: string | null;
+  expiryDateFrom?: string | null;
+  expiryDateTo?: string | null;
+  /** Clauses in their URL form, or as JSON objects. */
+  advancedQuery?: string | string[] | Partial<AdvancedQueryClause>[] | null;
+  aggregations?: string | string[] | null;
+}
+
+/**
+ * A search in canonical form. Two requests that INPI would answer identically normalize to the
+ * same SearchRequest, and therefore to the same cache key.
+ */
+export interface SearchRequest {
+  /** Trimmed, lower-cased, without diacritics and with single spaces. */
+  query: string;
+  page: number;
+  nbResultsPerPage: number;
+  sort: SearchSort;
+  order: SortOrder;
+  /** Unique Nice classes, ascending. */
+  niceClasses: number[];
+  /** Only meaningful with two classes or more; "AND" otherwise. */
+  niceLogic: NiceLogic;
+  /** Key of ORIGIN_OFFICE_CODES, or null for every origin. */
+  origin: string | null;
+  /** markCurrentStatusCode facet values, unique and sorted; any of them matches. */
+  statuses: string[];
+  /** markFeature facet values, unique and sorted; any of them matches. */
+  markFeatures: string[];
+  dateRanges: DateRanges;
+  /** Field-scoped clauses from the advanced mode, sent as `advancedSearch`. */
+  advancedQuery: AdvancedQueryClause[];
+  /** Unique aggregation names, in request order. */
+  aggregations: string[];
+}
+
+export function parseNiceClasses(
+  niceClasses?: string | number[] | null
+): number[] {
+  if (!niceClasses) return [];
+  const rawClasses = Array.isArray(niceClasses)
+    ? niceClasses
+    : niceClasses.split(",");
+  return rawClasses
+    .map((nc) => parseInt(String(nc).trim(), 10))
+    .filter((nc) => !isNaN(nc) && nc > 0 && nc <= 45);
+}
+
+/**
+ * Reads facet values (statuses, mark features) from a comma-separated string or an array.
+ * They are INPI's own bucket keys, so they are only trimmed.
+ */
+export function parseFacetValues(values?: string | string[] | null): string[] {
+  if (!values) return [];
+  const rawValues = Array.isArray(values) ? values : values.split(",");
+  return [
+    ...new Set(rawValues.map((value) => String(value).trim()).filter(Boolean)),
+  ].sort();
+}
+
+/** Reads an ISO date (YYYY-MM-DD), or null when it is missing or not a real date. */
+export function parseIsoDate(value?: string | null): string | null {
+  const date = value?.trim() ?? "";
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date)
+    ? date
+    : null;
+}
+
+/**
+ * Reads the `<field>From` and `<field>To` parameters of every date field, e.g.
+ * `expiryDateFrom`. `get` looks a parameter up in a query string or JSON body.
+ */
+export function parseDateRanges(
+  get: (name: string) => string | null | undefined
+): DateRanges {
+  const dateRanges: DateRanges = {};
+  for (const field of DATE_RANGE_FIELDS) {
+    const from = parseIsoDate(get(`${field}From`));
+    const to = parseIsoDate(get(`${field}To`));
+    if (from || to) dateRanges[field] = { from, to };
+  }
+  return dateRanges;
+}
+
+/**
+ * Normalizes free text for searching and cache keys: "  Café  BILA " becomes "cafe bila".
+ */
+export function normalizeQueryText(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function parsePositiveInt(
+  value: string | number | null | undefined,
+  fallback: number
+): number {
+  const parsed = parseInt(String(value ?? ""), 10);
+  return isNaN(parsed) || parsed < 1 ? fallback : parsed;
+}
+
+export function parseSearchSort(value?: string | null): SearchSort {
+  const sort = value?.trim();
+  return (SEARCH_SORTS as readonly string[]).includes(sort ?? "")
+    ? (sort as SearchSort)
+    : "relevance";
+}
+
+export function parsePageSize(value?: string | number | null): number {
+  return Math.min(
+    parsePositiveInt(value, DEFAULT_PAGE_SIZE),
+    PAGE_SIZES[PAGE_SIZES.length - 1]
+  );
+}
+
+/** Reads the search mode from a query string or JSON body value. */
+export function parseSearchMode(value: unknown): SearchMode {
+  return typeof value === "string" && value.trim().toLowerCase() === "clearance"
+    ? "clearance"
+    : "standard";
+}
+
+/** Whether there is anything to search for: free text, advanced clauses, or both. */
+export function hasSearchTerms(request: SearchRequest): boolean {
+  return !!request.query || request.advancedQuery.length > 0;
+}
+
+/**
+ * Builds the canonical SearchRequest. The caller is expected to have rejected a request
+ * without search terms (see hasSearchTerms).
+ */
+export function normalizeSearchRequest(raw: RawSearchRequest): SearchRequest {
+  const niceClasses = [...new Set(parseNiceClasses(raw.niceClasses))].sort(
+    (a, b) => a - b
+  );
+  const origin = raw.origin?.trim().toUpperCase();
+  const aggregations =
+    typeof raw.aggregations === "string"
+      ? raw.aggregations.split(",")
+      : (raw.aggregations ?? DEFAULT_AGGREGATIONS);
+  const nbResultsPerPage = parsePageSize(raw.nbResultsPerPage);
+
+  return {
+    query: normalizeQueryText(raw.q ?? ""),
+    page: Math.min(
+      parsePositiveInt(raw.page, 1),
+      lastPageInWindow(nbResultsPerPage)
+    ),
+    nbResultsPerPage,
+    sort: parseSearchSort(raw.sort),
+    order: raw.order?.trim().toLowerCase() === "desc" ? "desc" : "asc",
+    niceClasses,
+    niceLogic:
+      niceClasses.length > 1 && raw.niceLogic?.trim().toUpperCase() === "OR"
+        ? "OR"
+        : "AND",
+    origin: origin && ORIGIN_OFFICE_CODES[origin] ? origin : null,
+    statuses: parseFacetValues(raw.statuses),
+    markFeatures: parseFacetValues(raw.markFeatures),
+    dateRanges: parseDateRanges((name) => {
+      const value = raw[name as keyof RawSearchRequest];
+      return typeof value === "string" ? value : null;
+    }),
+    advancedQuery: parseAdvancedQuery(raw.advancedQuery),
+    aggregations: [
+      ...new Set(aggregations.map((name) => name.trim()).filter(Boolean)),
+    ],
+  };
+}
+
+/**
+ * The cache key for a search. Every field of the upstream payload is part of it, in a fixed
+ * order, so equivalent requests share an entry and different ones never collide.
+ */
+export function searchCacheKey(request: SearchRequest): string {
+  const params = new URLSearchParams();
+  params.set("q", request.query);
+  params.set("page", String(request.page));
+  params.set("nbResultsPerPage", String(request.nbResultsPerPage));
+  params.set("sort", request.sort);
+  params.set("order", request.order);
+  params.set("niceClasses", request.niceClasses.join(","));
+  params.set("niceLogic", request.niceLogic);
+  params.set("origin", request.origin ?? "");
+  params.set("statuses", request.statuses.join(","));
+  params.set("markFeatures", request.markFeatures.join(","));
+  for (const field of DATE_RANGE_FIELDS) {
+    const range = request.dateRanges[field];
+    params.set(field, range ? `${range.from ?? ""}..${range.to ?? ""}` : "");
+  }
+  // AND, OR and NOT clauses mean the same in any order.
+  params.set(
+    "advancedQuery",
+    request.advancedQuery.map(formatAdvancedQueryClause).sort().join("\n")
+  );
+  params.set("aggregations", [...request.aggregations].sort().join(","));
+  return `search:${params.toString()}`;
+}
@@ -0,0 +1,157 @@
+import fs from "fs";
+import path from "path";
+import { InpiSearchResponseData } from "@/lib/inpi-search";
+import { normalizeSearchRequest } from "@/lib/search-request";
+import {
+  normalizeIndexDate,
+  SEARCH_RESULT_VERSION,
+  toFacets,
+  toSearchResult,
+  toTrademarkSummary,
+} from "@/lib/search-result";
+
+const FIXTURES_DIR = path.join(__dirname, "..", "..", "fixtures", "inpi");
+
+function recordedSearch(): InpiSearchResponseData {
+  const file = fs
+    .readdirSync(FIXTURES_DIR)
+    .find((name) => name.startsWith("post_data_inpi_fr_search"))!;
+  const { body } = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, file), "utf-8")).response;
+  return typeof body === "string" ? JSON.parse(body) : body;
+}
+
+describe("toSearchResult", () => {
+  it("maps the recorded bila search", () => {
+    const request = normalizeSearchRequest({ q: "bila" });
+    const result = toSearchResult(recordedSearch(), request);
+
+    expect(result.version).toBe(SEARCH_RESULT_VERSION);
+    expect(result.total).toEqual({ value: 232, relation: "eq" });
+    expect(result.paging).toEqual({
+      page: 1,
+      pageSize: 20,
+      totalPages: 12,
+      hasPreviousPage: false,
+      hasNextPage: true,
+    });
+    expect(result.hits).toHaveLength(20);
+    expect(result.hits[0]).toEqual({
+      id: "FR1324250",
+      applicationNumber: "1324250",
+      markName: "BILA",
+      applicationDate: "1985-09-23",
+      registrationDate: null,
+      expiryDate: "1995-09-23",
+      registrationOfficeCode: "FR",
+      origin: "FR",
+      status: "Marque expirée",
+      feature: "Word",
+      niceClasses: [9],
+      goodsAndServices: [
+        { niceClass: 9, description: "Appareils et instruments de pesage et de mesurage." },
+      ],
+      applicants: ["TERRAILLON S.A., route de Thonon, JUVIGNY (Haute-Savoie)"],
+      hasImage: true,
+    });
+    expect(result.facets.registrationOfficeCode).toEqual([
+      { value: "FR", count: 122 },
+      { value: "EM", count: 70 },
+      { value: "WO", count: 40 },
+    ]);
+    expect(result.raw).toBeUndefined();
+    expect(toSearchResult(recordedSearch(), request, true).raw).toHaveLength(20);
+  });
+
+  it("derives registration dates from international registrations or the BOPI history", () => {
+    const registrationDate = (source: Record<string, unknown>) =>
+      toTrademarkSummary({ _source: source }).registrationDate;
+
+    expect(
+      registrationDate({ basicRegistrations: [{ registrationDate: 1149199200000 }] })
+    ).toBe("2006-06-02");
+    expect(
+      registrationDate({
+        history: [
+          { basicRecordKind: "Publication", publicationDate: 1322780400000 },
+          { basicRecordKind: "Enregistrement sans modification", publicationDate: 1330642800000 },
+        ],
+      })
+    ).toBe("2012-03-02");
+    expect(registrationDate({ history: [{ basicRecordKind: "Enregistrement ancienne loi" }] })).toBeNull();
+  });
+
+  it("caps the paging of lower-bound totals at the upstream window", () => {
+    const pageOf = (page: number, total: number) =>
+      toSearchResult(
+        { result: { hits: { total: { value: total, relation: "gte" }, hits: [] } } },
+        normalizeSearchRequest({ q: "bila", page, nbResultsPerPage: 100 })
+      ).paging;
+
+    expect(pageOf(2, 250)).toMatchObject({ totalPages: 3, hasNextPage: true });
+    expect(pageOf(3, 250)).toMatchObject({ totalPages: 3, hasNextPage: false });
+    expect(pageOf(100, 10000)).toMatchObject({
+      page: 100,
+      totalPages: 100,
+      hasNextPage: false,
+    });
+    expect(pageOf(99, 12000)).toMatchObject({ totalPages: 100, hasNextPage: true });
+  });
+
+  it("carries stale markers and lower-bound totals", () => {
+    const request = normalizeSearchRequest({ q: "bila", page: 3, nbResultsPerPage: 10 });
+    const result = toSearchResult(
+      {
+        result: { hits: { total: { value: 25, relation: "gte" }, hits: [] } },
+        stale: true,
+        staleSince: "2025-07-18T08:00:00.000Z",
+      },
+      request
+    );
+
+    expect(result.paging).toMatchObject({ totalPages: 3, hasNextPage: false });
+    expect(result.stale).toBe(true);
+    expect(result.staleSince).toBe("2025-07-18T08:00:00.000Z");
+    expect(toSearchResult({}, request)).toMatchObject({
+      total: { value: 0, relation: "eq" },
+      hits: [],
+    });
+  });
+});
+
+describe("toFacets", () => {
+  it("merges padded Nice classes and drops non-class keys", () => {
+    const aggregations = {
+      "classDescriptionDetails.class": {
+        "classDescriptionDetails.class": {
+          buckets: [
+            { key: "00", doc_count: 39 },
+            { key: "09", doc_count: 24 },
+            { key: "9", doc_count: 3 },
+            { key: "16", doc_count: 27 },
+          ],
+        },
+      },
+      markFeature: { buckets: [{ key: "Word", doc_count: 5 }] },
+    };
+
+    expect(
+      toFacets(aggregations, ["classDescriptionDetails.class", "markFeature", "missing"])
+    ).toEqual({
+      "classDescriptionDetails.class": [
+        { value: "9", count: 27 },
+        { value: "16", count: 27 },
+      ],
+      markFeature: [{ value: "Word", count: 5 }],
+      missing: [],
+    });
+  });
+});
+
+describe("normalizeIndexDate", () => {
+  it("reads epoch milliseconds in Paris time and YYYYMMDD strings", () => {
+    expect(normalizeIndexDate(496274400000)).toBe("1985-09-23");
+    expect(normalizeIndexDate("496274400000")).toBe("1985-09-23");
+    expect(normalizeIndexDate("19850924")).toBe("1985-09-24");
+    expect(normalizeIndexDate(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,303 @@
+// src/lib/search-result.ts
+
+import type {
+  InpiSearchHit,
+  InpiSearchResponseData,
+  InpiTrademarkSource,
+} from "@/lib/inpi-search";
+import type { ConflictRisk, GoodsOverlap } from "@/lib/goods-overlap";
+import type { QueryVariant, SimilarityScore } from "@/lib/mark-similarity";
+import {
+  lastPageInWindow,
+  ORIGIN_OFFICE_CODES,
+  SearchRequest,
+} from "@/lib/search-request";
+import { normalizeSt66Date } from "@/lib/st66-parser";
+
+// The versioned body of the search routes, so that no consumer has to map Elasticsearch hits
+// itself. Client code should only import the types from here.
+
+/** Bumped whenever a field is removed or changes meaning. Adding fields does not bump it. */
+export const SEARCH_RESULT_VERSION = 1;
+
+/** One search hit, mapped from the Elasticsearch `_source` document. */
+export interface TrademarkSummary {
+  /** e.g. "FR1324250", the id used by the notice and image routes. */
+  id: string;
+  applicationNumber: string | null;
+  markName: string | null;
+  /** ISO dates (YYYY-MM-DD), in Europe/Paris time. */
+  applicationDate: string | null;
+  /** Derived: the index has no registration date field of its own. */
+  registrationDate: string | null;
+  expiryDate: string | null;
+  registrationOfficeCode: string | null;
+  /** "FR", "EU" or "WO": the key of ORIGIN_OFFICE_CODES, as accepted by the `origin` filter. */
+  origin: string | null;
+  status: string | null;
+  /** e.g. "Word", "Figurative". */
+  feature: string | null;
+  /** Nice classes, unique and ascending. */
+  niceClasses: number[];
+  /** The wording of each class, in class order. */
+  goodsAndServices: GoodsAndServices[];
+  applicants: string[];
+  hasImage: boolean;
+  /** Only in clearance searches: how alike the mark is to the query. */
+  similarity?: HitSimilarity;
+  /** Only when the search has a goods specification: how much the goods overlap. */
+  goodsOverlap?: GoodsOverlap;
+  /** Only with a goods specification and something to compare the sign with. */
+  risk?: ConflictRisk;
+}
+
+export interface GoodsAndServices {
+  niceClass: number;
+  description: string;
+}
+
+export interface HitSimilarity extends SimilarityScore {
+  /** The variant searches that found the mark. */
+  variants: string[];
+}
+
+export interface SearchFacetBucket {
+  value: string;
+  count: number;
+}
+
+export interface SearchPaging {
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  hasPreviousPage: boolean;
+  hasNextPage: boolean;
+}
+
+export interface SearchResult {
+  version: typeof SEARCH_RESULT_VERSION;
+  /** "gte" when the total is a lower bound, e.g. after an AND filter on Nice classes. */
+  total: { value: number; relation: "eq" | "gte" };
+  paging: SearchPaging;
+  hits: TrademarkSummary[];
+  /** Counts per requested aggregation, most frequent first. */
+  facets: Record<string, SearchFacetBucket[]>;
+  /** Set when INPI was unavailable and an expired cache entry was served instead. */
+  stale?: boolean;
+  staleSince?: string;
+  /** The Elasticsearch hits as returned by INPI, only with `includeRaw`. */
+  raw?: InpiSearchHit[];
+  /** Only in clearance searches: the variant searches that were run. */
+  clearance?: {
+    variants: QueryVariant[];
+    /** Variants whose search failed; their marks may be missing. */
+    failedVariants: string[];
+  };
+}
+
+const NICE_CLASS_FIELD = "classDescriptionDetails.class";
+
+const parisDateFormatter = new Intl.DateTimeFormat("en-CA", {
+  timeZone: "Europe/Paris",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+/**
+ * The index stores dates as epoch milliseconds at midnight in Paris, or occasionally as
+ * YYYYMMDD strings. They are returned as indexed, even where the ST66 notice has another day
+ * (FR1324250 is indexed on 1985-09-23 but filed on 1985-09-24 per its notice).
+ */
+export function normalizeIndexDate(value: number | string | undefined): string | null {
+  if (typeof value === "number") {
+    return isFinite(value) ? parisDateFormatter.format(new Date(value)) : null;
+  }
+  if (typeof value === "string" && /^\d{10,}$/.test(value)) {
+    return normalizeIndexDate(Number(value));
+  }
+  return normalizeSt66Date(value ?? null);
+}
+
+/**
+ * International marks carry their registration in `basicRegistrations`; French marks have the
+ * BOPI publication of their registration ("Enregistrement ...") in `history`.
+ */
+function registrationDateOf(source: InpiTrademarkSource): string | null {
+  const basicRegistration = source.basicRegistrations?.find(
+    (registration) => registration.registrationDate !== undefined
+  );
+  if (basicRegistration) {
+    return normalizeIndexDate(basicRegistration.registrationDate);
+  }
+  const registrationDates = (source.history ?? [])
+    .filter(
+      (entry) =>
+        entry.basicRecordKind?.startsWith("Enregistrement") &&
+        entry.publicationDate !== undefined
+    )
+    .map((entry) => normalizeIndexDate(entry.publicationDate))
+    .filter((date): date is string => date !== null)
+    .sort();
+  return registrationDates[0] ?? null;
+}
+
+function originOf(officeCode: string | null): string | null {
+  if (!officeCode) return null;
+  const entry = Object.entries(ORIGIN_OFFICE_CODES).find(([, code]) => code === officeCode);
+  return entry ? entry[0] : null;
+}
+
+function niceClassNumber(value: string): number | null {
+  const number = parseInt(value, 10);
+  return isNaN(number) || number < 1 || number > 45 ? null : number;
+}
+
+/** French wording where the office gives several languages. */
+function goodsAndServicesOf(source: InpiTrademarkSource): GoodsAndServices[] {
+  const goods = new Map<number, string[]>();
+  for (const details of source.classDescriptionDetails ?? []) {
+    const niceClass = niceClassNumber(details.class);
+    if (niceClass === null) continue;
+    const descriptions = details.goodServiceDescription ?? [];
+    const french = descriptions.filter((description) => description.lang === "fr");
+    const texts = (french.length > 0 ? french : descriptions)
+      .map((description) => description.text?.trim())
+      .filter((text): text is string => !!text);
+    goods.set(niceClass, [...(goods.get(niceClass) ?? []), ...texts]);
+  }
+  return [...goods]
+    .sort(([a], [b]) => a - b)
+    .map(([niceClass, texts]) => ({ niceClass, description: texts.join(" ") }));
+}
+
+function applicantNames(source: InpiTrademarkSource): string[] {
+  const applicants = Array.isArray(source.applicant)
+    ? (source.applicant as Array<Record<string, unknown>>)
+    : [];
+  const names = applicants
+    .map((applicant) => applicant.organizationName ?? applicant.lastName)
+    .filter((name): name is string => typeof name === "string" && !!name.trim())
+    .map((name) => name.trim());
+  return [...new Set(names)];
+}
+
+export function toTrademarkSummary(hit: InpiSearchHit): TrademarkSummary {
+  const source = hit._source;
+  const registrationOfficeCode = source.registrationOfficeCode || null;
+  const niceClasses = (source.classDescriptionDetails ?? [])
+    .map((c) => niceClassNumber(c.class))
+    .filter((n): n is number => n !== null);
+
+  return {
+    id: source.applicationNumberWithCountryCode || hit._id || "",
+    applicationNumber: source.applicationNumber || null,
+    markName: source.markWordElement || null,
+    applicationDate: normalizeIndexDate(source.applicationDate),
+    registrationDate: registrationDateOf(source),
+    expiryDate: normalizeIndexDate(source.expiryDate),
+    registrationOfficeCode,
+    origin: originOf(registrationOfficeCode),
+    status: source.markCurrentStatusCode || null,
+    feature: source.markFeature || null,
+    niceClasses: [...new Set(niceClasses)].sort((a, b) => a - b),
+    goodsAndServices: goodsAndServicesOf(source),
+    applicants: applicantNames(source),
+    hasImage: !!source.markImageFileName,
+  };
+}
+
+interface RawBuckets {
+  buckets?: Array<{ key: string | number; doc_count: number }>;
+}
+
+/**
+ * Reads the buckets of one aggregation. INPI nests each terms aggregation in a filter
+ * aggregation of the same name; a plain terms aggregation is accepted too.
+ */
+function bucketsOf(aggregation: unknown, name: string): SearchFacetBucket[] {
+  if (!aggregation || typeof aggregation !== "object") return [];
+  const outer = aggregation as RawBuckets & Record<string, unknown>;
+  const inner = (outer[name] as RawBuckets | undefined) ?? outer;
+  return (inner.buckets ?? []).map((bucket) => ({
+    value: String(bucket.key),
+    count: bucket.doc_count,
+  }));
+}
+
+/**
+ * Nice classes are indexed both zero-padded and bare ("09" and "9"); their counts are merged
+ * under the bare number, and keys that are not classes ("00") are dropped.
+ */
+function mergeNiceClassBuckets(buckets: SearchFacetBucket[]): SearchFacetBucket[] {
+  const counts = new Map<string, number>();
+  for (const bucket of buckets) {
+    const number = niceClassNumber(bucket.value);
+    if (number === null) continue;
+    counts.set(String(number), (counts.get(String(number)) ?? 0) + bucket.count);
+  }
+  return [...counts].map(([value, count]) => ({ value, count }));
+}
+
+export function toFacets(
+  aggregations: Record<string, unknown> | undefined,
+  names: string[]
+): Record<string, SearchFacetBucket[]> {
+  const facets: Record<string, SearchFacetBucket[]> = {};
+  for (const name of names) {
+    let buckets = bucketsOf(aggregations?.[name], name);
+    if (name === NICE_CLASS_FIELD) buckets = mergeNiceClassBuckets(buckets);
+    facets[name] = buckets.sort(
+      (a, b) => b.count - a.count || a.value.localeCompare(b.value, "en", { numeric: true })
+    );
+  }
+  return facets;
+}
+
+/**
+ * Maps an INPI search response to the versioned SearchResult.
+ * @param request The request the response answers, for paging and the facet names.
+ * @param includeRaw Also return the Elasticsearch hits, for consumers needing other fields.
+ */
+export function toSearchResult(
+  data: InpiSearchResponseData,
+  request: SearchRequest,
+  includeRaw = false
+): SearchResult {
+  const hits = data.result?.hits?.hits ?? [];
+  const upstreamTotal = data.result?.hits?.total;
+  const total = {
+    value: upstreamTotal?.value ?? hits.length,
+    relation: upstreamTotal?.relation === "gte" ? ("gte" as const) : ("eq" as const),
+  };
+  // A lower-bound total still counts every hit that was found, so it bounds the paging too.
+  const totalPages = Math.min(
+    Math.ceil(total.value / request.nbResultsPerPage),
+    lastPageInWindow(request.nbResultsPerPage)
+  );
+
+  const result: SearchResult = {
+    version: SEARCH_RESULT_VERSION,
+    total,
+    paging: {
+      page: request.page,
+      pageSize: request.nbResultsPerPage,
+      totalPages,
+      hasPreviousPage: request.page > 1,
+      hasNextPage: request.page < totalPages,
+    },
+    hits: hits.map(toTrademarkSummary),
+    facets: toFacets(data.result?.aggregations, request.aggregations),
+  };
+  if (data.stale) {
+    result.stale = true;
+    result.staleSince = data.staleSince;
+  }
+  if (includeRaw) result.raw = hits;
+  return result;
+}
+
+/** Reads the opt-in raw hits flag from a query string or JSON body value. */
+export function parseIncludeRaw(value: unknown): boolean {
+  return value === true || value === "true" || value === "1";
+}
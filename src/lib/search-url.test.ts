@@ -0,0 +1,96 @@
+import {
+  buildSearchUrl,
+  DEFAULT_SEARCH_PAGE_STATE,
+  isoDateInMonths,
+  mergeSearchState,
+  parseSearchUrl,
+  searchStateKey,
+} from "./search-url";
+
+describe("search page URL", () => {
+  it("round-trips the state and leaves defaults out of the URL", () => {
+    const query =
+      "q=nike&mode=clearance&niceClasses=25%2C9&niceLogic=OR&origin=EU&statuses=Registered&markFeatures=Figurative%2CWord&applicationDateFrom=2020-01-01&expiryDateTo=2026-06-30&advancedQuery=AND%3Amark%3Aphrase%3Acafe+bila&advancedQuery=NOT%3Aapplicant%3Awords%3Aterraillon&goodsClasses=9%2C42&goodsTerms=logiciels+de+gestion&page=3&nbResultsPerPage=50&sort=applicationDate&order=desc&display=grid";
+    const state = parseSearchUrl(new URLSearchParams(query));
+
+    expect(state).toEqual({
+      q: "nike",
+      mode: "clearance",
+      niceClasses: [25, 9],
+      niceLogic: "OR",
+      origin: "EU",
+      statuses: ["Registered"],
+      markFeatures: ["Figurative", "Word"],
+      dateRanges: {
+        applicationDate: { from: "2020-01-01", to: null },
+        expiryDate: { from: null, to: "2026-06-30" },
+      },
+      advancedQuery: [
+        { operator: "AND", field: "mark", match: "phrase", value: "cafe bila" },
+        {
+          operator: "NOT",
+          field: "applicant",
+          match: "words",
+          value: "terraillon",
+        },
+      ],
+      goodsClasses: [9, 42],
+      goodsTerms: "logiciels de gestion",
+      page: 3,
+      nbResultsPerPage: 50,
+      sort: "applicationDate",
+      order: "desc",
+      display: "Grid",
+    });
+    expect(buildSearchUrl(state)).toBe(query);
+    expect(buildSearchUrl({ ...DEFAULT_SEARCH_PAGE_STATE, q: "nike" })).toBe(
+      "q=nike"
+    );
+  });
+
+  it("falls back to defaults for invalid parameters", () => {
+    const state = parseSearchUrl(
+      new URLSearchParams(
+        "q=nike&page=-2&nbResultsPerPage=5000&sort=price&order=up&origin=XX"
+      )
+    );
+
+    expect(state).toEqual({
+      ...DEFAULT_SEARCH_PAGE_STATE,
+      q: "nike",
+      nbResultsPerPage: 100,
+    });
+  });
+
+  it("does not treat the display style as part of the search", () => {
+    const state = { ...DEFAULT_SEARCH_PAGE_STATE, q: "nike" };
+
+    expect(searchStateKey({ ...state, display: "Grid" })).toBe(
+      searchStateKey(state)
+    );
+  });
+
+  it("goes back to the first page when the search changes", () => {
+    const state = { ...DEFAULT_SEARCH_PAGE_STATE, q: "nike", page: 4 };
+
+    expect(mergeSearchState(state, { sort: "markWordElement" }).page).toBe(1);
+    expect(mergeSearchState(state, { nbResultsPerPage: 50 }).page).toBe(1);
+    expect(mergeSearchState(state, { statuses: ["Registered"] }).page).toBe(1);
+    expect(mergeSearchState(state, { q: "nike" }).page).toBe(4);
+    expect(mergeSearchState(state, { display: "Grid" }).page).toBe(4);
+    expect(mergeSearchState(state, { page: 5 }).page).toBe(5);
+  });
+
+  it("computes relative dates in Paris time, clamping to the end of the month", () => {
+    // 23:30 UTC on August 31st is already September 1st in Paris.
+    expect(isoDateInMonths(0, new Date("2025-08-31T23:30:00Z"))).toBe(
+      "2025-09-01"
+    );
+    expect(isoDateInMonths(-60, new Date("2026-03-15T10:00:00Z"))).toBe(
+      "2021-03-15"
+    );
+    expect(isoDateInMonths(6, new Date("2025-08-31T10:00:00Z"))).toBe(
+      "2026-02-28"
+    );
+  });
+});
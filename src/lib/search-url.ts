@@ -0,0 +1,184 @@
+// src/lib/search-url.ts
+
+import {
+  AdvancedQueryClause,
+  formatAdvancedQueryClause,
+  parseAdvancedQuery,
+} from "@/lib/advanced-query";
+import { parseGoodsSpecification } from "@/lib/goods-overlap";
+import {
+  DATE_RANGE_FIELDS,
+  DateRanges,
+  DEFAULT_PAGE_SIZE,
+  NiceLogic,
+  ORIGIN_OFFICE_CODES,
+  parseDateRanges,
+  parseFacetValues,
+  parseNiceClasses,
+  parsePageSize,
+  parseSearchMode,
+  parseSearchSort,
+  SearchMode,
+  SearchSort,
+  SortOrder,
+} from "@/lib/search-request";
+
+// The search page keeps everything that defines the result page in its URL, so that
+// back/forward and shared links restore it exactly. This module is the one place that reads
+// and writes those parameters.
+
+export type DisplayStyle = "List" | "Grid";
+
+export interface SearchPageState {
+  /** As typed, trimmed; the API normalizes it further. */
+  q: string;
+  mode: SearchMode;
+  niceClasses: number[];
+  niceLogic: NiceLogic;
+  origin: string | null;
+  statuses: string[];
+  markFeatures: string[];
+  dateRanges: DateRanges;
+  advancedQuery: AdvancedQueryClause[];
+  /** The proposed mark's goods and services, to rate each hit's conflict risk. */
+  goodsClasses: number[];
+  goodsTerms: string;
+  page: number;
+  nbResultsPerPage: number;
+  sort: SearchSort;
+  order: SortOrder;
+  /** Presentation only: changing it does not change the results. */
+  display: DisplayStyle;
+}
+
+export const DEFAULT_SEARCH_PAGE_STATE: SearchPageState = {
+  q: "",
+  mode: "standard",
+  niceClasses: [],
+  niceLogic: "AND",
+  origin: null,
+  statuses: [],
+  markFeatures: [],
+  dateRanges: {},
+  advancedQuery: [],
+  goodsClasses: [],
+  goodsTerms: "",
+  page: 1,
+  nbResultsPerPage: DEFAULT_PAGE_SIZE,
+  sort: "relevance",
+  order: "asc",
+  display: "List",
+};
+
+export function parseSearchUrl(params: URLSearchParams): SearchPageState {
+  const origin = params.get("origin")?.toUpperCase();
+  const page = parseInt(params.get("page") ?? "", 10);
+  const goods = parseGoodsSpecification(
+    params.get("goodsClasses"),
+    params.get("goodsTerms")
+  );
+  return {
+    q: params.get("q")?.trim() ?? "",
+    mode: parseSearchMode(params.get("mode")),
+    niceClasses: [...new Set(parseNiceClasses(params.get("niceClasses")))],
+    niceLogic: params.get("niceLogic") === "OR" ? "OR" : "AND",
+    origin: origin && ORIGIN_OFFICE_CODES[origin] ? origin : null,
+    statuses: parseFacetValues(params.get("statuses")),
+    markFeatures: parseFacetValues(params.get("markFeatures")),
+    dateRanges: parseDateRanges((name) => params.get(name)),
+    advancedQuery: parseAdvancedQuery(params.getAll("advancedQuery")),
+    goodsClasses: goods?.niceClasses ?? [],
+    goodsTerms: goods?.terms ?? "",
+    page: isNaN(page) || page < 1 ? 1 : page,
+    nbResultsPerPage: parsePageSize(params.get("nbResultsPerPage")),
+    sort: parseSearchSort(params.get("sort")),
+    order: params.get("order") === "desc" ? "desc" : "asc",
+    display: params.get("display") === "grid" ? "Grid" : "List",
+  };
+}
+
+/** The query string for a state, without the parameters that are at their default. */
+export function buildSearchUrl(state: SearchPageState): string {
+  const params = new URLSearchParams();
+  if (state.q) params.set("q", state.q);
+  if (state.mode !== "standard") params.set("mode", state.mode);
+  if (state.niceClasses.length > 0) {
+    params.set("niceClasses", state.niceClasses.join(","));
+    params.set("niceLogic", state.niceLogic);
+  }
+  if (state.origin) params.set("origin", state.origin);
+  if (state.statuses.length > 0) {
+    params.set("statuses", state.statuses.join(","));
+  }
+  if (state.markFeatures.length > 0) {
+    params.set("markFeatures", state.markFeatures.join(","));
+  }
+  for (const field of DATE_RANGE_FIELDS) {
+    const range = state.dateRanges[field];
+    if (range?.from) params.set(`${field}From`, range.from);
+    if (range?.to) params.set(`${field}To`, range.to);
+  }
+  for (const clause of state.advancedQuery) {
+    params.append("advancedQuery", formatAdvancedQueryClause(clause));
+  }
+  if (state.goodsClasses.length > 0) {
+    params.set("goodsClasses", state.goodsClasses.join(","));
+  }
+  if (state.goodsTerms) params.set("goodsTerms", state.goodsTerms);
+  if (state.page > 1) params.set("page", String(state.page));
+  if (state.nbResultsPerPage !== DEFAULT_PAGE_SIZE) {
+    params.set("nbResultsPerPage", String(state.nbResultsPerPage));
+  }
+  if (state.sort !== "relevance") params.set("sort", state.sort);
+  if (state.order !== "asc") params.set("order", state.order);
+  if (state.display === "Grid") params.set("display", "grid");
+  return params.toString();
+}
+
+/** Identifies the results a state asks for: equal keys, same results. */
+export function searchStateKey(state: SearchPageState): string {
+  return buildSearchUrl({ ...state, display: "List" });
+}
+
+/**
+ * Applies changes to a state. Any change to what is searched, or how it is sorted and paged,
+ * goes back to the first page unless the change sets the page itself.
+ */
+export function mergeSearchState(
+  current: SearchPageState,
+  changes: Partial<SearchPageState>
+): SearchPageState {
+  const next = { ...current, ...changes };
+  if (
+    changes.page === undefined &&
+    searchStateKey({ ...current, page: 1 }) !==
+      searchStateKey({ ...next, page: 1 })
+  ) {
+    next.page = 1;
+  }
+  return next;
+}
+
+const parisDateFormatter = new Intl.DateTimeFormat("en-CA", {
+  timeZone: "Europe/Paris",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+/**
+ * Today's date in Paris, shifted by a number of months, as an ISO date. Backs the "filed in
+ * the last 5 years" style shortcuts; the URL keeps the resulting absolute dates.
+ */
+export function isoDateInMonths(months: number, now = new Date()): string {
+  const [year, month, day] = parisDateFormatter
+    .format(now)
+    .split("-")
+    .map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
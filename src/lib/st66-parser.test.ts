@@ -0,0 +1,148 @@
+import fs from "fs";
+import path from "path";
+import {
+  normalizeSt66Date,
+  parseSt66Notice,
+  splitGoodsServicesTerms,
+  St66ParseError,
+} from "@/lib/st66-parser";
+
+const FIXTURES_DIR = path.join(__dirname, "..", "..", "fixtures", "inpi");
+
+function recordedNotice(): string {
+  const file = fs
+    .readdirSync(FIXTURES_DIR)
+    .find((name) => name.includes("notice_FR1324250"))!;
+  return JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, file), "utf-8")).response
+    .body;
+}
+
+describe("parseSt66Notice", () => {
+  it("normalizes the recorded FR1324250 notice", async () => {
+    const record = await parseSt66Notice(recordedNotice());
+
+    expect(record).toMatchObject({
+      applicationNumber: "1324250",
+      applicationNumberWithCountryCode: "FR1324250",
+      registrationOfficeCode: "FR",
+      registrationNumber: "1324250",
+      applicationDate: "1985-09-24",
+      expiryDate: "1995-09-24",
+      status: { label: "Marque expirée", date: "1995-09-25" },
+      kind: "Individual",
+      feature: "Word",
+      verbalElement: "BILA",
+      images: [{ filename: "FMARK0000000001324250", format: "PNG" }],
+    });
+    expect(record.classes).toEqual([
+      {
+        number: 9,
+        description: "Appareils et instruments de pesage et de mesurage.",
+        terms: ["Appareils et instruments de pesage et de mesurage"],
+        languageCode: "fr",
+      },
+    ]);
+    expect(record.applicants).toEqual([
+      {
+        identifier: "1",
+        name: "TERRAILLON S.A.",
+        legalEntity: "Société anonyme",
+        address: {
+          lines: ["route de Thonon"],
+          city: "JUVIGNY",
+          postcode: "74100",
+          countryCode: "FR",
+        },
+      },
+    ]);
+    expect(record.representatives[0].name).toBe("BUGNION ASSOCIES");
+    expect(record.publications).toEqual([
+      { identifier: "1986-10", section: "Enregistrement ancienne loi", date: "1986-03-07" },
+    ]);
+    expect(record.events.map((event) => event.code)).toEqual([
+      "Enregistrement ancienne loi",
+      "Marque expirée",
+    ]);
+  });
+
+  it("handles wrapped, camelCase and sparse notices", async () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+      <Transaction><TradeMarkTransactionBody>
+        <tradeMarkType>
+          <applicationNumber>4216963</applicationNumber>
+          <applicationDate>20151027</applicationDate>
+          <GoodsServicesDetails>
+            <GoodsServices><ClassDescriptionDetails>
+              <ClassDescription>
+                <ClassNumber>9</ClassNumber>
+                <GoodsServicesDescription languageCode="en">Software; apps</GoodsServicesDescription>
+                <GoodsServicesDescription languageCode="fr">Logiciels ; applications mobiles.</GoodsServicesDescription>
+              </ClassDescription>
+            </ClassDescriptionDetails></GoodsServices>
+            <GoodsServices><ClassDescriptionDetails>
+              <ClassDescription><ClassNumber>09</ClassNumber><GoodsServicesDescription>Ordinateurs</GoodsServicesDescription></ClassDescription>
+            </ClassDescriptionDetails></GoodsServices>
+          </GoodsServicesDetails>
+          <ApplicantDetails><Applicant>
+            <ApplicantAddressBook>
+              <FormattedNameAddress><Name><FormattedName>
+                <FirstName>Jean</FirstName><LastName>DUPONT</LastName>
+              </FormattedName></Name></FormattedNameAddress>
+            </ApplicantAddressBook>
+          </Applicant><Applicant>
+            <ApplicantAddressBook><PostalAddress>ACME SAS
+12 rue de la Paix
+75002 PARIS</PostalAddress></ApplicantAddressBook>
+          </Applicant></ApplicantDetails>
+        </tradeMarkType>
+      </TradeMarkTransactionBody></Transaction>`;
+
+    const record = await parseSt66Notice(xml, "FR4216963");
+
+    expect(record.applicationNumberWithCountryCode).toBe("FR4216963");
+    expect(record.applicationDate).toBe("2015-10-27");
+    expect(record.registrationDate).toBeNull();
+    expect(record.classes).toEqual([
+      {
+        number: 9,
+        description: "Logiciels ; applications mobiles.; Ordinateurs",
+        terms: ["Logiciels", "applications mobiles", "Ordinateurs"],
+        languageCode: "fr",
+      },
+    ]);
+    expect(record.applicants.map((party) => party.name)).toEqual([
+      "Jean DUPONT",
+      "ACME SAS",
+    ]);
+    expect(record.applicants[1].address?.lines).toEqual([
+      "12 rue de la Paix",
+      "75002 PARIS",
+    ]);
+    expect(record.representatives).toEqual([]);
+  });
+
+  it("rejects malformed and foreign documents", async () => {
+    await expect(parseSt66Notice("<TradeMark>")).rejects.toBeInstanceOf(St66ParseError);
+    await expect(
+      parseSt66Notice("<oauth><error>unauthorized</error></oauth>")
+    ).rejects.toThrow("no TradeMark element");
+    await expect(
+      parseSt66Notice("<TradeMark><MarkFeature>Word</MarkFeature></TradeMark>")
+    ).rejects.toThrow("does not match the trademark model");
+  });
+});
+
+describe("ST66 helpers", () => {
+  it("normalizes dates", () => {
+    expect(normalizeSt66Date("1985-09-24")).toBe("1985-09-24");
+    expect(normalizeSt66Date("19850924")).toBe("1985-09-24");
+    expect(normalizeSt66Date("1985-09-24T00:00:00+01:00")).toBe("1985-09-24");
+    expect(normalizeSt66Date("1985-02-30")).toBeNull();
+    expect(normalizeSt66Date("unknown")).toBeNull();
+  });
+
+  it("splits goods and services into terms", () => {
+    expect(splitGoodsServicesTerms("Café; thé ; cacao.")).toEqual(["Café", "thé", "cacao"]);
+    expect(splitGoodsServicesTerms(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,319 @@
+// src/lib/st66-parser.ts
+
+import { parseStringPromise } from "xml2js";
+import {
+  Address,
+  MarkEvent,
+  MarkImage,
+  NiceClass,
+  Party,
+  Publication,
+  TrademarkRecord,
+  TrademarkRecordSchema,
+} from "@/lib/trademark-record";
+
+/**
+ * Thrown when a notice is not well-formed XML, has no TradeMark element, or does not fit the
+ * TrademarkRecord model.
+ */
+export class St66ParseError extends Error {
+  constructor(message: string, public details?: unknown) {
+    super(message);
+    this.name = "St66ParseError";
+  }
+}
+
+// xml2js output with explicitArray: every child is an array; leaves are strings, or objects
+// with `_text` when the element has attributes.
+type XmlNode = { [key: string]: XmlValue[] | Record<string, string> | string | undefined };
+type XmlValue = XmlNode | string;
+
+function isNode(value: XmlValue | undefined): value is XmlNode {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * Children of `node` named `name`. ST66 element names are PascalCase, but some INPI payloads
+ * use camelCase, so the lookup ignores case.
+ */
+function children(node: XmlValue | undefined, name: string): XmlValue[] {
+  if (!isNode(node)) return [];
+  const wanted = name.toLowerCase();
+  const key = Object.keys(node).find((k) => k.toLowerCase() === wanted);
+  const value = key ? node[key] : undefined;
+  return Array.isArray(value) ? value : [];
+}
+
+/** Follows a path of element names and returns every node found at its end. */
+function all(node: XmlValue | undefined, ...path: string[]): XmlValue[] {
+  return path.reduce<XmlValue[]>(
+    (nodes, name) => nodes.flatMap((n) => children(n, name)),
+    node === undefined ? [] : [node]
+  );
+}
+
+function first(node: XmlValue | undefined, ...path: string[]): XmlValue | undefined {
+  return all(node, ...path)[0];
+}
+
+function rawTextOf(value: XmlValue | undefined): string | null {
+  const raw = isNode(value) ? value._text : value;
+  return typeof raw === "string" ? raw : null;
+}
+
+function textOf(value: XmlValue | undefined): string | null {
+  const raw = rawTextOf(value);
+  if (raw === null) return null;
+  const trimmed = raw.replace(/\s+/g, " ").trim();
+  return trimmed || null;
+}
+
+function text(node: XmlValue | undefined, ...path: string[]): string | null {
+  return textOf(first(node, ...path));
+}
+
+function attribute(value: XmlValue | undefined, name: string): string | null {
+  if (!isNode(value)) return null;
+  const attrs = value._attrs;
+  if (!attrs || Array.isArray(attrs) || typeof attrs !== "object") return null;
+  const key = Object.keys(attrs).find((k) => k.toLowerCase() === name.toLowerCase());
+  return key ? (attrs as Record<string, string>)[key] || null : null;
+}
+
+/** Accepts YYYY-MM-DD (optionally with a time) and YYYYMMDD. */
+export function normalizeSt66Date(value: string | null): string | null {
+  if (!value) return null;
+  const match = value.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  const date = new Date(`${year}-${month}-${day}T00:00:00Z`);
+  if (isNaN(date.getTime()) || date.getUTCDate() !== Number(day)) return null;
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Splits a goods and services description into terms. INPI separates terms with semicolons;
+ * a description without any is one term per sentence.
+ */
+export function splitGoodsServicesTerms(description: string | null): string[] {
+  if (!description) return [];
+  const separator = description.includes(";") ? /;/ : /\.(?=\s|$)/;
+  return description
+    .split(separator)
+    .map((term) => term.replace(/\s+/g, " ").replace(/[.\s]+$/, "").trim())
+    .filter(Boolean);
+}
+
+function parseName(nameNode: XmlValue | undefined): string | null {
+  const formatted = first(nameNode, "FormattedName") ?? nameNode;
+  const organization = text(formatted, "OrganizationName");
+  if (organization) return organization;
+
+  const person = ["FirstName", "MiddleName", "LastName"]
+    .map((part) => text(formatted, part))
+    .filter(Boolean)
+    .join(" ");
+  if (person) return person;
+
+  const freeFormat = all(nameNode, "FreeFormatName", "FreeFormatNameDetails", "FreeFormatNameLine")
+    .map(textOf)
+    .filter(Boolean)
+    .join(" ");
+  return freeFormat || textOf(formatted);
+}
+
+function parseAddress(addressNode: XmlValue | undefined): Address | null {
+  if (!addressNode) return null;
+  const formatted = first(addressNode, "FormattedAddress");
+  const lines = [
+    ...all(formatted, "AddressLine"),
+    ...all(addressNode, "FreeFormatAddress", "FreeFormatAddressLine"),
+  ]
+    .map(textOf)
+    .filter((line): line is string => !!line);
+
+  const address: Address = {
+    lines,
+    city: text(formatted, "AddressCity"),
+    postcode: text(formatted, "AddressPostcode"),
+    countryCode:
+      text(addressNode, "AddressCountryCode") ??
+      text(formatted, "AddressCountryCode") ??
+      text(formatted, "FormattedAddressCountryCode"),
+  };
+  const isEmpty = !lines.length && !address.city && !address.postcode && !address.countryCode;
+  return isEmpty ? null : address;
+}
+
+function parseParty(partyNode: XmlValue, kind: "Applicant" | "Representative"): Party {
+  const addressBook = first(partyNode, `${kind}AddressBook`);
+  const nameAddress = first(addressBook, "FormattedNameAddress");
+  let name = parseName(first(nameAddress, "Name"));
+  let address = parseAddress(first(nameAddress, "Address"));
+
+  // Some notices only carry a newline-separated postal address: name first, then the address.
+  const postal = (rawTextOf(first(addressBook, "PostalAddress")) ?? "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+  if (!name && postal.length > 0) name = postal[0];
+  if (!address && postal.length > 1) {
+    address = { lines: postal.slice(1), city: null, postcode: null, countryCode: null };
+  }
+
+  return {
+    identifier: text(partyNode, `${kind}Identifier`),
+    name,
+    legalEntity: text(partyNode, `${kind}LegalEntity`),
+    address,
+  };
+}
+
+function parseClasses(trademark: XmlNode): NiceClass[] {
+  const byNumber = new Map<number, NiceClass>();
+  for (const classNode of all(
+    trademark,
+    "GoodsServicesDetails",
+    "GoodsServices",
+    "ClassDescriptionDetails",
+    "ClassDescription"
+  )) {
+    const number = parseInt(text(classNode, "ClassNumber") ?? "", 10);
+    if (isNaN(number) || number < 1 || number > 45) continue;
+
+    const descriptions = all(classNode, "GoodsServicesDescription");
+    // Prefer the French text when the description is given in several languages.
+    const description =
+      descriptions.find((d) => attribute(d, "languageCode")?.toLowerCase() === "fr") ??
+      descriptions[0];
+    const descriptionText = textOf(description);
+
+    const existing = byNumber.get(number);
+    if (existing) {
+      // The same class can be listed under several GoodsServices blocks.
+      existing.description = [existing.description, descriptionText].filter(Boolean).join("; ") || null;
+      existing.terms.push(...splitGoodsServicesTerms(descriptionText));
+      continue;
+    }
+    byNumber.set(number, {
+      number,
+      description: descriptionText,
+      terms: splitGoodsServicesTerms(descriptionText),
+      languageCode: attribute(description, "languageCode"),
+    });
+  }
+  return [...byNumber.values()].sort((a, b) => a.number - b.number);
+}
+
+function parseImages(trademark: XmlNode): MarkImage[] {
+  return all(trademark, "MarkImageDetails", "MarkImage").flatMap((image) => {
+    const filename = text(image, "MarkImageFilename");
+    return filename ? [{ filename, format: text(image, "MarkImageFileFormat") }] : [];
+  });
+}
+
+function parsePublications(trademark: XmlNode): Publication[] {
+  return all(trademark, "PublicationDetails", "Publication").map((publication) => ({
+    identifier: text(publication, "PublicationIdentifier"),
+    section: text(publication, "PublicationSection"),
+    date: normalizeSt66Date(text(publication, "PublicationDate")),
+  }));
+}
+
+function parseEvents(trademark: XmlNode): MarkEvent[] {
+  return all(trademark, "MarkEventDetails", "MarkEvent")
+    .flatMap((event) => {
+      const code = text(event, "MarkEventCode");
+      return code ? [{ code, date: normalizeSt66Date(text(event, "MarkEventDate")) }] : [];
+    })
+    .sort((a, b) => (a.date ?? "").localeCompare(b.date ?? ""));
+}
+
+/** Finds the TradeMark element, wherever the notice wraps it. */
+function findTrademarkNode(value: XmlValue | undefined): XmlNode | undefined {
+  if (!isNode(value)) return undefined;
+  for (const [key, child] of Object.entries(value)) {
+    if (key === "_attrs" || key === "_text" || child === undefined) continue;
+    // The document root is a single node even with explicitArray.
+    const items = (Array.isArray(child) ? child : [child]) as XmlValue[];
+    if (/^trademark(type)?$/i.test(key) && isNode(items[0])) return items[0];
+    for (const item of items) {
+      const found = findTrademarkNode(item);
+      if (found) return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parses an ST66 notice from `/marques/notice/{id}` into a validated TrademarkRecord.
+ * @param xml The notice XML.
+ * @param fallbackId The requested application number, used when the notice omits it.
+ * @throws St66ParseError
+ */
+export async function parseSt66Notice(
+  xml: string,
+  fallbackId?: string
+): Promise<TrademarkRecord> {
+  let document: XmlNode;
+  try {
+    document = await parseStringPromise(xml, {
+      explicitArray: true,
+      charkey: "_text",
+      attrkey: "_attrs",
+    });
+  } catch (error) {
+    throw new St66ParseError("The notice is not well-formed XML.", String(error));
+  }
+
+  const trademark = findTrademarkNode(document);
+  if (!trademark) {
+    throw new St66ParseError("The notice has no TradeMark element.");
+  }
+
+  const officeCode = text(trademark, "RegistrationOfficeCode");
+  const applicationNumber =
+    text(trademark, "ApplicationNumber") ?? fallbackId?.replace(/^[A-Z]{2}(?=\d)/i, "") ?? "";
+  const applicationNumberWithCountryCode = /^[A-Z]{2}/i.test(applicationNumber)
+    ? applicationNumber.toUpperCase()
+    : officeCode
+      ? `${officeCode}${applicationNumber}`
+      : fallbackId?.toUpperCase() ?? applicationNumber;
+
+  const candidate: TrademarkRecord = {
+    applicationNumber,
+    applicationNumberWithCountryCode,
+    registrationOfficeCode: officeCode,
+    registrationNumber: text(trademark, "RegistrationNumber"),
+    applicationDate: normalizeSt66Date(text(trademark, "ApplicationDate")),
+    registrationDate: normalizeSt66Date(text(trademark, "RegistrationDate")),
+    expiryDate: normalizeSt66Date(text(trademark, "ExpiryDate")),
+    applicationLanguageCode: text(trademark, "ApplicationLanguageCode"),
+    status: {
+      label: text(trademark, "MarkCurrentStatusCode"),
+      date: normalizeSt66Date(text(trademark, "MarkCurrentStatusDate")),
+    },
+    kind: text(trademark, "KindMark"),
+    feature: text(trademark, "MarkFeature"),
+    verbalElement: text(trademark, "WordMarkSpecification", "MarkVerbalElementText"),
+    images: parseImages(trademark),
+    classes: parseClasses(trademark),
+    applicants: all(trademark, "ApplicantDetails", "Applicant").map((party) =>
+      parseParty(party, "Applicant")
+    ),
+    representatives: all(trademark, "RepresentativeDetails", "Representative").map(
+      (party) => parseParty(party, "Representative")
+    ),
+    publications: parsePublications(trademark),
+    events: parseEvents(trademark),
+  };
+
+  const result = TrademarkRecordSchema.safeParse(candidate);
+  if (!result.success) {
+    throw new St66ParseError(
+      "The notice does not match the trademark model.",
+      result.error.issues
+    );
+  }
+  return result.data;
+}
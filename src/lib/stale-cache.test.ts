@@ -0,0 +1,152 @@
+import { APIError, getInpiCircuitBreaker } from "@/lib/inpi-client";
+import { getOrFetch, staleHeaders, STALE_DATA_HEADER } from "@/lib/stale-cache";
+
+describe("getOrFetch", () => {
+  let now: number;
+  let keyCounter = 0;
+  let key: string;
+
+  beforeEach(() => {
+    now = Date.parse("2026-10-19T10:00:00Z");
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    key = `stale-cache-test:${++keyCounter}`;
+    getInpiCircuitBreaker().recordSuccess();
+  });
+
+  afterEach(() => {
+    getInpiCircuitBreaker().recordSuccess();
+    jest.restoreAllMocks();
+  });
+
+  const openCircuit = () => {
+    for (let i = 0; i < 10; i++) getInpiCircuitBreaker().recordFailure();
+  };
+
+  it("serves fresh entries from the cache", async () => {
+    const fetcher = jest.fn().mockResolvedValue("v1");
+
+    await expect(getOrFetch(key, fetcher, 60)).resolves.toMatchObject({
+      data: "v1",
+      stale: false,
+    });
+    await expect(getOrFetch(key, fetcher, 60)).resolves.toMatchObject({
+      data: "v1",
+      stale: false,
+    });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("refetches expired entries while INPI is healthy", async () => {
+    await getOrFetch(key, async () => "v1", 60);
+    now += 61_000;
+
+    await expect(getOrFetch(key, async () => "v2", 60)).resolves.toMatchObject({
+      data: "v2",
+      stale: false,
+    });
+  });
+
+  it("serves the expired entry when INPI fails", async () => {
+    await getOrFetch(key, async () => "v1", 60);
+    const fetchedAt = now;
+    now += 61_000;
+
+    const result = await getOrFetch(
+      key,
+      () => Promise.reject(new APIError("INPI down", 502)),
+      60
+    );
+
+    expect(result).toEqual({ data: "v1", stale: true, cachedAt: fetchedAt });
+  });
+
+  it("passes on errors that are not outages", async () => {
+    await getOrFetch(key, async () => "v1", 60);
+    now += 61_000;
+
+    await expect(
+      getOrFetch(key, () => Promise.reject(new APIError("Not found", 404)), 60)
+    ).rejects.toThrow("Not found");
+  });
+
+  it("does not call INPI while the circuit is open", async () => {
+    await getOrFetch(key, async () => "v1", 60);
+    now += 61_000;
+    openCircuit();
+    const fetcher = jest.fn().mockResolvedValue("v2");
+
+    await expect(getOrFetch(key, fetcher, 60)).resolves.toMatchObject({
+      data: "v1",
+      stale: true,
+    });
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it("refreshes in the background once the circuit lets a probe through", async () => {
+    await getOrFetch(key, async () => "v1", 60);
+    now += 61_000;
+    openCircuit();
+    now += 60_000; // past the default 30s cooldown
+    const fetcher = jest.fn().mockResolvedValue("v2");
+
+    await expect(getOrFetch(key, fetcher, 60)).resolves.toMatchObject({
+      data: "v1",
+      stale: true,
+    });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    getInpiCircuitBreaker().recordSuccess();
+    await expect(getOrFetch(key, fetcher, 60)).resolves.toMatchObject({
+      data: "v2",
+      stale: false,
+    });
+  });
+
+  it("fails when there is nothing stale to serve", async () => {
+    await expect(
+      getOrFetch(key, () => Promise.reject(new APIError("INPI down", 503)), 60)
+    ).rejects.toThrow("INPI down");
+  });
+
+  it("shares one fetch between concurrent misses on the same key", async () => {
+    let resolveFetch: (value: string) => void = () => {};
+    const fetcher = jest.fn(
+      () => new Promise<string>((resolve) => (resolveFetch = resolve))
+    );
+
+    const first = getOrFetch(key, fetcher, 60);
+    const second = getOrFetch(key, fetcher, 60);
+    await new Promise((resolve) => setImmediate(resolve));
+    resolveFetch("v1");
+
+    await expect(Promise.all([first, second])).resolves.toEqual([
+      { data: "v1", stale: false, cachedAt: now },
+      { data: "v1", stale: false, cachedAt: now },
+    ]);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("shares failures too, and lets the next call try again", async () => {
+    const fetcher = jest
+      .fn()
+      .mockRejectedValueOnce(new APIError("INPI down", 503))
+      .mockResolvedValueOnce("v1");
+
+    const results = await Promise.allSettled([
+      getOrFetch(key, fetcher, 60),
+      getOrFetch(key, fetcher, 60),
+    ]);
+    expect(results.map((result) => result.status)).toEqual(["rejected", "rejected"]);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    await expect(getOrFetch(key, fetcher, 60)).resolves.toMatchObject({ data: "v1" });
+  });
+
+  it("marks stale responses with a header", () => {
+    expect(staleHeaders({ stale: true })).toEqual({ [STALE_DATA_HEADER]: "true" });
+    expect(staleHeaders({})).toEqual({});
+  });
+});
@@ -0,0 +1,157 @@
+// src/lib/stale-cache.ts
+
+import { getCacheService } from "@/lib/cache-service";
+import { APIError, getInpiHealth } from "@/lib/inpi-client";
+
+/** Response header set by the API routes when they answer with stale data. */
+export const STALE_DATA_HEADER = "X-Data-Stale";
+
+// Expired entries are kept this much longer so they can be served during an INPI outage.
+const DEFAULT_STALE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+interface StaleCacheEntry<T> {
+  value: T;
+  cachedAt: number;
+  /** Epoch milliseconds after which the entry is stale, or null if it never goes stale. */
+  freshUntil: number | null;
+}
+
+export interface CachedResult<T> {
+  data: T;
+  /** True when INPI could not be reached and an expired entry was served instead. */
+  stale: boolean;
+  /** When the data was fetched from INPI (epoch milliseconds). */
+  cachedAt: number;
+}
+
+const getStaleTtlSeconds = () =>
+  Number(process.env.CACHE_STALE_TTL_SECONDS) || DEFAULT_STALE_TTL_SECONDS;
+
+// --- HMR-safe global map of in-flight fetches, keyed by cache key ---
+// Like inpiTokenPromise for logins: concurrent misses on one key share a single INPI round trip
+// and a single cache write, and a burst of stale reads triggers a single background refresh.
+const globalWithInFlightFetches = globalThis as typeof globalThis & {
+  inpiInFlightFetches?: Map<string, Promise<StaleCacheEntry<unknown>>>;
+};
+
+if (!globalWithInFlightFetches.inpiInFlightFetches) {
+  globalWithInFlightFetches.inpiInFlightFetches = new Map();
+}
+const inFlightFetches = globalWithInFlightFetches.inpiInFlightFetches;
+// --- End HMR-safe map ---
+
+/**
+ * Errors that justify serving stale data: INPI down or the circuit open (5xx), or the quota
+ * spent (429). Anything else, e.g. a 404, is a real answer and is passed on.
+ */
+function canServeStale(error: unknown): boolean {
+  const status =
+    error instanceof APIError
+      ? error.statusCode
+      : (error as { response?: { status?: number } })?.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+/**
+ * Fetches and caches `key`, joining the fetch already in flight for that key if there is one.
+ */
+function fetchAndStore<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  ttlSeconds: number
+): Promise<StaleCacheEntry<T>> {
+  const inFlight = inFlightFetches.get(key);
+  if (inFlight) {
+    console.log(`[CACHE_SERVICE] Joining in-flight fetch for key: ${key}`);
+    return inFlight as Promise<StaleCacheEntry<T>>;
+  }
+  const promise = fetchAndStoreOnce(key, fetcher, ttlSeconds).finally(() =>
+    inFlightFetches.delete(key)
+  );
+  inFlightFetches.set(key, promise);
+  return promise;
+}
+
+async function fetchAndStoreOnce<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  ttlSeconds: number
+): Promise<StaleCacheEntry<T>> {
+  const value = await fetcher();
+  const cachedAt = Date.now();
+  const entry: StaleCacheEntry<T> = {
+    value,
+    cachedAt,
+    freshUntil: ttlSeconds > 0 ? cachedAt + ttlSeconds * 1000 : null,
+  };
+  await getCacheService().set(
+    key,
+    entry,
+    ttlSeconds > 0 ? ttlSeconds + getStaleTtlSeconds() : 0
+  );
+  console.log(`[CACHE_SERVICE] Data stored in cache for key: ${key}`);
+  return entry;
+}
+
+function refreshInBackground<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  ttlSeconds: number
+) {
+  if (inFlightFetches.has(key)) return;
+  fetchAndStore(key, fetcher, ttlSeconds).catch((error) =>
+    console.warn(
+      `[CACHE_SERVICE] Background refresh failed for key: ${key}`,
+      error instanceof Error ? error.message : error
+    )
+  );
+}
+
+/**
+ * Reads `key` from the cache, calling `fetcher` when it is missing or expired. Expired entries
+ * are kept for CACHE_STALE_TTL_SECONDS more and served, flagged as stale, when INPI fails or
+ * its circuit is open. Once the circuit lets a probe through, the entry is refreshed in the
+ * background while the stale copy is still served. Concurrent calls for the same key share one
+ * fetch.
+ */
+export async function getOrFetch<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  ttlSeconds: number
+): Promise<CachedResult<T>> {
+  const cached = await getCacheService().get<StaleCacheEntry<T>>(key);
+  if (cached && (cached.freshUntil === null || cached.freshUntil > Date.now())) {
+    console.log(`[CACHE_SERVICE] Cache hit for key: ${key}`);
+    return { data: cached.value, stale: false, cachedAt: cached.cachedAt };
+  }
+
+  if (cached) {
+    const { state } = getInpiHealth();
+    if (state !== "closed") {
+      console.warn(
+        `[CACHE_SERVICE] INPI circuit is ${state}; serving stale data for key: ${key}`
+      );
+      if (state === "half-open") refreshInBackground(key, fetcher, ttlSeconds);
+      return { data: cached.value, stale: true, cachedAt: cached.cachedAt };
+    }
+  }
+
+  console.log(`[CACHE_SERVICE] Cache miss for key: ${key}. Fetching from INPI.`);
+  try {
+    const entry = await fetchAndStore(key, fetcher, ttlSeconds);
+    return { data: entry.value, stale: false, cachedAt: entry.cachedAt };
+  } catch (error) {
+    if (!cached || !canServeStale(error)) throw error;
+    console.warn(
+      `[CACHE_SERVICE] INPI request failed; serving stale data for key: ${key}`
+    );
+    return { data: cached.value, stale: true, cachedAt: cached.cachedAt };
+  }
+}
+
+/**
+ * Headers marking a response as stale, to spread into `NextResponse.json` init.
+ */
+export function staleHeaders(result: { stale?: boolean }): Record<string, string> {
+  return result.stale ? { [STALE_DATA_HEADER]: "true" } : {};
+}
@@ -0,0 +1,114 @@
+// src/lib/trademark-image.ts
+
+import axios from "axios";
+import { createHash } from "crypto";
+import { getCacheTtl } from "@/lib/cache-service";
+import { getXsrfTokenValue, inpiRequest } from "@/lib/inpi-client";
+import { CachedResult, getOrFetch } from "@/lib/stale-cache";
+
+/** Image formats of /marques/image/{id}/{format}: the standard image and a thumbnail. */
+export const IMAGE_FORMATS = ["std", "thu"] as const;
+
+export type ImageFormat = (typeof IMAGE_FORMATS)[number];
+
+/** Header set on the generated placeholder, so clients can tell it from a real logo. */
+export const PLACEHOLDER_HEADER = "X-Image-Placeholder";
+
+export function parseImageFormat(value: string | null): ImageFormat | null {
+  if (!value) return "std";
+  const format = value.trim().toLowerCase();
+  return (IMAGE_FORMATS as readonly string[]).includes(format)
+    ? (format as ImageFormat)
+    : null;
+}
+
+/** A strong ETag derived from the bytes, so it survives cache backends and restarts. */
+export function createEtag(body: Buffer | string): string {
+  return `"${createHash("sha256").update(body).digest("base64url").slice(0, 27)}"`;
+}
+
+/**
+ * Whether an `If-None-Match` header matches `etag`. Weak comparison, as RFC 9110 requires for
+ * If-None-Match: `W/"x"` matches `"x"`.
+ */
+export function matchesEtag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  if (ifNoneMatch.trim() === "*") return true;
+  const bare = (tag: string) => tag.trim().replace(/^W\//, "");
+  return ifNoneMatch.split(",").some((tag) => bare(tag) === bare(etag));
+}
+
+/**
+ * The image served for marks without a logo: a neutral frame with "Aucun logo", sized like
+ * INPI's thumbnails or standard images.
+ */
+export function placeholderSvg(format: ImageFormat): string {
+  const size = format === "thu" ? 100 : 400;
+  const fontSize = format === "thu" ? 11 : 28;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}" role="img" aria-label="Aucun logo">`,
+    `<rect width="100%" height="100%" fill="#f3f4f6" stroke="#d1d5db" stroke-width="2"/>`,
+    `<text x="50%" y="50%" dominant-baseline="middle" text-anchor="middle" font-family="sans-serif" font-size="${fontSize}" fill="#9ca3af">Aucun logo</text>`,
+    `</svg>`,
+  ].join("");
+}
+
+const INPI_IMAGE_BASE_URL =
+  "https://api-gateway.inpi.fr/services/apidiffusion/api/marques/image";
+
+/** A cached image, or `missing` when INPI has no logo for the mark. */
+export type CachedImage =
+  | { missing: false; contentType: string; body: string; etag: string }
+  | { missing: true };
+
+async function fetchImage(
+  id: string,
+  format: ImageFormat
+): Promise<CachedImage> {
+  const imageUrl = `${INPI_IMAGE_BASE_URL}/${id}/${format}`;
+  console.log(`Proxying image request to: ${imageUrl}`);
+  try {
+    // inpiRequest adds the bearer token and re-authenticates if the session was revoked.
+    const response = await inpiRequest<ArrayBuffer>({
+      method: "GET",
+      url: imageUrl,
+      headers: {
+        "X-XSRF-TOKEN": getXsrfTokenValue() || "",
+        "User-Agent": "Next.js Trademark App/1.0 (Image Proxy)",
+        // Important: Ensure the INPI API knows we can handle the image type
+        Accept: "image/jpeg, image/png, image/*,*/*;q=0.8",
+      },
+      responseType: "arraybuffer", // Crucial for getting the image data as a buffer
+    });
+    const body = Buffer.from(response.data);
+    if (body.length === 0) return { missing: true };
+    return {
+      missing: false,
+      contentType: response.headers["content-type"] || "image/jpeg",
+      // Base64 so that every cache backend can store the bytes.
+      body: body.toString("base64"),
+      etag: createEtag(body),
+    };
+  } catch (error) {
+    // A mark without a logo is a 404; that answer is cached like an image.
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      return { missing: true };
+    }
+    throw error;
+  }
+}
+
+/**
+ * A mark's logo through the cache layer, shared by the image route and the clearance report,
+ * so that neither costs an INPI call for a logo the other has fetched.
+ */
+export function getTrademarkImage(
+  id: string,
+  format: ImageFormat
+): Promise<CachedResult<CachedImage>> {
+  return getOrFetch(
+    `image:${format}:${id}`,
+    () => fetchImage(id, format),
+    getCacheTtl("image")
+  );
+}
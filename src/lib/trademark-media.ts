@@ -0,0 +1,71 @@
+// src/lib/trademark-media.ts
+
+// Media of non-traditional marks, served by INPI at /marques/media/{type}/{applicationNumber}.
+// Shared by the media route and the detail page; keep it free of server-only imports.
+
+/** Media type names as used by INPI, keyed by the short name used in our URLs. */
+export const MEDIA_TYPES = {
+  sound: "MEDIA_TYPE_SOUND",
+  video: "MEDIA_TYPE_VIDEO",
+  "3d": "MEDIA_TYPE_3D",
+} as const;
+
+export type MediaType = keyof typeof MEDIA_TYPES;
+
+// Used when INPI does not send a usable Content-Type.
+const DEFAULT_CONTENT_TYPES: Record<MediaType, string> = {
+  sound: "audio/mpeg",
+  video: "video/mp4",
+  "3d": "model/stl",
+};
+
+const EXTENSIONS: Record<string, string> = {
+  "audio/mpeg": "mp3",
+  "audio/mp3": "mp3",
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+  "audio/wave": "wav",
+  "video/mp4": "mp4",
+  "model/stl": "stl",
+  "application/sla": "stl",
+  "model/x3d+xml": "x3d",
+  "model/x3d-vrml": "x3d",
+};
+
+/**
+ * Accepts the short name ("sound") or INPI's name ("MEDIA_TYPE_SOUND"), in any case. Only own
+ * keys count, so "constructor" or "__proto__" never reach the upstream URL.
+ */
+export function parseMediaType(value: string): MediaType | null {
+  const normalized = value.trim().toLowerCase().replace(/^media_type_/, "");
+  return Object.hasOwn(MEDIA_TYPES, normalized) ? (normalized as MediaType) : null;
+}
+
+/**
+ * The media a mark has, from its ST66 MarkFeature ("Sound", "Motion", "3-D", ...), or null for
+ * marks that only have an image.
+ */
+export function mediaTypeForFeature(feature: string | null): MediaType | null {
+  const normalized = (feature ?? "").toLowerCase().replace(/[\s_-]/g, "");
+  if (normalized === "sound") return "sound";
+  if (["motion", "video", "multimedia", "hologram"].includes(normalized)) return "video";
+  if (["3d", "threedimensional", "shape"].includes(normalized)) return "3d";
+  return null;
+}
+
+export function mediaContentType(type: MediaType, upstream?: string | null): string {
+  const contentType = upstream?.split(";")[0].trim().toLowerCase();
+  return contentType && contentType !== "application/octet-stream"
+    ? contentType
+    : DEFAULT_CONTENT_TYPES[type];
+}
+
+/** File name for downloads, e.g. "FR4567890.stl". */
+export function mediaFilename(id: string, contentType: string): string {
+  return `${id.toUpperCase()}.${EXTENSIONS[contentType] ?? "bin"}`;
+}
+
+/** Path of the media route for a mark. */
+export function mediaUrl(type: MediaType, id: string): string {
+  return `/api/trademarks/media/${type}/${id}`;
+}
@@ -0,0 +1,115 @@
+// src/lib/trademark-record.ts
+
+import { z } from "zod";
+
+// The normalized trademark model built from INPI's ST66 notices. It is what the notice API
+// returns, so it is shared by the server and the client; keep it free of server-only imports.
+// Missing values are null rather than absent, and lists are always present.
+
+/**
+ * Whether `id` looks like an application number ("FR1324250", "EM018813893"). Routes check this
+ * before putting an ID in an INPI URL or a download filename.
+ */
+export function isApplicationNumber(id: string): boolean {
+  return /^[A-Za-z0-9]+$/.test(id);
+}
+
+// ISO calendar date, YYYY-MM-DD.
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+export const AddressSchema = z
+  .object({
+    lines: z.array(z.string()),
+    city: z.string().nullable(),
+    postcode: z.string().nullable(),
+    countryCode: z.string().nullable(),
+  })
+  .strict();
+
+export const PartySchema = z
+  .object({
+    identifier: z.string().nullable(),
+    name: z.string().nullable(),
+    legalEntity: z.string().nullable(),
+    address: AddressSchema.nullable(),
+  })
+  .strict();
+
+export const NiceClassSchema = z
+  .object({
+    number: z.number().int().min(1).max(45),
+    /** The goods and services description as published. */
+    description: z.string().nullable(),
+    /** The description split into individual terms. */
+    terms: z.array(z.string()),
+    languageCode: z.string().nullable(),
+  })
+  .strict();
+
+export const MarkImageSchema = z
+  .object({
+    filename: z.string(),
+    format: z.string().nullable(),
+  })
+  .strict();
+
+export const PublicationSchema = z
+  .object({
+    identifier: z.string().nullable(),
+    section: z.string().nullable(),
+    date: isoDate.nullable(),
+  })
+  .strict();
+
+export const MarkEventSchema = z
+  .object({
+    code: z.string(),
+    date: isoDate.nullable(),
+  })
+  .strict();
+
+export const TrademarkRecordSchema = z
+  .object({
+    applicationNumber: z.string().min(1),
+    /** e.g. "FR1324250", the identifier used by the search index and the gateway. */
+    applicationNumberWithCountryCode: z.string().min(1),
+    registrationOfficeCode: z.string().nullable(),
+    registrationNumber: z.string().nullable(),
+    applicationDate: isoDate.nullable(),
+    registrationDate: isoDate.nullable(),
+    expiryDate: isoDate.nullable(),
+    applicationLanguageCode: z.string().nullable(),
+    status: z
+      .object({
+        label: z.string().nullable(),
+        date: isoDate.nullable(),
+      })
+      .strict(),
+    /** e.g. "Individual", "Collective". */
+    kind: z.string().nullable(),
+    /** e.g. "Word", "Figurative", "Sound". */
+    feature: z.string().nullable(),
+    verbalElement: z.string().nullable(),
+    images: z.array(MarkImageSchema),
+    classes: z.array(NiceClassSchema),
+    applicants: z.array(PartySchema),
+    representatives: z.array(PartySchema),
+    publications: z.array(PublicationSchema),
+    events: z.array(MarkEventSchema),
+  })
+  .strict();
+
+export type Address = z.infer<typeof AddressSchema>;
+export type Party = z.infer<typeof PartySchema>;
+export type NiceClass = z.infer<typeof NiceClassSchema>;
+export type MarkImage = z.infer<typeof MarkImageSchema>;
+export type Publication = z.infer<typeof PublicationSchema>;
+export type MarkEvent = z.infer<typeof MarkEventSchema>;
+export type TrademarkRecord = z.infer<typeof TrademarkRecordSchema>;
+
+/** Body of a successful GET /api/trademarks/notice/{id}. */
+export type NoticeResponse = TrademarkRecord & {
+  /** Set when INPI was unavailable and an expired cached notice was served instead. */
+  stale?: boolean;
+  staleSince?: string;
+};
@@ -0,0 +1,170 @@
+jest.mock("@/lib/inpi-search", () => ({
+  __esModule: true,
+  ...jest.requireActual("@/lib/inpi-search"),
+  performUncachedSearch: jest.fn(),
+}));
+jest.mock("@/lib/inpi-client", () => ({
+  __esModule: true,
+  ...jest.requireActual("@/lib/inpi-client"),
+  logError: jest.fn(),
+}));
+jest.mock("@/lib/notifications", () => ({
+  __esModule: true,
+  notifyWatchEvents: jest.fn(),
+}));
+
+import { getInpiRateLimiter } from "@/lib/inpi-client";
+import { performUncachedSearch } from "@/lib/inpi-search";
+import { notifyWatchEvents } from "@/lib/notifications";
+import { Watch } from "@/lib/watchlist";
+import { runDueWatches, runWatch } from "@/lib/watchlist-scheduler";
+import { InMemoryWatchlistStore } from "@/lib/watchlist-store";
+
+const mockedPerformUncachedSearch = performUncachedSearch as jest.Mock;
+const mockedNotifyWatchEvents = notifyWatchEvents as jest.Mock;
+
+const hit = (id: string, status: string) => ({
+  _id: id,
+  _source: {
+    applicationNumberWithCountryCode: id,
+    markWordElement: "BILA",
+    markCurrentStatusCode: status,
+  },
+});
+
+const searchData = (hits: ReturnType<typeof hit>[]) => ({
+  result: { hits: { total: { value: hits.length, relation: "eq" }, hits } },
+});
+
+const watch = (id: string, lastRunAt: string | null = null): Watch => ({
+  id,
+  name: "bila",
+  query: { q: "bila", niceClasses: [9], niceLogic: "AND", origin: "FR" },
+  channels: [],
+  createdAt: "2026-10-01T00:00:00.000Z",
+  lastRunAt,
+  lastSuccessAt: lastRunAt,
+  lastError: null,
+  snapshot: {},
+  events: [],
+});
+
+describe("runWatch", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("searches the newest filings page by page and records the changes", async () => {
+    const store = new InMemoryWatchlistStore();
+    await store.save(watch("w1"));
+    const fullPage = Array.from({ length: 100 }, (_, i) =>
+      hit(`FR${i}`, "Marque déposée")
+    );
+    mockedPerformUncachedSearch
+      .mockResolvedValueOnce(searchData(fullPage))
+      .mockResolvedValueOnce(searchData([hit("FR100", "Marque déposée")]));
+
+    const baseline = await runWatch(
+      store,
+      "w1",
+      new Date("2026-10-02T06:00:00Z")
+    );
+
+    expect(mockedPerformUncachedSearch).toHaveBeenCalledTimes(2);
+    expect(mockedPerformUncachedSearch.mock.calls[1][0]).toMatchObject({
+      query: "bila",
+      niceClasses: [9],
+      origin: "FR",
+      sort: "applicationDate",
+      order: "desc",
+      page: 2,
+      nbResultsPerPage: 100,
+    });
+    expect(baseline!.events).toEqual([]);
+    expect(Object.keys(baseline!.snapshot)).toHaveLength(101);
+    expect(mockedNotifyWatchEvents).not.toHaveBeenCalled();
+
+    mockedPerformUncachedSearch.mockResolvedValueOnce(
+      searchData([
+        hit("FR0", "Marque enregistrée"),
+        hit("FR200", "Marque déposée"),
+      ])
+    );
+    const next = await runWatch(store, "w1", new Date("2026-10-03T06:00:00Z"));
+
+    expect(next!.events.map((event) => [event.kind, event.hit.id])).toEqual([
+      ["statusChange", "FR0"],
+      ["newFiling", "FR200"],
+    ]);
+    expect(await store.get("w1")).toEqual(next);
+    expect(mockedNotifyWatchEvents).toHaveBeenCalledWith(next, next!.events);
+  });
+
+  it("records a failed search without touching the snapshot", async () => {
+    const store = new InMemoryWatchlistStore();
+    await store.save({
+      ...watch("w1", "2026-10-01T06:00:00.000Z"),
+      snapshot: { FR1: { markName: "BILA", status: "Marque déposée" } },
+    });
+    mockedPerformUncachedSearch.mockRejectedValueOnce(
+      new Error("INPI is unavailable.")
+    );
+
+    const updated = await runWatch(
+      store,
+      "w1",
+      new Date("2026-10-02T06:00:00Z")
+    );
+
+    expect(updated).toMatchObject({
+      lastRunAt: "2026-10-02T06:00:00.000Z",
+      lastSuccessAt: "2026-10-01T06:00:00.000Z",
+      lastError: expect.stringContaining("INPI is unavailable"),
+      snapshot: { FR1: { markName: "BILA", status: "Marque déposée" } },
+      events: [],
+    });
+    expect(await runWatch(store, "missing")).toBeUndefined();
+  });
+});
+
+describe("runDueWatches", () => {
+  it("runs only the watches whose last run is older than the interval", async () => {
+    jest.clearAllMocks();
+    const store = new InMemoryWatchlistStore();
+    await store.save(watch("never"));
+    await store.save(watch("yesterday", "2026-10-01T06:00:00.000Z"));
+    await store.save(watch("recent", "2026-10-02T05:00:00.000Z"));
+    mockedPerformUncachedSearch.mockResolvedValue(searchData([]));
+
+    const ran = await runDueWatches(
+      store,
+      new Date("2026-10-02T06:00:00Z"),
+      24 * 3600 * 1000
+    );
+
+    expect(ran.map((w) => w.id)).toEqual(["never", "yesterday"]);
+    expect(mockedPerformUncachedSearch).toHaveBeenCalledTimes(2);
+  });
+
+  it("leaves the due watches for later while the daily budget is low", async () => {
+    jest.clearAllMocks();
+    const store = new InMemoryWatchlistStore();
+    await store.save(watch("never"));
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const usage = jest.spyOn(getInpiRateLimiter(), "getUsage").mockReturnValue({
+      day: "2026-10-02",
+      used: 9500,
+      dailyBudget: 10000,
+      pausedUntil: null,
+    });
+
+    const ran = await runDueWatches(store, new Date("2026-10-02T06:00:00Z"));
+
+    expect(ran).toEqual([]);
+    expect(mockedPerformUncachedSearch).not.toHaveBeenCalled();
+    expect((await store.get("never"))?.lastRunAt).toBeNull();
+    expect(warn).toHaveBeenCalled();
+    usage.mockRestore();
+    warn.mockRestore();
+  });
+});
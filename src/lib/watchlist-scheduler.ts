@@ -0,0 +1,163 @@
+// src/lib/watchlist-scheduler.ts
+
+import { logError } from "@/lib/inpi-client";
+import { isDailyBudgetLow, performUncachedSearch } from "@/lib/inpi-search";
+import { notifyWatchEvents } from "@/lib/notifications";
+import { normalizeSearchRequest } from "@/lib/search-request";
+import { TrademarkSummary, toTrademarkSummary } from "@/lib/search-result";
+import { applyWatchRun, Watch, WatchQuery } from "@/lib/watchlist";
+import type { IWatchlistStore } from "@/lib/watchlist-store";
+
+// A run fetches the most recent filings first, this many per page, over at most this many
+// pages. Older marks are not compared, so their status changes go unnoticed: a watch should be
+// narrow enough to fit.
+const WATCH_PAGE_SIZE = 100;
+const WATCH_MAX_PAGES = 3;
+
+/** How long after its last run a watch is due again, from `WATCHLIST_RUN_INTERVAL_HOURS`. */
+export function watchRunIntervalMs(): number {
+  return (Number(process.env.WATCHLIST_RUN_INTERVAL_HOURS) || 24) * 3600 * 1000;
+}
+
+/** How often due watches are looked for, from `WATCHLIST_CHECK_INTERVAL_SECONDS`. */
+function watchCheckIntervalMs(): number {
+  return (Number(process.env.WATCHLIST_CHECK_INTERVAL_SECONDS) || 600) * 1000;
+}
+
+/**
+ * Runs a watch's search straight against INPI. The search cache keeps results for a week, so
+ * going through it would only show new filings after the weekly flush.
+ */
+async function fetchWatchHits(query: WatchQuery): Promise<TrademarkSummary[]> {
+  const hits: TrademarkSummary[] = [];
+  for (let page = 1; page <= WATCH_MAX_PAGES; page++) {
+    const data = await performUncachedSearch(
+      normalizeSearchRequest({
+        q: query.q,
+        niceClasses: query.niceClasses,
+        niceLogic: query.niceLogic,
+        origin: query.origin,
+        sort: "applicationDate",
+        order: "desc",
+        page,
+        nbResultsPerPage: WATCH_PAGE_SIZE,
+      })
+    );
+    const pageHits = data.result?.hits?.hits ?? [];
+    hits.push(...pageHits.map(toTrademarkSummary));
+    if (pageHits.length < WATCH_PAGE_SIZE) break;
+  }
+  return hits;
+}
+
+/**
+ * Runs a watch now and records what changed since its previous run (see applyWatchRun). New
+ * events are sent to the watch's notification channels before returning. A failed run is
+ * recorded in `lastError`, leaving the snapshot as it was.
+ * @returns The updated watch, or undefined if there is no watch with this id.
+ */
+export async function runWatch(
+  store: IWatchlistStore,
+  id: string,
+  now: Date = new Date()
+): Promise<Watch | undefined> {
+  const watch = await store.get(id);
+  if (!watch) return undefined;
+  let hits: TrademarkSummary[];
+  try {
+    hits = await fetchWatchHits(watch.query);
+  } catch (error: unknown) {
+    logError(`watchRun-${id}`, error);
+    return store.update(id, (current) => ({
+      ...current,
+      lastRunAt: now.toISOString(),
+      lastError: error instanceof Error ? error.message : String(error),
+    }));
+  }
+
+  const updated = await store.update(id, (current) =>
+    applyWatchRun(current, hits, now)
+  );
+  const newEvents =
+    updated?.events.filter((event) => event.detectedAt === now.toISOString()) ??
+    [];
+  if (updated && newEvents.length > 0) {
+    await notifyWatchEvents(updated, newEvents);
+  }
+  return updated;
+}
+
+export function isWatchDue(
+  watch: Watch,
+  now: Date,
+  intervalMs: number
+): boolean {
+  return (
+    watch.lastRunAt === null ||
+    now.getTime() - new Date(watch.lastRunAt).getTime() >= intervalMs
+  );
+}
+
+/**
+ * Runs, one after the other, the watches whose last run is older than the run interval. Once
+ * the daily INPI budget runs low, the remaining watches are left for a later check, so that
+ * searches from the UI keep the rest of the quota.
+ * @returns The watches that were run.
+ */
+export async function runDueWatches(
+  store: IWatchlistStore,
+  now: Date = new Date(),
+  intervalMs: number = watchRunIntervalMs()
+): Promise<Watch[]> {
+  const ran: Watch[] = [];
+  for (const watch of await store.list()) {
+    if (!isWatchDue(watch, now, intervalMs)) continue;
+    if (isDailyBudgetLow()) {
+      console.warn(
+        "[WATCHLIST] The daily INPI budget is low; postponing the remaining due watches."
+      );
+      break;
+    }
+    const updated = await runWatch(store, watch.id, now);
+    if (updated) ran.push(updated);
+  }
+  return ran;
+}
+
+// --- HMR-safe global timer for the watch runs ---
+const globalWithWatchTimer = globalThis as typeof globalThis & {
+  watchlistTimer?: ReturnType<typeof setInterval>;
+  watchlistRunning?: boolean;
+};
+
+/**
+ * Looks for due watches now and then every `WATCHLIST_CHECK_INTERVAL_SECONDS`. A check is
+ * skipped while the previous one is still running.
+ */
+export function scheduleWatchRuns(store: IWatchlistStore) {
+  const check = async () => {
+    if (globalWithWatchTimer.watchlistRunning) return;
+    globalWithWatchTimer.watchlistRunning = true;
+    try {
+      const ran = await runDueWatches(store);
+      if (ran.length > 0) {
+        console.log(`[WATCHLIST] Ran ${ran.length} due watch(es).`);
+      }
+    } catch (error) {
+      console.error("[WATCHLIST] Watch run check failed:", error);
+    } finally {
+      globalWithWatchTimer.watchlistRunning = false;
+    }
+  };
+
+  if (globalWithWatchTimer.watchlistTimer) {
+    clearInterval(globalWithWatchTimer.watchlistTimer);
+  }
+  check();
+  globalWithWatchTimer.watchlistTimer = setInterval(
+    check,
+    watchCheckIntervalMs()
+  );
+  // The schedule alone should not keep scripts and tests alive.
+  globalWithWatchTimer.watchlistTimer.unref?.();
+}
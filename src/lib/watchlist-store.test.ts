@@ -0,0 +1,94 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { Watch } from "@/lib/watchlist";
+import {
+  FileWatchlistStore,
+  InMemoryWatchlistStore,
+  IWatchlistStore,
+} from "@/lib/watchlist-store";
+
+const watch = (id: string): Watch => ({
+  id,
+  name: id,
+  query: { q: id, niceClasses: [], niceLogic: "AND", origin: null },
+  channels: [],
+  createdAt: "2026-10-01T00:00:00.000Z",
+  lastRunAt: null,
+  lastSuccessAt: null,
+  lastError: null,
+  snapshot: {},
+  events: [],
+});
+
+const tmpFile = async () =>
+  path.join(
+    await fs.mkdtemp(path.join(os.tmpdir(), "watchlist-test-")),
+    "watchlists.json"
+  );
+
+function describeBackend(name: string, create: () => Promise<IWatchlistStore>) {
+  describe(name, () => {
+    let store: IWatchlistStore;
+
+    beforeEach(async () => {
+      store = await create();
+    });
+
+    it("saves, lists and deletes watches", async () => {
+      await store.save(watch("a"));
+      await store.save(watch("b"));
+      await store.save({ ...watch("a"), name: "renamed" });
+
+      expect((await store.list()).map((w) => w.name)).toEqual(["renamed", "b"]);
+      expect(await store.delete("a")).toBe(true);
+      expect(await store.delete("a")).toBe(false);
+      expect(await store.get("a")).toBeUndefined();
+      expect(await store.get("b")).toEqual(watch("b"));
+    });
+
+    it("applies concurrent updates one after the other", async () => {
+      await store.save(watch("a"));
+
+      await Promise.all(
+        ["x", "y", "z"].map((id) =>
+          store.update("a", (current) => ({
+            ...current,
+            snapshot: {
+              ...current.snapshot,
+              [id]: { markName: id, status: null },
+            },
+          }))
+        )
+      );
+
+      expect(Object.keys((await store.get("a"))!.snapshot)).toEqual([
+        "x",
+        "y",
+        "z",
+      ]);
+      expect(
+        await store.update("missing", (current) => current)
+      ).toBeUndefined();
+    });
+  });
+}
+
+describeBackend(
+  "InMemoryWatchlistStore",
+  async () => new InMemoryWatchlistStore()
+);
+
+describeBackend(
+  "FileWatchlistStore",
+  async () => new FileWatchlistStore(await tmpFile())
+);
+
+describe("FileWatchlistStore persistence", () => {
+  it("keeps watches across instances using the same file", async () => {
+    const filePath = await tmpFile();
+
+    await new FileWatchlistStore(filePath).save(watch("a"));
+    expect(await new FileWatchlistStore(filePath).list()).toEqual([watch("a")]);
+  });
+});
@@ -0,0 +1,198 @@
+// src/lib/watchlist-store.ts
+
+import crypto from "crypto";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import type { Watch } from "@/lib/watchlist";
+
+/**
+ * Where watches are kept. Watches are user data, not cached INPI responses, so they are not
+ * kept in the cache service, whose weekly flush would wipe them.
+ */
+export interface IWatchlistStore {
+  /** All watches, oldest first. */
+  list(): Promise<Watch[]>;
+
+  get(id: string): Promise<Watch | undefined>;
+
+  /** Adds a watch, or replaces the one with the same id. */
+  save(watch: Watch): Promise<void>;
+
+  /**
+   * Replaces a watch with `update(current)`, without another write slipping in between.
+   * @returns The updated watch, or undefined if there is no watch with this id.
+   */
+  update(
+    id: string,
+    update: (watch: Watch) => Watch
+  ): Promise<Watch | undefined>;
+
+  /** @returns False if there was no watch with this id. */
+  delete(id: string): Promise<boolean>;
+}
+
+export type WatchlistBackend = "memory" | "file";
+
+/** Keeps watches in memory; they are lost on restart. */
+export class InMemoryWatchlistStore implements IWatchlistStore {
+  private watches = new Map<string, Watch>();
+
+  async list(): Promise<Watch[]> {
+    return [...this.watches.values()];
+  }
+
+  async get(id: string): Promise<Watch | undefined> {
+    return this.watches.get(id);
+  }
+
+  async save(watch: Watch): Promise<void> {
+    this.watches.set(watch.id, watch);
+  }
+
+  async update(
+    id: string,
+    update: (watch: Watch) => Watch
+  ): Promise<Watch | undefined> {
+    const current = this.watches.get(id);
+    if (!current) return undefined;
+    const updated = update(current);
+    this.watches.set(id, updated);
+    return updated;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.watches.delete(id);
+  }
+}
+
+interface WatchlistFile {
+  version: 1;
+  watches: Watch[];
+}
+
+/**
+ * Keeps all watches in one JSON file, so they survive restarts. Writes from this process are
+ * serialized; the file is not meant to be shared by several servers.
+ */
+export class FileWatchlistStore implements IWatchlistStore {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  private async read(): Promise<Watch[]> {
+    try {
+      const file: WatchlistFile = JSON.parse(
+        await fs.readFile(this.filePath, "utf-8")
+      );
+      return file.watches ?? [];
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+  }
+
+  private async write(watches: Watch[]): Promise<void> {
+    const file: WatchlistFile = { version: 1, watches };
+    // Write to a temporary file first so readers never see a half-written file.
+    const tmpPath = `${this.filePath}.${process.pid}.${crypto.randomUUID()}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify(file), "utf-8");
+    await fs.rename(tmpPath, this.filePath);
+  }
+
+  /** Runs read-modify-write operations one at a time. */
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  async list(): Promise<Watch[]> {
+    return this.exclusive(() => this.read());
+  }
+
+  async get(id: string): Promise<Watch | undefined> {
+    return (await this.list()).find((watch) => watch.id === id);
+  }
+
+  async save(watch: Watch): Promise<void> {
+    await this.exclusive(async () => {
+      const watches = await this.read();
+      const index = watches.findIndex((existing) => existing.id === watch.id);
+      if (index === -1) watches.push(watch);
+      else watches[index] = watch;
+      await this.write(watches);
+    });
+  }
+
+  async update(
+    id: string,
+    update: (watch: Watch) => Watch
+  ): Promise<Watch | undefined> {
+    return this.exclusive(async () => {
+      const watches = await this.read();
+      const index = watches.findIndex((watch) => watch.id === id);
+      if (index === -1) return undefined;
+      watches[index] = update(watches[index]);
+      await this.write(watches);
+      return watches[index];
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.exclusive(async () => {
+      const watches = await this.read();
+      const remaining = watches.filter((watch) => watch.id !== id);
+      if (remaining.length === watches.length) return false;
+      await this.write(remaining);
+      return true;
+    });
+  }
+}
+
+export interface WatchlistStoreConfig {
+  backend: WatchlistBackend;
+  filePath: string;
+}
+
+/**
+ * Reads the watchlist store configuration from the environment:
+ * - `WATCHLIST_BACKEND`: `memory` (default) or `file`.
+ * - `WATCHLIST_FILE`: the JSON file for the `file` backend.
+ */
+export function getWatchlistStoreConfig(): WatchlistStoreConfig {
+  return {
+    backend:
+      process.env.WATCHLIST_BACKEND?.toLowerCase() === "file"
+        ? "file"
+        : "memory",
+    filePath:
+      process.env.WATCHLIST_FILE ||
+      path.join(os.tmpdir(), "trademark-search-watchlists.json"),
+  };
+}
+
+export function createWatchlistStore(
+  config: WatchlistStoreConfig
+): IWatchlistStore {
+  return config.backend === "file"
+    ? new FileWatchlistStore(config.filePath)
+    : new InMemoryWatchlistStore();
+}
+
+// --- Singleton Instance ---
+
+// Kept on globalThis so that route modules reloaded by HMR and the scheduler share one store.
+const globalWithStore = globalThis as typeof globalThis & {
+  watchlistStore?: IWatchlistStore;
+};
+
+export function getWatchlistStore(): IWatchlistStore {
+  if (!globalWithStore.watchlistStore) {
+    const config = getWatchlistStoreConfig();
+    globalWithStore.watchlistStore = createWatchlistStore(config);
+    console.log(`[WATCHLIST] Using the ${config.backend} watchlist store.`);
+  }
+  return globalWithStore.watchlistStore;
+}
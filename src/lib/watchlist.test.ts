@@ -0,0 +1,132 @@
+import { TrademarkSummary } from "@/lib/search-result";
+import {
+  applyWatchRun,
+  markEventsSeen,
+  parseWatchInput,
+  toWatchView,
+  Watch,
+} from "@/lib/watchlist";
+
+const summary = (id: string, status: string): TrademarkSummary => ({
+  id,
+  applicationNumber: id.slice(2),
+  markName: "BILA",
+  applicationDate: "2026-10-01",
+  registrationDate: null,
+  expiryDate: null,
+  registrationOfficeCode: "FR",
+  origin: "FR",
+  status,
+  feature: "Word",
+  niceClasses: [9],
+  goodsAndServices: [],
+  applicants: ["TERRAILLON S.A."],
+  hasImage: false,
+});
+
+const newWatch = (): Watch => ({
+  id: "watch-1",
+  name: "bila",
+  query: { q: "bila", niceClasses: [], niceLogic: "AND", origin: null },
+  channels: [],
+  createdAt: "2026-10-01T00:00:00.000Z",
+  lastRunAt: null,
+  lastSuccessAt: null,
+  lastError: null,
+  snapshot: {},
+  events: [],
+});
+
+describe("parseWatchInput", () => {
+  it("normalizes the query and filters like a search", () => {
+    expect(
+      parseWatchInput({
+        q: "  Bíla ",
+        niceClasses: [42, 9, 9],
+        niceLogic: "or",
+        origin: "fr",
+      })
+    ).toEqual({
+      name: "bila",
+      query: { q: "bila", niceClasses: [9, 42], niceLogic: "OR", origin: "FR" },
+    });
+    expect(
+      parseWatchInput({ name: " Bila FR ", q: "bila", niceClasses: "9" })
+    ).toMatchObject({ name: "Bila FR", query: { niceClasses: [9] } });
+  });
+
+  it("rejects a watch without free text", () => {
+    expect(parseWatchInput({ q: "  ", niceClasses: [9] })).toBeNull();
+    expect(parseWatchInput({})).toBeNull();
+  });
+});
+
+describe("applyWatchRun", () => {
+  const firstRun = new Date("2026-10-02T06:00:00Z");
+  const secondRun = new Date("2026-10-03T06:00:00Z");
+
+  it("records the first run as the baseline without events", () => {
+    const watch = applyWatchRun(
+      newWatch(),
+      [summary("FR1", "Marque déposée")],
+      firstRun
+    );
+
+    expect(watch.snapshot).toEqual({
+      FR1: { markName: "BILA", status: "Marque déposée" },
+    });
+    expect(watch.events).toEqual([]);
+    expect(watch.lastSuccessAt).toBe(firstRun.toISOString());
+  });
+
+  it("reports new marks and status changes against the previous runs", () => {
+    const baseline = applyWatchRun(
+      newWatch(),
+      [summary("FR1", "Marque déposée"), summary("FR2", "Marque déposée")],
+      firstRun
+    );
+    const watch = applyWatchRun(
+      { ...baseline, lastError: "INPI is unavailable" },
+      [summary("FR1", "Marque enregistrée"), summary("FR3", "Marque déposée")],
+      secondRun
+    );
+
+    expect(watch.events).toEqual([
+      expect.objectContaining({
+        kind: "statusChange",
+        hit: expect.objectContaining({ id: "FR1" }),
+        previousStatus: "Marque déposée",
+        seen: false,
+      }),
+      expect.objectContaining({
+        id: `${secondRun.toISOString()}:FR3:newFiling`,
+        kind: "newFiling",
+        previousStatus: null,
+      }),
+    ]);
+    // FR2 is no longer found but stays known.
+    expect(Object.keys(watch.snapshot)).toEqual(["FR1", "FR2", "FR3"]);
+    expect(watch.lastError).toBeNull();
+    expect(toWatchView(watch)).toMatchObject({ markCount: 3, unseenCount: 2 });
+  });
+});
+
+describe("markEventsSeen", () => {
+  it("marks the given events, or all of them", () => {
+    const baseline = applyWatchRun(newWatch(), [], new Date("2026-10-02"));
+    const watch = applyWatchRun(
+      baseline,
+      [summary("FR1", "Marque déposée"), summary("FR2", "Marque déposée")],
+      new Date("2026-10-03")
+    );
+    const [first, second] = watch.events;
+
+    const partly = markEventsSeen(watch, [first.id]);
+    expect(partly.events.map((event) => event.seen)).toEqual([true, false]);
+    expect(toWatchView(partly).unseenCount).toBe(1);
+
+    const all = markEventsSeen(partly);
+    expect(all.events.every((event) => event.seen)).toBe(true);
+    expect(all.events[1].id).toBe(second.id);
+  });
+});
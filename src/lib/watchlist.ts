@@ -0,0 +1,176 @@
+// src/lib/watchlist.ts
+
+import { NiceLogic, normalizeSearchRequest } from "@/lib/search-request";
+import type { TrademarkSummary } from "@/lib/search-result";
+
+// Saved searches that are re-run on a schedule to catch newly filed marks and status changes.
+// The model and the diff between runs live here; storage is in watchlist-store.ts and the
+// runs in watchlist-scheduler.ts. Safe to import from client code.
+
+/** What a watch searches for: the free text and the filters of the search page. */
+export interface WatchQuery {
+  /** Normalized like SearchRequest.query. */
+  q: string;
+  niceClasses: number[];
+  niceLogic: NiceLogic;
+  origin: string | null;
+}
+
+/** A mark as last seen by a watch. */
+export interface WatchedMark {
+  markName: string | null;
+  status: string | null;
+}
+
+/** newFiling: a mark the watch had not found before. statusChange: a known mark's status moved. */
+export type WatchEventKind = "newFiling" | "statusChange";
+
+export interface WatchEvent {
+  /** Unique within the watch: the run time, the mark and the kind. */
+  id: string;
+  kind: WatchEventKind;
+  /** ISO date-time of the run that found it. */
+  detectedAt: string;
+  hit: TrademarkSummary;
+  /** For status changes, the status the previous runs knew. */
+  previousStatus: string | null;
+  seen: boolean;
+}
+
+export interface Watch {
+  id: string;
+  name: string;
+  query: WatchQuery;
+  /** Ids of the notification channels told about new events (see notifications.ts). */
+  channels: string[];
+  createdAt: string;
+  /** Last run, successful or not. */
+  lastRunAt: string | null;
+  /** Last successful run; null until the first, which only records the baseline. */
+  lastSuccessAt: string | null;
+  lastError: string | null;
+  /** Every mark the watch has found, by applicationNumberWithCountryCode. */
+  snapshot: Record<string, WatchedMark>;
+  /** Newest first, at most MAX_WATCH_EVENTS. */
+  events: WatchEvent[];
+}
+
+/** A watch as returned by the API: the snapshot is replaced by counts. */
+export type WatchView = Omit<Watch, "snapshot"> & {
+  markCount: number;
+  unseenCount: number;
+};
+
+export const MAX_WATCH_EVENTS = 500;
+
+/**
+ * A run walks up to 3 result pages, one INPI request each. When the classes are AND-ed, INPI
+ * cannot filter them, so each page is found by paging through up to 10 upstream pages (see
+ * searchWithServerSideFilter): up to 30 requests per watch. Daily runs of this many watches
+ * then use at most 3,000 requests, under a third of the default daily quota, and runs wait
+ * while the budget is low (see runDueWatches).
+ */
+export const MAX_WATCHES = 100;
+
+export const MAX_WATCH_NAME_LENGTH = 100;
+
+export function toWatchView(watch: Watch): WatchView {
+  const { snapshot, ...rest } = watch;
+  return {
+    ...rest,
+    markCount: Object.keys(snapshot).length,
+    unseenCount: watch.events.filter((event) => !event.seen).length,
+  };
+}
+
+/**
+ * Reads a watch's name and query from a request body, normalized like a search request. Null
+ * when there is no free text to watch.
+ */
+export function parseWatchInput(
+  raw: Record<string, unknown>
+): { name: string; query: WatchQuery } | null {
+  const text = (value: unknown) => (typeof value === "string" ? value : null);
+  const request = normalizeSearchRequest({
+    q: text(raw.q),
+    niceClasses: Array.isArray(raw.niceClasses)
+      ? raw.niceClasses.join(",")
+      : text(raw.niceClasses),
+    niceLogic: text(raw.niceLogic),
+    origin: text(raw.origin),
+  });
+  if (!request.query) return null;
+  const name =
+    typeof raw.name === "string" && raw.name.trim()
+      ? raw.name.trim().slice(0, MAX_WATCH_NAME_LENGTH)
+      : request.query;
+  return {
+    name,
+    query: {
+      q: request.query,
+      niceClasses: request.niceClasses,
+      niceLogic: request.niceLogic,
+      origin: request.origin,
+    },
+  };
+}
+
+/**
+ * Applies a successful run to a watch. The first run records the marks found as the baseline;
+ * later runs record marks missing from the snapshot as new filings and marks whose status
+ * differs as status changes. Marks no longer found stay in the snapshot, so a mark dropping
+ * out of the results and coming back is not reported as new.
+ */
+export function applyWatchRun(
+  watch: Watch,
+  hits: TrademarkSummary[],
+  runAt: Date
+): Watch {
+  const detectedAt = runAt.toISOString();
+  const isBaseline = watch.lastSuccessAt === null;
+  const snapshot = { ...watch.snapshot };
+  const events: WatchEvent[] = [];
+  for (const hit of hits) {
+    const previous = watch.snapshot[hit.id];
+    snapshot[hit.id] = { markName: hit.markName, status: hit.status };
+    if (isBaseline) continue;
+    if (!previous) {
+      events.push({
+        id: `${detectedAt}:${hit.id}:newFiling`,
+        kind: "newFiling",
+        detectedAt,
+        hit,
+        previousStatus: null,
+        seen: false,
+      });
+    } else if (previous.status !== hit.status) {
+      events.push({
+        id: `${detectedAt}:${hit.id}:statusChange`,
+        kind: "statusChange",
+        detectedAt,
+        hit,
+        previousStatus: previous.status,
+        seen: false,
+      });
+    }
+  }
+  return {
+    ...watch,
+    lastRunAt: detectedAt,
+    lastSuccessAt: detectedAt,
+    lastError: null,
+    snapshot,
+    events: [...events, ...watch.events].slice(0, MAX_WATCH_EVENTS),
+  };
+}
+
+/** Marks some events of a watch as seen, or all of them without ids. */
+export function markEventsSeen(watch: Watch, eventIds?: string[]): Watch {
+  const ids = eventIds ? new Set(eventIds) : null;
+  return {
+    ...watch,
+    events: watch.events.map((event) =>
+      !ids || ids.has(event.id) ? { ...event, seen: true } : event
+    ),
+  };
+}